@@ -1,71 +1,62 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { GoogleGenAI, Type } from "@google/genai";
 import { Stepper } from './components/Stepper';
 import { FileUpload } from './components/FileUpload';
 import { DataTable } from './components/DataTable';
 import { Modal } from './components/Modal';
 import { ConfirmationModal } from './components/ConfirmationModal';
-import { DownloadIcon, WarningIcon, DatabaseIcon, NetworkIcon, SparklesIcon, PlusCircleIcon, CheckBadgeIcon, FilterIcon, CheckIcon, CloseIcon, DocumentDuplicateIcon, MagnifyingGlassIcon, ChatBubbleLeftRightIcon } from './components/icons';
-import { parseFile, exportFile } from './services/fileProcessor';
-import type { TableData, TableRow, ProcessingStep, IdentificationResult } from './types';
-
-const PROCESSING_STEPS: ProcessingStep[] = [
-  { name: 'Mzmine导出数据增列', description: '上传 Mzmine 导出文件或已处理的净表。', fileType: 'mzmine', requiredColumns: [], matchColumn: '', appendColumns: [] },
-  { name: '上传净表', description: '确认基础数据已加载并符合要求。', fileType: 'netTable', requiredColumns: ['ID', 'MZ'], matchColumn: '', appendColumns: [] },
-  { name: '匹配FBMN', description: '上传FBMN特征文件以匹配ID并追加信息。', fileType: 'fbmn', requiredColumns: ['ID'], matchColumn: 'ID', appendColumns: ['Compound_Name', 'NAME (中文翻译)', 'Adduct', 'LibraryQualityString', 'MQScore', 'MZErrorPPM', 'SharedPeaks'] },
-  { name: '匹配Sirius', description: '上传Sirius匹配结果以匹配ID并追加信息。', fileType: 'sirius', requiredColumns: ['ID'], matchColumn: 'ID', appendColumns: ['name', 'molecularFormula', 'ConfidenceScoreExact', 'smiles', 'ConfidenceScoreApproximate', 'InChIkey2D'] },
-  { name: '匹配补充列', description: '上传补充列文件以匹配MZ并追加信息。', fileType: 'supplementary', requiredColumns: ['ionMass'], matchColumn: 'ionMass', matchColumnBase: 'MZ', appendColumns: ['molecularFormula', 'NPC#superclass', 'ClassyFire#superclass', 'ClassyFire#class', 'InChI'] },
-  { name: '生成最终注释', description: '基于FBMN和Sirius的结果生成最终注释列。', fileType: 'annotation', requiredColumns: [], matchColumn: '', appendColumns: ['Final_Annotation'] },
-];
-
-const stepIcons = [
-    (props: any) => <DatabaseIcon {...props} />,
-    (props: any) => <CheckIcon {...props} />,
-    (props: any) => <NetworkIcon {...props} />,
-    (props: any) => <SparklesIcon {...props} />,
-    (props: any) => <PlusCircleIcon {...props} />,
-    (props: any) => <CheckBadgeIcon {...props} />,
-];
-
-const determineFinalAnnotation = (row: TableRow): string => {
-    const compoundName = String(row['Compound_Name'] || '').trim();
-    const siriusName = String(row['name'] || '').trim();
-
-    if (!compoundName && !siriusName) return '';
-    if (compoundName && !siriusName) return compoundName;
-    if (!compoundName && siriusName) return siriusName;
-
-    if (compoundName.toLowerCase() === siriusName.toLowerCase()) {
-      return compoundName;
-    }
-
-    const mqScore = parseFloat(String(row['MQScore']));
-    const libQuality = String(row['LibraryQualityString'] || '');
-    const sharedPeaks = parseInt(String(row['SharedPeaks']));
-    const mzError = parseFloat(String(row['MZErrorPPM']));
-    const confidence = parseFloat(String(row['ConfidenceScoreExact']));
-
-    const isFbmnStrong = !isNaN(mqScore) && !isNaN(sharedPeaks) && !isNaN(mzError) &&
-                         mqScore > 0.9 &&
-                         libQuality === 'Gold' &&
-                         sharedPeaks > 10 &&
-                         Math.abs(mzError) < 5;
-
-    const isSiriusStrong = !isNaN(confidence) && confidence > 0.8;
-    
-    if (isFbmnStrong && isSiriusStrong) {
-        return siriusName;
-    }
-    if (isFbmnStrong) {
-        return compoundName;
-    }
-    if (isSiriusStrong) {
-        return siriusName;
-    }
-    return compoundName;
+import { PipelineEditor } from './components/PipelineEditor';
+import { ColumnMappingModal } from './components/ColumnMappingModal';
+import { AnnotationRulesEditor } from './components/AnnotationRulesEditor';
+import { CandidatePanel } from './components/CandidatePanel';
+import { SampleSummaryTable } from './components/SampleSummaryTable';
+import { DriftCorrectionReport } from './components/DriftCorrectionReport';
+import { VolcanoPlot } from './components/VolcanoPlot';
+import { ScatterPlot } from './components/ScatterPlot';
+import { Heatmap } from './components/Heatmap';
+import { ContaminantPreview } from './components/ContaminantPreview';
+import { ProjectManager } from './components/ProjectManager';
+import { OperationLog } from './components/OperationLog';
+import { DownloadIcon, WarningIcon, DatabaseIcon, NetworkIcon, SparklesIcon, PlusCircleIcon, CheckBadgeIcon, FilterIcon, CheckIcon, CloseIcon, DocumentDuplicateIcon, MagnifyingGlassIcon, ChatBubbleLeftRightIcon, AdjustmentsIcon, ChartBarIcon, Squares2X2Icon } from './components/icons';
+import { parseFile, exportFile, exportHtmlFile, printHtml, readTextFile } from './services/fileProcessor';
+import { buildProcessingReport } from './services/processingReport';
+import { buildLogTable, changedKeys, createLogEntry, defaultNote, describeChanges, HistoryEntry, HistorySnapshot, OperationLogEntry, OperationNote, OperationParams, takeSnapshot } from './services/operationHistory';
+import { createProjectId, defaultProjectName, deleteProject, describeProject, exportProjectFile, hasProjectData, listProjects, loadProject, parseProjectFile, ProjectState, ProjectSummary, saveProject } from './services/projectStore';
+import { getCandidatePrefix, keepsCandidates, loadPipeline, savePipeline } from './services/pipelineConfig';
+import { buildCandidateHits, candidateColumns, formatCandidate, groupRowsByKey, rankRows } from './services/candidates';
+import { DEFAULT_ANNOTATION_RULES, determineFinalAnnotation } from './services/annotationRules';
+import { classifyMsiLevel, MSI_LEVEL_LABELS, MsiLevel } from './services/msiLevel';
+import { classifySampleColumns, getInjectionOrder, parseRunList, parseSampleMetadata } from './services/sampleMetadata';
+import { correctDrift, missingInjectionOrder } from './services/driftCorrection';
+import { CONTAMINANT_CATEGORY_LABELS, ContaminantCategory, DEFAULT_LIBRARY_SETTINGS, flagLibraryContaminants, LIBRARY_COLUMN, LibrarySettings, matchContaminantLibrary, summarizeLibraryHits } from './services/contaminantLibrary';
+import { ContaminantMatchSettings, DEFAULT_CONTAMINANT_MATCH, matchContaminants, parseSynonymTable, SynonymGroups } from './services/contaminantMatching';
+import { applyFragmentFilter, CORRELATION_LABELS, CorrelationMethod, DEFAULT_FRAGMENT_SETTINGS, detectInSourceFragments, FragmentSettings, MIN_PAIRED_SAMPLES } from './services/inSourceFragments';
+import { buildDereplicationGroups, groupAdductsAndIsotopes, ION_POLARITY_LABELS, IonPolarity } from './services/ionGrouping';
+import { buildHeatmapMatrix, ClusterTree, DISTANCE_LABELS, DistanceMetric, hierarchicalCluster, HeatmapMatrix, LINKAGE_LABELS, LinkageMethod } from './services/clustering';
+import { buildScoresTable, buildSampleMatrix, buildVipTable, PcaResult, PlsdaResult, runPca, runPlsda, SampleMatrix, SCALING_LABELS, ScalingMethod } from './services/multivariate';
+import { buildDifferentialTable, DIFFERENTIAL_TEST_LABELS, DifferentialResult, DifferentialTest, isSignificant, runDifferentialAnalysis } from './services/statistics';
+import { assignBatchMetadata, BATCH_CORRECTION_LABELS, BatchAlignMode, BatchCorrectionMethod, BatchTable, buildBatchSheet, correctBatchEffects, mergeBatches, prepareNetTable } from './services/batchMerge';
+import { buildImputationSheet, DEFAULT_IMPUTATION, getImputedColumns, IMPUTATION_METHOD_LABELS, ImputationMethod, ImputationSettings, imputeMissingValues } from './services/imputation';
+import { normalizeSamples, NORMALIZATION_METHOD_LABELS, NormalizationMethod, summarizeSamples } from './services/normalization';
+import { applyBlankFilter, applyQualityFilter, DEFAULT_QUALITY_FILTER, getRemovedData, getRetainedData, QualityFilterSettings, summarizeRemovalReasons } from './services/featureFilters';
+import { applyColumnMapping, buildInitialMapping, getMappingKey, loadColumnMapping, needsColumnMapping, saveColumnMapping } from './services/columnMapping';
+import { buildMassCandidates, findClosestMassMatch, findClosestMzRtMatch, toNumber } from './services/massMatcher';
+import type { TableData, TableRow, ProcessingStep, IdentificationResult, MassTolerance, ColumnMapping, AnnotationRules, CandidateHit, CandidateSet, SampleInfo, InputFileRecord } from './types';
+
+const stepIcons: Record<ProcessingStep['fileType'], (props: any) => React.ReactElement> = {
+    mzmine: (props: any) => <DatabaseIcon {...props} />,
+    netTable: (props: any) => <CheckIcon {...props} />,
+    fbmn: (props: any) => <NetworkIcon {...props} />,
+    sirius: (props: any) => <SparklesIcon {...props} />,
+    supplementary: (props: any) => <PlusCircleIcon {...props} />,
+    external: (props: any) => <MagnifyingGlassIcon {...props} />,
+    custom: (props: any) => <PlusCircleIcon {...props} />,
+    annotation: (props: any) => <CheckBadgeIcon {...props} />,
 };
 
+const AUTOSAVE_DELAY_MS = 2000;
+
 const Toast = ({ message, onClose }: { message: string, onClose: () => void }) => {
     useEffect(() => {
         const timer = setTimeout(() => {
@@ -85,23 +76,99 @@ const Toast = ({ message, onClose }: { message: string, onClose: () => void }) =
 
 const App: React.FC = () => {
   // Workflow state
+  const [pipeline, setPipeline] = useState<ProcessingStep[]>(() => loadPipeline());
+  const [isEditingPipeline, setIsEditingPipeline] = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
   const [netTable, setNetTable] = useState<TableData | null>(null);
   const [mergedData, setMergedData] = useState<TableData | null>(null);
   const [dataHistory, setDataHistory] = useState<(TableData)[]>([]);
   const [allUnmatched, setAllUnmatched] = useState<Record<number, (string | number)[]>>({});
+  const [massTolerance, setMassTolerance] = useState<MassTolerance>({ value: 5, unit: 'ppm' });
+  const [rtWindow, setRtWindow] = useState(0.1);
+  const [ambiguousMatches, setAmbiguousMatches] = useState<Record<number, string[]>>({});
+  const [candidateTopN, setCandidateTopN] = useState(3);
+  const [featureCandidates, setFeatureCandidates] = useState<Record<string, CandidateSet>>({});
+  const [showCandidatePanel, setShowCandidatePanel] = useState(false);
+  const [annotationRules, setAnnotationRules] = useState<AnnotationRules>(DEFAULT_ANNOTATION_RULES);
+  const [showAnnotationRules, setShowAnnotationRules] = useState(false);
+  const [isMultiBatch, setIsMultiBatch] = useState(false);
+  const [batches, setBatches] = useState<BatchTable[]>([]);
+  const [batchAlignMode, setBatchAlignMode] = useState<BatchAlignMode>('id');
+  const [batchCorrection, setBatchCorrection] = useState<BatchCorrectionMethod>('qc');
+  const [columnBatches, setColumnBatches] = useState<Record<string, string> | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<{ data: TableData; fileName: string; initialMapping: ColumnMapping } | null>(null);
+
+  // Sample metadata state
+  const [sampleMetadata, setSampleMetadata] = useState<SampleInfo[] | null>(null);
 
   // Dereplication tool state
   const [dereplicationData, setDereplicationData] = useState<TableData | null>(null);
   const [dataBeforeDereplication, setDataBeforeDereplication] = useState<TableData | null>(null);
   const [isDereplicated, setIsDereplicated] = useState(false);
+  const [ionPolarity, setIonPolarity] = useState<IonPolarity>('positive');
+  const [useIonGroups, setUseIonGroups] = useState(true);
+
+  // State for Feature Filter Tool
+  const [featureFilterData, setFeatureFilterData] = useState<TableData | null>(null);
+  const [featureFilterHistory, setFeatureFilterHistory] = useState<TableData[]>([]);
+  const [minBlankFold, setMinBlankFold] = useState(3);
+  const [qualityFilterSettings, setQualityFilterSettings] = useState<QualityFilterSettings>(DEFAULT_QUALITY_FILTER);
+  const [fragmentSettings, setFragmentSettings] = useState<FragmentSettings>(DEFAULT_FRAGMENT_SETTINGS);
+  const [excludeFragments, setExcludeFragments] = useState(false);
+
+  // State for Preprocessing Tool
+  const [preprocessData, setPreprocessData] = useState<TableData | null>(null);
+  const [preprocessHistory, setPreprocessHistory] = useState<{ data: TableData; label: string }[]>([]);
+  const [imputationSettings, setImputationSettings] = useState<ImputationSettings>(DEFAULT_IMPUTATION);
+  const [normalizationMethod, setNormalizationMethod] = useState<NormalizationMethod>('pqn');
+  const [internalStandardText, setInternalStandardText] = useState('');
+  const [runListOrder, setRunListOrder] = useState<Record<string, number> | null>(null);
+  const [driftSpan, setDriftSpan] = useState(0.75);
+  const [driftContext, setDriftContext] = useState<{ before: TableData; after: TableData; sampleCols: string[]; qcCols: string[]; injectionOrder: Record<string, number>; span: number; uncorrectedValues: number } | null>(null);
+
+  // State for Statistics Tool
+  const [statsData, setStatsData] = useState<TableData | null>(null);
+  const [statsGroupA, setStatsGroupA] = useState('');
+  const [statsGroupB, setStatsGroupB] = useState('');
+  const [statsTest, setStatsTest] = useState<DifferentialTest>('welch');
+  const [statsLogTransform, setStatsLogTransform] = useState(true);
+  const [statsMaxFdr, setStatsMaxFdr] = useState(0.05);
+  const [statsMinLog2Fc, setStatsMinLog2Fc] = useState(1);
+  const [statsResults, setStatsResults] = useState<{ results: DifferentialResult[]; groupA: string; groupB: string } | null>(null);
+  const [selectedStatsFeature, setSelectedStatsFeature] = useState<number | null>(null);
+
+  // State for Multivariate Analysis
+  const [multivariateSource, setMultivariateSource] = useState('');
+  const [multivariateIncludeQc, setMultivariateIncludeQc] = useState(true);
+  const [multivariateLogTransform, setMultivariateLogTransform] = useState(true);
+  const [multivariateScaling, setMultivariateScaling] = useState<ScalingMethod>('pareto');
+  const [plsdaComponents, setPlsdaComponents] = useState(2);
+  const [plsdaPermutations, setPlsdaPermutations] = useState(100);
+  const [pcaResult, setPcaResult] = useState<{ data: TableData; matrix: SampleMatrix; pca: PcaResult } | null>(null);
+  const [plsdaResult, setPlsdaResult] = useState<{ data: TableData; matrix: SampleMatrix; result: PlsdaResult } | null>(null);
+
+  // State for Heatmap
+  const [heatmapSelection, setHeatmapSelection] = useState<'pValue' | 'vip' | 'manual'>('pValue');
+  const [heatmapTopN, setHeatmapTopN] = useState(50);
+  const [heatmapIdsText, setHeatmapIdsText] = useState('');
+  const [heatmapDistance, setHeatmapDistance] = useState<DistanceMetric>('euclidean');
+  const [heatmapLinkage, setHeatmapLinkage] = useState<LinkageMethod>('average');
+  const [heatmapClusterRows, setHeatmapClusterRows] = useState(true);
+  const [heatmapClusterCols, setHeatmapClusterCols] = useState(true);
+  const [heatmapZScore, setHeatmapZScore] = useState(true);
+  const [heatmapResult, setHeatmapResult] = useState<{ matrix: HeatmapMatrix; rowLabels: string[]; rowTree: ClusterTree | null; colTree: ClusterTree | null; zScore: boolean } | null>(null);
 
   // Filter tool state
   const [filterToolData, setFilterToolData] = useState<TableData | null>(null);
   const [dataBeforeFilter, setDataBeforeFilter] = useState<TableData | null>(null);
   const [contaminantList, setContaminantList] = useState<Set<string> | null>(null);
   const [contaminantText, setContaminantText] = useState('');
+  const [contaminantMatchSettings, setContaminantMatchSettings] = useState<ContaminantMatchSettings>(DEFAULT_CONTAMINANT_MATCH);
+  const [synonymGroups, setSynonymGroups] = useState<SynonymGroups>([]);
+  const [disabledContaminantEntries, setDisabledContaminantEntries] = useState<Set<string>>(new Set<string>());
+  const [librarySettings, setLibrarySettings] = useState<LibrarySettings>(DEFAULT_LIBRARY_SETTINGS);
   const [isFiltered, setIsFiltered] = useState(false);
+  const [maxMsiLevel, setMaxMsiLevel] = useState<MsiLevel | null>(null);
   
   // Identification tool state
   const [identificationSource, setIdentificationSource] = useState<'gemini' | 'api'>('gemini');
@@ -123,17 +190,37 @@ const App: React.FC = () => {
   const [modalOpen, setModalOpen] = useState(false);
   const [unmatchedItems, setUnmatchedItems] = useState<(string | number)[]>([]);
   const [modalTitle, setModalTitle] = useState('');
+  const [modalDescription, setModalDescription] = useState<string | undefined>(undefined);
   const [resetModalOpen, setResetModalOpen] = useState(false);
   const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  // Project persistence state
+  const [activeProject, setActiveProject] = useState<{ id: string; name: string; savedAt: string | null } | null>(null);
+  const [projectList, setProjectList] = useState<ProjectSummary[]>([]);
+  const [projectManagerOpen, setProjectManagerOpen] = useState(false);
+  const lastSavedProjectRef = useRef<{ state: ProjectState; name: string } | null>(null);
+  // Id the current session will be saved under once it has data; replaced whenever a fresh session starts.
+  const newProjectIdRef = useRef(createProjectId());
+
+  // Operation history state
+  const [operationHistory, setOperationHistory] = useState<{ entries: HistoryEntry[]; index: number }>({ entries: [], index: 0 });
+  const [operationLog, setOperationLog] = useState<OperationLogEntry[]>([]);
+  const [inputFiles, setInputFiles] = useState<InputFileRecord[]>([]);
+  const pendingNoteRef = useRef<OperationNote | null>(null);
+  const lastSnapshotRef = useRef<HistorySnapshot | null>(null);
+  const skipHistoryRef = useRef(false);
   
   const stepRefs = useRef<(HTMLDivElement | null)[]>([]);
   const filterToolRef = useRef<HTMLDivElement | null>(null);
   const dereplicationToolRef = useRef<HTMLDivElement | null>(null);
+  const featureFilterToolRef = useRef<HTMLDivElement | null>(null);
+  const preprocessToolRef = useRef<HTMLDivElement | null>(null);
+  const statsToolRef = useRef<HTMLDivElement | null>(null);
   const identificationToolRef = useRef<HTMLDivElement | null>(null);
   const explanationToolRef = useRef<HTMLDivElement | null>(null);
 
   useEffect(() => {
-    if (currentStep < PROCESSING_STEPS.length && stepRefs.current[currentStep]) {
+    if (currentStep < pipeline.length && stepRefs.current[currentStep]) {
       setTimeout(() => {
           stepRefs.current[currentStep]?.scrollIntoView({
             behavior: 'smooth',
@@ -147,20 +234,79 @@ const App: React.FC = () => {
     setToastMessage(message);
   };
 
-  const handleReset = () => {
+  const resetWorkspace = () => {
     setCurrentStep(0);
     setNetTable(null);
     setMergedData(null);
     setDataHistory([]);
     setAllUnmatched({});
+    setMassTolerance({ value: 5, unit: 'ppm' });
+    setRtWindow(0.1);
+    setAmbiguousMatches({});
+    setFeatureCandidates({});
+    setShowCandidatePanel(false);
+    setPendingMapping(null);
+    setIsMultiBatch(false);
+    setBatches([]);
+    setBatchAlignMode('id');
+    setBatchCorrection('qc');
+    setColumnBatches(null);
     setFilterToolData(null);
     setDataBeforeFilter(null);
     setContaminantList(null);
     setContaminantText('');
+    setContaminantMatchSettings(DEFAULT_CONTAMINANT_MATCH);
+    setSynonymGroups([]);
+    setDisabledContaminantEntries(new Set<string>());
+    setLibrarySettings(DEFAULT_LIBRARY_SETTINGS);
     setIsFiltered(false);
+    setMaxMsiLevel(null);
     setDereplicationData(null);
     setDataBeforeDereplication(null);
     setIsDereplicated(false);
+    setIonPolarity('positive');
+    setUseIonGroups(true);
+    setFeatureFilterData(null);
+    setFeatureFilterHistory([]);
+    setMinBlankFold(3);
+    setQualityFilterSettings(DEFAULT_QUALITY_FILTER);
+    setFragmentSettings(DEFAULT_FRAGMENT_SETTINGS);
+    setExcludeFragments(false);
+    setPreprocessData(null);
+    setPreprocessHistory([]);
+    setImputationSettings(DEFAULT_IMPUTATION);
+    setNormalizationMethod('pqn');
+    setInternalStandardText('');
+    setRunListOrder(null);
+    setDriftSpan(0.75);
+    setDriftContext(null);
+    setStatsData(null);
+    setStatsGroupA('');
+    setStatsGroupB('');
+    setStatsTest('welch');
+    setStatsLogTransform(true);
+    setStatsMaxFdr(0.05);
+    setStatsMinLog2Fc(1);
+    setStatsResults(null);
+    setSelectedStatsFeature(null);
+    setMultivariateSource('');
+    setMultivariateIncludeQc(true);
+    setMultivariateLogTransform(true);
+    setMultivariateScaling('pareto');
+    setPlsdaComponents(2);
+    setPlsdaPermutations(100);
+    setPcaResult(null);
+    setPlsdaResult(null);
+    setHeatmapSelection('pValue');
+    setHeatmapTopN(50);
+    setHeatmapIdsText('');
+    setHeatmapDistance('euclidean');
+    setHeatmapLinkage('average');
+    setHeatmapClusterRows(true);
+    setHeatmapClusterCols(true);
+    setHeatmapZScore(true);
+    setHeatmapResult(null);
+    setSampleMetadata(null);
     setMsmsData('');
     setPrecursorMz('');
     setIdentificationResult(null);
@@ -176,167 +322,532 @@ const App: React.FC = () => {
     setModalOpen(false);
     setUnmatchedItems([]);
     setModalTitle('');
+    setModalDescription(undefined);
     setResetModalOpen(false);
+    setOperationHistory({ entries: [], index: 0 });
+    setOperationLog([]);
+    setInputFiles(prev => prev.filter(record => record.tool !== '主流程'));
+    pendingNoteRef.current = null;
+    skipHistoryRef.current = true;
+  };
+
+  const handleReset = () => {
+    resetWorkspace();
+    setActiveProject(null);
+    lastSavedProjectRef.current = null;
+    newProjectIdRef.current = createProjectId();
     showToast('已重置所有步骤');
   };
 
-  const handleFileProcess = useCallback(async (file: File) => {
-    const stepConfig = PROCESSING_STEPS[currentStep];
-    if (!stepConfig) return;
+  // Every persisted field, read from and written back to the component state. Sets are kept as they are;
+  // IndexedDB clones them natively and the project file tags them.
+  const projectState: ProjectState = {
+    pipeline, inputFiles, currentStep, netTable, mergedData, dataHistory, allUnmatched, massTolerance, rtWindow, ambiguousMatches,
+    candidateTopN, featureCandidates, annotationRules, isMultiBatch, batches, batchAlignMode, batchCorrection,
+    columnBatches, sampleMetadata,
+    dereplicationData, dataBeforeDereplication, isDereplicated, ionPolarity, useIonGroups,
+    featureFilterData, featureFilterHistory, minBlankFold, qualityFilterSettings, fragmentSettings, excludeFragments,
+    preprocessData, preprocessHistory, imputationSettings, normalizationMethod, internalStandardText, runListOrder,
+    driftSpan,
+    statsData, statsGroupA, statsGroupB, statsTest, statsLogTransform, statsMaxFdr, statsMinLog2Fc, statsResults,
+    multivariateSource, multivariateIncludeQc, multivariateLogTransform, multivariateScaling, plsdaComponents,
+    plsdaPermutations,
+    heatmapSelection, heatmapTopN, heatmapIdsText, heatmapDistance, heatmapLinkage, heatmapClusterRows,
+    heatmapClusterCols, heatmapZScore,
+    filterToolData, dataBeforeFilter, contaminantList, contaminantText, contaminantMatchSettings, synonymGroups,
+    disabledContaminantEntries, librarySettings, isFiltered, maxMsiLevel,
+    identificationSource, apiUrl, msmsData, precursorMz, explanationMetabolites, operationLog,
+  };
+  const projectSetters: { [K in keyof ProjectState]: (value: ProjectState[K]) => void } = {
+    pipeline: setPipeline, inputFiles: setInputFiles, currentStep: setCurrentStep, netTable: setNetTable, mergedData: setMergedData,
+    dataHistory: setDataHistory, allUnmatched: setAllUnmatched, massTolerance: setMassTolerance,
+    rtWindow: setRtWindow, ambiguousMatches: setAmbiguousMatches, candidateTopN: setCandidateTopN,
+    featureCandidates: setFeatureCandidates, annotationRules: setAnnotationRules, isMultiBatch: setIsMultiBatch,
+    batches: setBatches, batchAlignMode: setBatchAlignMode, batchCorrection: setBatchCorrection,
+    columnBatches: setColumnBatches, sampleMetadata: setSampleMetadata,
+    dereplicationData: setDereplicationData, dataBeforeDereplication: setDataBeforeDereplication,
+    isDereplicated: setIsDereplicated, ionPolarity: setIonPolarity, useIonGroups: setUseIonGroups,
+    featureFilterData: setFeatureFilterData, featureFilterHistory: setFeatureFilterHistory,
+    minBlankFold: setMinBlankFold, qualityFilterSettings: setQualityFilterSettings,
+    fragmentSettings: setFragmentSettings, excludeFragments: setExcludeFragments,
+    preprocessData: setPreprocessData, preprocessHistory: setPreprocessHistory,
+    imputationSettings: setImputationSettings, normalizationMethod: setNormalizationMethod,
+    internalStandardText: setInternalStandardText, runListOrder: setRunListOrder, driftSpan: setDriftSpan,
+    statsData: setStatsData, statsGroupA: setStatsGroupA, statsGroupB: setStatsGroupB, statsTest: setStatsTest,
+    statsLogTransform: setStatsLogTransform, statsMaxFdr: setStatsMaxFdr, statsMinLog2Fc: setStatsMinLog2Fc,
+    statsResults: setStatsResults,
+    multivariateSource: setMultivariateSource, multivariateIncludeQc: setMultivariateIncludeQc,
+    multivariateLogTransform: setMultivariateLogTransform, multivariateScaling: setMultivariateScaling,
+    plsdaComponents: setPlsdaComponents, plsdaPermutations: setPlsdaPermutations,
+    heatmapSelection: setHeatmapSelection, heatmapTopN: setHeatmapTopN, heatmapIdsText: setHeatmapIdsText,
+    heatmapDistance: setHeatmapDistance, heatmapLinkage: setHeatmapLinkage, heatmapClusterRows: setHeatmapClusterRows,
+    heatmapClusterCols: setHeatmapClusterCols, heatmapZScore: setHeatmapZScore,
+    filterToolData: setFilterToolData, dataBeforeFilter: setDataBeforeFilter, contaminantList: setContaminantList,
+    contaminantText: setContaminantText, contaminantMatchSettings: setContaminantMatchSettings,
+    synonymGroups: setSynonymGroups, disabledContaminantEntries: setDisabledContaminantEntries,
+    librarySettings: setLibrarySettings, isFiltered: setIsFiltered, maxMsiLevel: setMaxMsiLevel,
+    identificationSource: setIdentificationSource, apiUrl: setApiUrl, msmsData: setMsmsData,
+    precursorMz: setPrecursorMz, explanationMetabolites: setExplanationMetabolites, operationLog: setOperationLog,
+  };
+
+  // Handlers describe what they are about to change; the history effect below attaches the description to the
+  // change it observes. Changes made without a description are still recorded under the tool they touched.
+  const noteOperation = (tool: string, action: string, params?: OperationParams) => {
+    pendingNoteRef.current = { tool, action, params };
+  };
+
+  useEffect(() => {
+    const current = takeSnapshot(projectState);
+    const previous = lastSnapshotRef.current;
+    lastSnapshotRef.current = current;
+    if (!previous || skipHistoryRef.current) {
+      skipHistoryRef.current = false;
+      pendingNoteRef.current = null;
+      return;
+    }
+    const keys = changedKeys(previous, current);
+    if (keys.length === 0) return;
+    const note = pendingNoteRef.current ?? defaultNote(previous, current, keys);
+    pendingNoteRef.current = null;
+    const changes = describeChanges(previous, current);
+    setOperationHistory(prev => ({ entries: [...prev.entries.slice(0, prev.index), { note, before: previous, after: current, changes }], index: prev.index + 1 }));
+    setOperationLog(prev => [...prev, createLogEntry('operation', note, changes)]);
+  });
+
+  const applySnapshot = (snapshot: HistorySnapshot) => {
+    skipHistoryRef.current = true;
+    (Object.keys(snapshot) as (keyof ProjectState)[]).forEach(key => (projectSetters[key] as (value: unknown) => void)(snapshot[key]));
+    // Chart results may describe data that no longer exists.
+    setPcaResult(null);
+    setPlsdaResult(null);
+    setHeatmapResult(null);
+    setDriftContext(null);
+    setSelectedStatsFeature(null);
+  };
+
+  const handleUndo = () => {
+    const entry = operationHistory.entries[operationHistory.index - 1];
+    if (!entry) return;
+    applySnapshot(entry.before);
+    setOperationHistory(prev => ({ ...prev, index: prev.index - 1 }));
+    setOperationLog(prev => [...prev, createLogEntry('undo', entry.note, describeChanges(entry.after, entry.before))]);
+    showToast(`已撤销: ${entry.note.tool} - ${entry.note.action}`);
+  };
 
+  const handleRedo = () => {
+    const entry = operationHistory.entries[operationHistory.index];
+    if (!entry) return;
+    applySnapshot(entry.after);
+    setOperationHistory(prev => ({ ...prev, index: prev.index + 1 }));
+    setOperationLog(prev => [...prev, createLogEntry('redo', entry.note, entry.changes)]);
+    showToast(`已重做: ${entry.note.tool} - ${entry.note.action}`);
+  };
+
+  const undoEntry = operationHistory.entries[operationHistory.index - 1];
+  const redoEntry = operationHistory.entries[operationHistory.index];
+
+  // Result downloads carry the operation log as an extra sheet so the file documents how it was produced.
+  const exportResult = (data: TableData, fileName: string, extraSheets: Record<string, TableData> = {}) => {
+    exportFile(data, fileName, operationLog.length > 0 ? { ...extraSheets, '操作日志': buildLogTable(operationLog) } : extraSheets);
+  };
+
+  const handleDownloadOperationLog = () => {
+    exportFile(buildLogTable(operationLog), 'operation_log');
+  };
+
+  // Every upload goes through here so the processing report can list the files the results came from.
+  const parseInput = async (file: File, tool: string, purpose: string): Promise<TableData> => {
+    const data = await parseFile(file);
+    setInputFiles(prev => [...prev, {
+      tool, purpose, name: file.name, size: file.size, rows: data.rows.length, columns: data.headers.length, loadedAt: new Date().toISOString(),
+    }]);
+    return data;
+  };
+
+  const handleDownloadReport = (format: 'html' | 'pdf') => {
+    const name = activeProject?.name.trim() || defaultProjectName();
+    const html = buildProcessingReport(projectState, name);
+    if (format === 'html') {
+      exportHtmlFile(html, `${name.replace(/[\\/:*?"<>|\s]+/g, '_')}_report`);
+    } else {
+      printHtml(html);
+      showToast('请在打印对话框中选择“另存为 PDF”。');
+    }
+  };
+
+  const refreshProjectList = useCallback(async () => {
+    try {
+      setProjectList(await listProjects());
+    } catch (err: any) {
+      setError(err.message || '读取项目列表失败。');
+    }
+  }, []);
+
+  // Offer the saved projects on start-up so a refreshed tab can pick up where it stopped.
+  useEffect(() => {
+    listProjects()
+      .then(projects => {
+        setProjectList(projects);
+        if (projects.length > 0) setProjectManagerOpen(true);
+      })
+      .catch(() => { /* IndexedDB unavailable: the app still works, just without projects. */ });
+  }, []);
+
+  // Autosave: runs after every render, but only schedules a write when a persisted field or the project name has
+  // changed since the last save. Further changes within the delay restart the timer.
+  useEffect(() => {
+    if (!hasProjectData(projectState) || (activeProject && !activeProject.name.trim())) return;
+    const name = activeProject?.name.trim() ?? defaultProjectName();
+    const previous = lastSavedProjectRef.current;
+    const keys = Object.keys(projectState) as (keyof ProjectState)[];
+    if (previous && previous.name === name && keys.every(key => previous.state[key] === projectState[key])) return;
+    const state = projectState;
+    const timer = setTimeout(async () => {
+      const id = activeProject?.id ?? newProjectIdRef.current;
+      const savedAt = new Date().toISOString();
+      try {
+        await saveProject({ id, name, savedAt, description: describeProject(state), state });
+        lastSavedProjectRef.current = { state, name };
+        setActiveProject({ id, name, savedAt });
+      } catch (err: any) {
+        setError(`自动保存项目失败: ${err.message || err}`);
+      }
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  });
+
+  const applyProjectState = (state: Partial<ProjectState>) => {
+    resetWorkspace();
+    // Projects saved before uploads were recorded have no file list.
+    setInputFiles([]);
+    (Object.keys(projectSetters) as (keyof ProjectState)[]).forEach(key => {
+      if (state[key] !== undefined) (projectSetters[key] as (value: unknown) => void)(state[key]);
+    });
+  };
+
+  const handleOpenProject = async (id: string) => {
     setIsLoading(true);
     setError(null);
+    try {
+      const project = await loadProject(id);
+      applyProjectState(project.state);
+      lastSavedProjectRef.current = { state: { ...projectState, ...project.state }, name: project.name };
+      setActiveProject({ id: project.id, name: project.name, savedAt: project.savedAt });
+      setProjectManagerOpen(false);
+      showToast(`已打开项目 “${project.name}”。`);
+    } catch (err: any) {
+      setError(err.message || '打开项目失败。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
+  const handleDeleteProject = async (id: string) => {
     try {
-      const data = await parseFile(file);
-      
-      if (currentStep === 0) { // New Mzmine parsing step
-        const { headers, rows } = data;
-        let processedData: TableData;
-
-        if (headers.includes('ID') && headers.includes('MZ') && headers.includes('RT')) {
-            showToast('文件已包含所需列。');
-            processedData = data;
-        } else if (headers.includes('Filename')) {
-            const newRows = rows.map(row => {
-                const filename = String(row['Filename'] || '');
-                const parts = filename.split('/');
-                if (parts.length >= 3) {
-                    const id = parts[0].trim();
-                    const mz = parts[1].replace(/mz/i, '').trim();
-                    const rt = parts[2].replace(/min/i, '').trim();
-                    return { ...row, ID: id, MZ: mz, RT: rt };
-                }
-                return { ...row, ID: null, MZ: null, RT: null };
-            });
+      await deleteProject(id);
+      await refreshProjectList();
+    } catch (err: any) {
+      setError(err.message || '删除项目失败。');
+    }
+  };
 
-            const originalHeaders = [...headers];
-            const newHeaders = ['ID', 'MZ', 'RT'].filter(h => !originalHeaders.includes(h));
-            const filenameIndex = originalHeaders.indexOf('Filename');
-            if (filenameIndex !== -1) {
-                originalHeaders.splice(filenameIndex + 1, 0, ...newHeaders);
-            } else {
-                originalHeaders.unshift(...newHeaders);
-            }
-            
-            const finalHeaders = [...new Set(originalHeaders)];
-            processedData = { headers: finalHeaders, rows: newRows };
-            showToast('成功从 Filename 列生成 ID, MZ, RT。');
-        } else {
-            throw new Error(`文件必须包含 'ID', 'MZ', 'RT' 列，或者包含 'Filename' 列以供解析。`);
-        }
-        
-        const finalCheckCols = ['ID', 'MZ'];
-        const missingColsCheck = finalCheckCols.filter(col => !processedData.headers.includes(col));
-        if (missingColsCheck.length > 0) {
-            throw new Error(`处理后，文件仍缺少必需的列: ${missingColsCheck.join(', ')}`);
-        }
-        
-        setNetTable(processedData);
-        setMergedData(processedData);
-        setDataHistory([processedData]);
-        setCurrentStep(1);
+  // An imported file always becomes a new project, so it never overwrites the colleague's or one's own copy.
+  const handleImportProject = async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { name, state } = parseProjectFile(await readTextFile(file));
+      const id = createProjectId();
+      const savedAt = new Date().toISOString();
+      const fullState = { ...projectState, ...state };
+      applyProjectState(state);
+      await saveProject({ id, name, savedAt, description: describeProject(fullState), state: fullState });
+      lastSavedProjectRef.current = { state: fullState, name };
+      setActiveProject({ id, name, savedAt });
+      setProjectManagerOpen(false);
+      await refreshProjectList();
+      showToast(`已导入项目 “${name}”。`);
+    } catch (err: any) {
+      setError(err.message || '导入项目文件失败。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      } else { // Handle matching steps (2, 3, 4)
-        if (!mergedData || !netTable) {
-          throw new Error('基础数据丢失，请重新开始。');
-        }
+  const handleExportProject = () => {
+    exportProjectFile({
+      id: activeProject?.id ?? newProjectIdRef.current,
+      name: activeProject?.name.trim() || defaultProjectName(),
+      savedAt: new Date().toISOString(),
+      description: describeProject(projectState),
+      state: projectState,
+    });
+  };
 
-        const missingCols = stepConfig.requiredColumns.filter(col => !data.headers.includes(col));
-        if (missingCols.length > 0) {
-          throw new Error(`文件缺少必需的列: ${missingCols.join(', ')}`);
-        }
+  const handleShowProjects = () => {
+    refreshProjectList();
+    setProjectManagerOpen(true);
+  };
 
-        let newMergedRows: TableRow[] = [];
-        let newHeaders = [...mergedData.headers];
-        let foundUnmatched: (string | number)[] = [];
-        
-        const appendCols = stepConfig.appendColumns.filter(col => !newHeaders.includes(col));
-        newHeaders.push(...appendCols);
-
-        if (stepConfig.matchColumn === 'ID') {
-           const matchMap = new Map(
-             data.rows
-              .filter(row => row.ID != null && String(row.ID).trim() !== '')
-              .map(row => [String(row.ID).trim(), row])
-           );
-
-           newMergedRows = mergedData.rows.map((baseRow) => {
-               const baseId = baseRow.ID;
-               if (baseId == null || String(baseId).trim() === '') {
-                   return baseRow;
-               }
+  const handleNewProject = () => {
+    handleReset();
+    setProjectManagerOpen(false);
+  };
 
-               const match = matchMap.get(String(baseId).trim());
-               if (match) {
-                   const newRowData: TableRow = {};
-                   stepConfig.appendColumns.forEach(col => newRowData[col] = match[col] ?? null);
-                   return { ...baseRow, ...newRowData };
-               }
+  const handleRenameProject = (name: string) => {
+    setActiveProject(prev => ({ id: prev?.id ?? newProjectIdRef.current, name, savedAt: prev?.savedAt ?? null }));
+  };
+
+  const handleSavePipeline = (steps: ProcessingStep[]) => {
+    savePipeline(steps);
+    setPipeline(steps);
+    setAllUnmatched({});
+    setAmbiguousMatches({});
+    setFeatureCandidates({});
+    setIsEditingPipeline(false);
+    showToast('流程配置已保存。');
+  };
+
+  const mergeStepData = useCallback((data: TableData) => {
+    const stepConfig = pipeline[currentStep];
+    if (!mergedData || !netTable) {
+      throw new Error('基础数据丢失，请重新开始。');
+    }
+
+    const missingCols = stepConfig.requiredColumns.filter(col => !data.headers.includes(col));
+    if (missingCols.length > 0) {
+      throw new Error(`文件缺少必需的列: ${missingCols.join(', ')}`);
+    }
+
+    let newMergedRows: TableRow[] = [];
+    let newHeaders = [...mergedData.headers];
+    let foundUnmatched: (string | number)[] = [];
+    
+    const appendCols = stepConfig.appendColumns.filter(col => !newHeaders.includes(col));
+    newHeaders.push(...appendCols);
+
+    if (stepConfig.matchMode === 'id') {
+       const matchKey = stepConfig.matchColumn;
+       const baseKey = stepConfig.matchColumnBase || 'ID';
+       const rankKey = stepConfig.rankColumn;
+       const matchMap = groupRowsByKey(data.rows, matchKey);
+       if (rankKey) {
+           matchMap.forEach((group, key) => matchMap.set(key, rankRows(group, rankKey)));
+       }
+
+       const withCandidates = keepsCandidates(stepConfig);
+       const source = getCandidatePrefix(stepConfig);
+       const candidateCols = withCandidates ? candidateColumns(source, candidateTopN) : [];
+       const candidateHits: Record<string, CandidateHit[]> = {};
+       newHeaders.push(...candidateCols.filter(col => !newHeaders.includes(col)));
+
+       newMergedRows = mergedData.rows.map((baseRow) => {
+           const baseId = baseRow[baseKey];
+           if (baseId == null || String(baseId).trim() === '') {
                return baseRow;
-           });
+           }
 
-            const baseIdSet = new Set(netTable.rows.map(row => String(row.ID).trim()).filter(id => id && id !== ''));
-            const uploadedIds = data.rows.map(row => row.ID).filter(id => id != null && String(id).trim() !== '');
-            const uniqueUploadedIds = [...new Set(uploadedIds.map(id => String(id).trim()))];
-            
-            foundUnmatched = uniqueUploadedIds.filter(id => !baseIdSet.has(id));
+           const group = matchMap.get(String(baseId).trim());
+           if (group && group.length > 0) {
+               const match = rankKey ? group[0] : group[group.length - 1];
+               const newRowData: TableRow = {};
+               stepConfig.appendColumns.forEach(col => newRowData[col] = match[col] ?? null);
+               if (withCandidates) {
+                   const hits = buildCandidateHits(group, stepConfig, source);
+                   candidateHits[String(baseId).trim()] = hits;
+                   candidateCols.forEach((col, i) => newRowData[col] = hits[i] ? formatCandidate(hits[i]) : null);
+               }
+               return { ...baseRow, ...newRowData };
+           }
+           return baseRow;
+       });
+
+       if (withCandidates) {
+           setFeatureCandidates(prev => ({ ...prev, [source]: { featureColumn: baseKey, hits: candidateHits } }));
+       }
+
+        const baseIdSet = new Set(netTable.rows.map(row => String(row[baseKey]).trim()).filter(id => id && id !== ''));
+        const uploadedIds = data.rows.map(row => row[matchKey]).filter(id => id != null && String(id).trim() !== '');
+        const uniqueUploadedIds = [...new Set(uploadedIds.map(id => String(id).trim()))];
+        
+        foundUnmatched = uniqueUploadedIds.filter(id => !baseIdSet.has(id));
+
+    } else if ((stepConfig.matchMode === 'mz' || stepConfig.matchMode === 'mzRt') && stepConfig.matchColumnBase) {
+        const useRt = stepConfig.matchMode === 'mzRt';
+        const baseMzKey = stepConfig.matchColumnBase;
+        const baseRtKey = stepConfig.rtColumnBase;
+        if (useRt && (!stepConfig.rtColumn || !baseRtKey || !netTable.headers.includes(baseRtKey))) {
+            throw new Error(`基础数据缺少 '${baseRtKey || 'RT'}' 列，无法按 m/z + RT 匹配。`);
+        }
+
+        const candidates = buildMassCandidates(data.rows, stepConfig.matchColumn, useRt ? stepConfig.rtColumn : undefined);
+        const matchedRows = new Set<TableRow>();
+        const ambiguous: string[] = [];
 
-        } else if (stepConfig.matchColumn === 'ionMass' && stepConfig.matchColumnBase) {
-            const matchMap = new Map(data.rows.filter(row => row.ionMass != null && !isNaN(Number(row.ionMass))).map(row => [Number(row.ionMass).toFixed(3), row]));
-            const baseMzKey = stepConfig.matchColumnBase;
+        const errorHeaders = useRt ? ['Match_ppm_error', 'Match_RT_error'] : ['Match_ppm_error'];
+        newHeaders.push(...errorHeaders.filter(h => !newHeaders.includes(h)));
+
+        newMergedRows = mergedData.rows.map((baseRow, index) => {
+            const originalNetTableRow = netTable.rows[index];
+            const mzToMatch = toNumber(originalNetTableRow?.[baseMzKey]);
+            const rtToMatch = useRt ? toNumber(originalNetTableRow?.[baseRtKey!]) : null;
             
-            newMergedRows = mergedData.rows.map((baseRow, index) => {
-                const originalNetTableRow = netTable.rows[index];
-                const mzToMatch = originalNetTableRow?.[baseMzKey];
-                
-                if (mzToMatch === null || mzToMatch === undefined || String(mzToMatch).trim() === '' || isNaN(Number(mzToMatch))) {
-                    return baseRow;
-                }
-                
-                const mzValue = Number(mzToMatch).toFixed(3);
-                const match = matchMap.get(mzValue);
+            if (mzToMatch === null || (useRt && rtToMatch === null)) {
+                return baseRow;
+            }
+            
+            const { match, ppmError, rtError, candidateCount } = useRt
+                ? findClosestMzRtMatch(candidates, mzToMatch, rtToMatch!, massTolerance, rtWindow)
+                : findClosestMassMatch(candidates, mzToMatch, massTolerance);
+            if (candidateCount > 1) {
+                ambiguous.push(`ID: ${baseRow.ID ?? index + 1}, MZ: ${mzToMatch}${useRt ? `, RT: ${rtToMatch}` : ''} - ${candidateCount} 个候选`);
+            }
 
-                if (match) {
-                    const newRowData: TableRow = {};
-                    stepConfig.appendColumns.forEach(col => newRowData[col] = match[col] ?? null);
-                    return { ...baseRow, ...newRowData };
+            if (match) {
+                matchedRows.add(match);
+                const newRowData: TableRow = {};
+                stepConfig.appendColumns.forEach(col => newRowData[col] = match[col] ?? null);
+                newRowData['Match_ppm_error'] = ppmError !== null ? Number(ppmError.toFixed(2)) : null;
+                if (useRt) {
+                    newRowData['Match_RT_error'] = rtError != null ? Number(rtError.toFixed(3)) : null;
                 }
-                return baseRow;
-            });
+                return { ...baseRow, ...newRowData };
+            }
+            return baseRow;
+        });
 
-            const baseMzSet = new Set(netTable.rows.map(row => {
-                const mz = row[baseMzKey];
-                return (mz != null && !isNaN(Number(mz))) ? Number(mz).toFixed(3) : null;
-            }).filter(mz => mz !== null));
-            
-            foundUnmatched = data.rows
-                .map(row => row.ionMass)
-                .filter(mass => mass != null && !isNaN(Number(mass)) && !baseMzSet.has(Number(mass).toFixed(3)));
-        }
+        setAmbiguousMatches(prev => ({ ...prev, [currentStep]: ambiguous }));
+        
+        foundUnmatched = candidates
+            .filter(c => !matchedRows.has(c.row))
+            .map(c => useRt ? `${c.mz} @ ${c.rt} min` : c.row[stepConfig.matchColumn] as string | number);
+    }
 
-        const finalMergedData: TableData = { headers: newHeaders, rows: newMergedRows };
-        setMergedData(finalMergedData);
-        setDataHistory(prev => [...prev.slice(0, currentStep), finalMergedData]);
-        showToast(`${stepConfig.name} 匹配成功!`);
-        if (foundUnmatched.length > 0) {
-            setAllUnmatched(prev => ({ ...prev, [currentStep]: foundUnmatched as (string|number)[] }));
-            setUnmatchedItems(foundUnmatched as (string|number)[]);
-            setModalTitle(`在 ${stepConfig.name} 步骤中的不匹配项`);
-            setModalOpen(true);
+    const finalMergedData: TableData = { headers: newHeaders, rows: newMergedRows };
+    noteOperation('主流程', stepConfig.name, {
+        '匹配列': stepConfig.matchColumn,
+        '容差': stepConfig.matchMode === 'mz' || stepConfig.matchMode === 'mzRt' ? `${massTolerance.value} ${massTolerance.unit}` : null,
+        'RT窗口': stepConfig.matchMode === 'mzRt' ? rtWindow : null,
+        '未匹配': foundUnmatched.length,
+    });
+    setMergedData(finalMergedData);
+    setDataHistory(prev => [...prev.slice(0, currentStep), finalMergedData]);
+    showToast(`${stepConfig.name} 匹配成功!`);
+    if (foundUnmatched.length > 0) {
+        setAllUnmatched(prev => ({ ...prev, [currentStep]: foundUnmatched as (string|number)[] }));
+        setUnmatchedItems(foundUnmatched as (string|number)[]);
+        setModalTitle(`在 ${stepConfig.name} 步骤中的不匹配项`);
+        setModalDescription(undefined);
+        setModalOpen(true);
+    }
+
+    if (currentStep < pipeline.length - 1) {
+        setCurrentStep(currentStep + 1);
+    }
+  }, [pipeline, currentStep, mergedData, netTable, massTolerance, rtWindow, candidateTopN]);
+
+  const handleFileProcess = useCallback(async (file: File) => {
+    const stepConfig = pipeline[currentStep];
+    if (!stepConfig) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const data = await parseInput(file, '主流程', stepConfig.name);
+      
+      if (currentStep === 0) { // New Mzmine parsing step
+        const { data: processedData, parsedFilename } = prepareNetTable(data);
+
+        if (isMultiBatch) {
+            const { sampleCols, qcCols, blankCols } = classifySampleColumns(processedData.headers, sampleMetadata);
+            const intensityCols = [...sampleCols, ...qcCols, ...blankCols];
+            if (intensityCols.length === 0) throw new Error(`在 ${file.name} 中未找到样本、QC 或空白列。`);
+            const name = `B${batches.length + 1}`;
+            noteOperation('主流程', `添加批次 ${name}`, { '文件': file.name });
+            setBatches(prev => [...prev, { name, fileName: file.name, data: processedData, intensityCols, qcCols }]);
+            showToast(`已添加批次 ${name} (${processedData.rows.length} 个特征)。`);
+            return;
         }
 
-        if (currentStep < PROCESSING_STEPS.length - 1) {
-            setCurrentStep(currentStep + 1);
+        showToast(parsedFilename ? '成功从 Filename 列生成 ID, MZ, RT。' : '文件已包含所需列。');
+        noteOperation('主流程', stepConfig.name, { '文件': file.name });
+        setNetTable(processedData);
+        setMergedData(processedData);
+        setDataHistory([processedData]);
+        setColumnBatches(null);
+        setCurrentStep(1);
+
+      } else { // Handle matching steps
+        const savedMapping = loadColumnMapping(getMappingKey(stepConfig));
+        if (needsColumnMapping(stepConfig, data.headers, savedMapping)) {
+            setPendingMapping({
+                data,
+                fileName: file.name,
+                initialMapping: buildInitialMapping(stepConfig, data.headers, savedMapping),
+            });
+            return;
         }
+        mergeStepData(applyColumnMapping(data, savedMapping));
       }
     } catch (err: any) {
       setError(err.message || '处理文件时发生未知错误。');
     } finally {
       setIsLoading(false);
     }
-  }, [currentStep, mergedData, netTable]);
+  }, [pipeline, currentStep, mergeStepData, isMultiBatch, batches, sampleMetadata]);
+
+  const handleMergeBatches = () => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const merged = mergeBatches(batches, { alignBy: batchAlignMode, tolerance: massTolerance, rtWindow });
+      const { data, skippedFeatures } = correctBatchEffects(merged, batchCorrection);
+      noteOperation('主流程', '合并批次', { '批次数': batches.length, '对齐方式': batchAlignMode, '批次校正': BATCH_CORRECTION_LABELS[batchCorrection], '重命名ID': Object.values(merged.renamedIds).reduce((a, b) => a + b, 0) });
+      setNetTable(data);
+      setMergedData(data);
+      setDataHistory([data]);
+      setColumnBatches(merged.columnBatches);
+      if (sampleMetadata) setSampleMetadata(assignBatchMetadata(sampleMetadata, batches, merged.columnBatches));
+      setCurrentStep(1);
+      const added = Object.entries(merged.newFeatures).map(([name, count]) => `${name} 新增 ${count}`).join('，');
+      const skippedNote = skippedFeatures > 0 ? `，${skippedFeatures} 个特征因缺少锚点值未完全校正` : '';
+      const renamed = Object.entries(merged.renamedIds).map(([name, count]) => `${name} ${count} 个`).join('，');
+      const renamedNote = renamed ? `；新增特征中有 ID 与已有特征重复，已加批次后缀 (${renamed})` : '';
+      showToast(`已合并 ${batches.length} 个批次，共 ${data.rows.length} 个特征 (${added})${skippedNote}${renamedNote}。`);
+    } catch (err: any) {
+      setError(err.message || '合并批次时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleConfirmMapping = (mapping: ColumnMapping) => {
+    const stepConfig = pipeline[currentStep];
+    if (!pendingMapping || !stepConfig) return;
+    const { data } = pendingMapping;
+    setPendingMapping(null);
+    setIsLoading(true);
+    setError(null);
+    try {
+      saveColumnMapping(getMappingKey(stepConfig), mapping);
+      mergeStepData(applyColumnMapping(data, mapping));
+    } catch (err: any) {
+      setError(err.message || '处理文件时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
   
+  const handleSkipStep = () => {
+    const stepConfig = pipeline[currentStep];
+    if (!stepConfig?.optional || !mergedData) return;
+    noteOperation('主流程', `跳过${stepConfig.name}`);
+    setDataHistory(prev => [...prev.slice(0, currentStep), mergedData]);
+    setCurrentStep(currentStep + 1);
+    showToast(`已跳过 ${stepConfig.name}。`);
+  };
+
   const handleGenerateAnnotation = useCallback(() => {
     if (!mergedData) {
       setError('没有可用于注释的数据。');
@@ -355,16 +866,17 @@ const App: React.FC = () => {
 
     try {
         const newHeaders = [...mergedData.headers];
-        if (!newHeaders.includes('Final_Annotation')) {
-            newHeaders.push('Final_Annotation');
-        }
+        ['Final_Annotation', 'Annotation_Source', 'Annotation_Reason', 'MSI_Level'].forEach(col => {
+            if (!newHeaders.includes(col)) newHeaders.push(col);
+        });
 
         const newRows = mergedData.rows.map(row => {
-            const annotation = determineFinalAnnotation(row);
-            return { ...row, Final_Annotation: annotation };
+            const { annotation, source, reason } = determineFinalAnnotation(row, annotationRules);
+            return { ...row, Final_Annotation: annotation, Annotation_Source: source, Annotation_Reason: reason, MSI_Level: classifyMsiLevel(row, annotationRules) };
         });
         
         const finalData = { headers: newHeaders, rows: newRows };
+        noteOperation('主流程', '生成最终注释');
         setMergedData(finalData);
         setDataHistory(prev => [...prev.slice(0, currentStep), finalData]);
         setCurrentStep(currentStep + 1);
@@ -374,13 +886,34 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [mergedData, currentStep]);
+  }, [mergedData, currentStep, annotationRules]);
+
+  const handlePromoteCandidate = (featureId: string, hit: CandidateHit) => {
+    const featureColumn = featureCandidates[hit.source]?.featureColumn;
+    if (!mergedData || !featureColumn) return;
+    const newRows = mergedData.rows.map(row => {
+        if (String(row[featureColumn] ?? '').trim() !== featureId) return row;
+        const updated = { ...row, ...hit.values };
+        return {
+            ...updated,
+            Final_Annotation: hit.name,
+            Annotation_Source: hit.source,
+            Annotation_Reason: `人工选择 ${hit.source} 第 ${hit.rank} 候选`,
+            MSI_Level: classifyMsiLevel(updated, annotationRules),
+        };
+    });
+    const finalData = { ...mergedData, rows: newRows };
+    noteOperation('主流程', '人工选择候选注释', { '特征': featureId, '候选': hit.name, '来源': hit.source, '排名': hit.rank });
+    setMergedData(finalData);
+    setDataHistory(prev => [...prev.slice(0, -1), finalData]);
+    showToast(`已将 ${hit.name} 设为特征 ${featureId} 的最终注释。`);
+  };
 
   const handleStepDownload = (stepIndex: number) => {
     const data = dataHistory[stepIndex];
-    const stepName = PROCESSING_STEPS[stepIndex].name.replace(/\s+/g, '_');
+    const stepName = pipeline[stepIndex].name.replace(/\s+/g, '_');
     if (data) {
-        exportFile(data, `step_${stepIndex + 1}_${stepName}_result`);
+        exportResult(data, `step_${stepIndex + 1}_${stepName}_result`, columnBatches ? { '批次信息': buildBatchSheet(columnBatches) } : {});
     }
   };
 
@@ -398,7 +931,7 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await parseFile(file);
+      const data = await parseInput(file, '污染物过滤', '待过滤数据');
       if (!data.headers.includes('Final_Annotation')) {
         throw new Error("上传的文件必须包含 'Final_Annotation' 列。");
       }
@@ -417,13 +950,14 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-        const data = await parseFile(file);
+        const data = await parseInput(file, '污染物过滤', '污染物列表');
         if (!data.headers.includes('name')) {
             throw new Error("过滤列表文件必须包含 'name' 列。");
         }
         const names = new Set(data.rows.map(row => String(row['name']).trim()).filter(name => name));
         setContaminantList(names);
         setContaminantText('');
+        setDisabledContaminantEntries(new Set<string>());
         showToast(`已通过文件加载 ${names.size} 个唯一的过滤项。`);
     } catch (err: any) {
         setError(err.message || '处理过滤列表文件时出错。');
@@ -439,34 +973,93 @@ const App: React.FC = () => {
     }
     const names = new Set(contaminantText.split('\n').map(name => name.trim()).filter(name => name));
     setContaminantList(names);
+    setDisabledContaminantEntries(new Set<string>());
     showToast(`已通过粘贴加载 ${names.size} 个唯一的过滤项。`);
   };
 
+  const handleSynonymFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+        const groups = parseSynonymTable(await parseInput(file, '污染物过滤', '同义词表'));
+        setSynonymGroups(groups);
+        showToast(`已加载 ${groups.length} 组同义词。`);
+    } catch (err: any) {
+        setError(err.message || '处理同义词表时出错。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, []);
+
+  const toggleContaminantEntry = (entry: string) => {
+    setDisabledContaminantEntries(prev => {
+      const next = new Set<string>(prev);
+      if (next.has(entry)) next.delete(entry);
+      else next.add(entry);
+      return next;
+    });
+  };
+
+  // Recomputed whenever the data, list, synonyms or match options change, so the preview always shows exactly
+  // what "应用过滤列表" would remove.
+  const canMatchLibrary = !!filterToolData && filterToolData.headers.includes('MZ');
+
+  const libraryHits = useMemo(() => {
+    if (!filterToolData || !canMatchLibrary || !librarySettings.enabled || isFiltered) return null;
+    return matchContaminantLibrary(filterToolData.rows, librarySettings);
+  }, [filterToolData, canMatchLibrary, librarySettings, isFiltered]);
+
+  const contaminantPreview = useMemo(() => {
+    const hasList = !!contaminantList && contaminantList.size > 0;
+    if (!filterToolData || (!hasList && !libraryHits) || isFiltered) return null;
+    return [
+      ...(hasList ? matchContaminants(filterToolData.rows, [...contaminantList!], contaminantMatchSettings, synonymGroups) : []),
+      ...(libraryHits ? summarizeLibraryHits(libraryHits) : []),
+    ];
+  }, [filterToolData, contaminantList, contaminantMatchSettings, synonymGroups, libraryHits, isFiltered]);
+
+  const contaminantRowsToRemove = useMemo(() => {
+    const indices = new Set<number>();
+    contaminantPreview?.forEach(match => {
+      if (!disabledContaminantEntries.has(match.entry)) match.rowIndices.forEach(index => indices.add(index));
+    });
+    return indices;
+  }, [contaminantPreview, disabledContaminantEntries]);
+
   const handleApplyFilter = useCallback(() => {
     if (!filterToolData) {
       setError('没有可用于过滤的数据。');
       return;
     }
-    if (!contaminantList || contaminantList.size === 0) {
-      setError('请先上传或粘贴一个有效的过滤列表。');
+    const hasContaminants = (!!contaminantList && contaminantList.size > 0) || !!libraryHits;
+    if (!hasContaminants && maxMsiLevel === null) {
+      setError('请先上传或粘贴一个有效的过滤列表、启用内置污染物质量库，或选择 MSI 等级上限。');
+      return;
+    }
+    if (maxMsiLevel !== null && !filterToolData.headers.includes('MSI_Level')) {
+      setError("数据缺少 'MSI_Level' 列，无法按 MSI 等级过滤。请先在流程中生成最终注释。");
       return;
     }
     setError(null);
     setIsLoading(true);
 
     try {
+        noteOperation('污染物过滤', '应用过滤列表', {
+            '过滤项': contaminantPreview ? contaminantPreview.filter(match => !disabledContaminantEntries.has(match.entry)).length : 0,
+            '忽略大小写': contaminantMatchSettings.caseInsensitive,
+            '正则/通配符': contaminantMatchSettings.patterns,
+            'InChIKey': contaminantMatchSettings.inchiKey,
+            '质量库': libraryHits ? `${librarySettings.ppm} ppm, ${ION_POLARITY_LABELS[librarySettings.polarity]}` : null,
+            'MSI上限': maxMsiLevel,
+        });
         setDataBeforeFilter(filterToolData); // Save current state for undo
         const initialRowCount = filterToolData.rows.length;
-        const filteredRows = filterToolData.rows.filter(row => {
-            const annotationValue = row['Final_Annotation'];
-            if (annotationValue === null || annotationValue === undefined) {
-                return true; 
+        const filteredRows = filterToolData.rows.filter((row, index) => {
+            if (maxMsiLevel !== null) {
+                const level = Number(row['MSI_Level']);
+                if (!isNaN(level) && level > maxMsiLevel) return false;
             }
-            const annotation = String(annotationValue).trim();
-            if (annotation === '') {
-                return true;
-            }
-            return !contaminantList.has(annotation);
+            return !contaminantRowsToRemove.has(index);
         });
         const removedCount = initialRowCount - filteredRows.length;
 
@@ -478,10 +1071,25 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [filterToolData, contaminantList]);
+  }, [filterToolData, contaminantList, libraryHits, contaminantRowsToRemove, maxMsiLevel, contaminantPreview, disabledContaminantEntries, contaminantMatchSettings, librarySettings]);
+
+  const handleFlagLibraryContaminants = () => {
+    if (!filterToolData || !libraryHits) return;
+    noteOperation('污染物过滤', '标记质量库匹配', { 'ppm': librarySettings.ppm, '离子模式': ION_POLARITY_LABELS[librarySettings.polarity] });
+    setFilterToolData(flagLibraryContaminants(filterToolData, libraryHits));
+    showToast(`已在 '${LIBRARY_COLUMN}' 列中标记 ${libraryHits.size} 个疑似污染物特征。`);
+  };
+
+  const toggleLibraryCategory = (category: ContaminantCategory) => {
+    setLibrarySettings(prev => ({
+      ...prev,
+      categories: prev.categories.includes(category) ? prev.categories.filter(c => c !== category) : [...prev.categories, category],
+    }));
+  };
 
   const handleUndoFilter = () => {
     if (dataBeforeFilter) {
+      noteOperation('污染物过滤', '撤销过滤');
       setFilterToolData(dataBeforeFilter);
       setIsFiltered(false);
       setDataBeforeFilter(null);
@@ -491,7 +1099,7 @@ const App: React.FC = () => {
   
   const handleDownloadFilterResult = () => {
       if (filterToolData) {
-        exportFile(filterToolData, 'filtered_data');
+        exportResult(filterToolData, 'filtered_data');
       }
   };
 
@@ -517,7 +1125,7 @@ const App: React.FC = () => {
     setIsLoading(true);
     setError(null);
     try {
-      const data = await parseFile(file);
+      const data = await parseInput(file, '去重', '待去重数据');
       if (!data.headers.includes('Final_Annotation') || !data.headers.includes('ID')) {
         throw new Error("上传的文件必须包含 'Final_Annotation' 和 'ID' 列。");
       }
@@ -532,6 +1140,24 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const handleSampleMetadataFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await parseInput(file, '样本信息', '样本信息表');
+      const parsed = parseSampleMetadata(data);
+      // Batches already merged have renamed clashing columns; map the sheet onto the merged names.
+      const samples = columnBatches ? assignBatchMetadata(parsed, batches, columnBatches) : parsed;
+      noteOperation('样本信息', '载入样本信息表', { '文件': file.name, '样本数': parsed.length });
+      setSampleMetadata(samples);
+      showToast(`已加载 ${parsed.length} 个样本的信息。`);
+    } catch (err: any) {
+      setError(err.message || '处理样本信息表时出错。');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [columnBatches, batches]);
+
   const handleDereplication = useCallback(() => {
     if (!dereplicationData) {
       setError('没有可用于去重的数据。');
@@ -544,26 +1170,13 @@ const App: React.FC = () => {
         setDataBeforeDereplication(dereplicationData);
         const { headers, rows } = dereplicationData;
 
-        const bioCols = headers.filter(h => h.toUpperCase().startsWith('CON_') || h.toUpperCase().startsWith('HBO_'));
-        const qcCols = headers.filter(h => h.toUpperCase().startsWith('QC-'));
+        const { sampleCols: bioCols, qcCols, source } = classifySampleColumns(headers, sampleMetadata);
 
-        if (bioCols.length === 0) throw new Error("未找到生物样本列 (例如 'CON_...' 或 'HBO_...')。");
-        if (qcCols.length === 0) throw new Error("未找到QC样本列 (例如 'QC-...')。");
+        if (bioCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Sample 的列出现在数据中。' : "未找到生物样本列 (例如 'CON_...' 或 'HBO_...')，请上传样本信息表。");
+        if (qcCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 QC 的列出现在数据中。' : "未找到QC样本列 (例如 'QC-...')，请上传样本信息表。");
         if (!headers.includes('ID')) throw new Error("数据必须包含 'ID' 列。");
 
-        const groups = new Map<string, TableRow[]>();
-        const unknowns: TableRow[] = [];
-        
-        rows.forEach(row => {
-            const annotation = row['Final_Annotation'];
-            if (annotation && String(annotation).trim() !== '') {
-                const key = String(annotation).trim();
-                if (!groups.has(key)) groups.set(key, []);
-                groups.get(key)!.push(row);
-            } else {
-                unknowns.push(row);
-            }
-        });
+        const { groups, ungrouped: unknowns } = buildDereplicationGroups(rows, useIonGroups && headers.includes('Feature_Group'));
 
         const processedRows: TableRow[] = [];
 
@@ -634,6 +1247,7 @@ const App: React.FC = () => {
         const rowOrderMap = new Map(rows.map((row, index) => [row.ID, index]));
         finalRows.sort((a: any, b: any) => (rowOrderMap.get(a.ID) ?? Infinity) - (rowOrderMap.get(b.ID) ?? Infinity));
         
+        noteOperation('去重', '执行去重', { '按离子分组合并': useIonGroups && headers.includes('Feature_Group') });
         setDereplicationData({ ...dereplicationData, rows: finalRows });
 
         const removedItemsForList = finalRows
@@ -642,6 +1256,7 @@ const App: React.FC = () => {
 
         if (removedItemsForList.length > 0) {
             setModalTitle(`移除了 ${removedItemsForList.length} 个冗余或低质量条目`);
+            setModalDescription(undefined);
             setUnmatchedItems(removedItemsForList.map(item => String(item)));
             setModalOpen(true);
         }
@@ -653,10 +1268,37 @@ const App: React.FC = () => {
     } finally {
         setIsLoading(false);
     }
-  }, [dereplicationData]);
+  }, [dereplicationData, sampleMetadata, useIonGroups]);
+
+  const handleIonGrouping = useCallback(() => {
+    if (!dereplicationData) {
+      setError('没有可用于离子分组的数据。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { sampleCols, qcCols } = classifySampleColumns(dereplicationData.headers, sampleMetadata);
+        const { data, groupCount, consistentGroups, groupedFeatures } = groupAdductsAndIsotopes(dereplicationData, {
+            polarity: ionPolarity,
+            tolerance: massTolerance,
+            rtWindow,
+            intensityCols: [...sampleCols, ...qcCols],
+        });
+        noteOperation('去重', '加合物与同位素分组', { '离子模式': ION_POLARITY_LABELS[ionPolarity], '容差': `${massTolerance.value} ${massTolerance.unit}`, 'RT窗口': rtWindow });
+        setDereplicationData(data);
+        showToast(`找到 ${groupCount} 个特征组 (共 ${groupedFeatures} 个特征)，其中 ${consistentGroups} 个组的中性质量一致。`);
+    } catch (err: any) {
+        setError(err.message || '离子分组时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [dereplicationData, sampleMetadata, ionPolarity, massTolerance, rtWindow]);
 
   const handleUndoDereplication = () => {
     if (dataBeforeDereplication) {
+      noteOperation('去重', '撤销去重');
       setDereplicationData(dataBeforeDereplication);
       setIsDereplicated(false);
       setDataBeforeDereplication(null);
@@ -672,36 +1314,611 @@ const App: React.FC = () => {
             return newRow;
         });
         const dataToDownload = { headers: dereplicationData.headers, rows: finalRows };
-        exportFile(dataToDownload, 'dereplicated_data');
+        exportResult(dataToDownload, 'dereplicated_data');
       }
     };
 
-  const handleMetaboliteIdentification = async () => {
-    if (!msmsData.trim() || !precursorMz.trim()) {
-        setError("请输入 Precursor m/z 和 MS/MS 峰数据。");
-        return;
-    }
+  const loadFeatureFilterData = (data: TableData, message: string) => {
+    setFeatureFilterData(data);
+    setFeatureFilterHistory([]);
+    showToast(message);
+    featureFilterToolRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
 
-    if (identificationSource === 'api' && !apiUrl.trim()) {
-        setError("请输入外部鉴定服务的 API 端点 URL。");
-        return;
-    }
+  const showFeatureFilterRemovals = (data: TableData, title: string) => {
+    const summary = Object.entries(summarizeRemovalReasons(data)).map(([reason, count]) => `${reason}: ${count}`).join('；');
+    setModalTitle(title);
+    setModalDescription(`累计移除情况 — ${summary}`);
+    setUnmatchedItems(getRemovedData(data).rows
+        .map(row => `ID: ${row.ID ?? '-'}, Annotation: ${row.Final_Annotation || '未知'} - ${row.Removal_Reason}`));
+    setModalOpen(true);
+  };
 
-    setIsIdentifying(true);
+  const handleFeatureFilterFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
     setError(null);
-    setIdentificationResult(null);
-    setApiResult(null);
-
     try {
-        if (identificationSource === 'gemini') {
-            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-            const prompt = `
-                As an expert in metabolomics and mass spectrometry, analyze the following tandem mass spectrometry (MS/MS) data to identify the most likely metabolite.
-
-                Precursor m/z: ${precursorMz}
-
-                MS/MS Peaks (provided as m/z and optional intensity, one per line):
-                ${msmsData}
+      const data = await parseInput(file, '特征过滤', '待过滤数据');
+      setFeatureFilterData(data);
+      setFeatureFilterHistory([]);
+      showToast('文件已成功加载到特征过滤工具。');
+    } catch (err: any) {
+      setError(err.message || '处理文件时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleLoadWorkflowDataForFeatureFilter = () => {
+    if (mergedData) {
+      loadFeatureFilterData(mergedData, '已将流程数据加载到特征过滤工具中。');
+    }
+  };
+
+  const handleLoadDereplicationDataForFeatureFilter = () => {
+    if (dereplicationData) {
+      const cleanedRows = dereplicationData.rows
+        .filter(r => (r as any)._derep_status === '保留')
+        .map(r => {
+            const newRow = {...r};
+            delete (newRow as any)._derep_status;
+            return newRow;
+        });
+      loadFeatureFilterData({ headers: dereplicationData.headers, rows: cleanedRows }, '已将去重数据加载到特征过滤工具中。');
+    }
+  };
+
+  const handleApplyBlankFilter = useCallback(() => {
+    if (!featureFilterData) {
+      setError('没有可用于过滤的数据。');
+      return;
+    }
+    if (!(minBlankFold > 0)) {
+      setError('样本/空白倍数阈值必须为正数。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { sampleCols, blankCols, source } = classifySampleColumns(featureFilterData.headers, sampleMetadata);
+        if (sampleCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Sample 的列出现在数据中。' : "未找到生物样本列 (例如 'CON_...' 或 'HBO_...')，请上传样本信息表。");
+        if (blankCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Blank 的列出现在数据中。' : "未找到空白样本列 (列名需包含 'blank')，请上传样本信息表。");
+
+        const { data, removedCount } = applyBlankFilter(featureFilterData, sampleCols, blankCols, minBlankFold);
+        noteOperation('特征过滤', '空白过滤', { '最小倍数': minBlankFold });
+        setFeatureFilterHistory(prev => [...prev, featureFilterData]);
+        setFeatureFilterData(data);
+
+        if (removedCount > 0) {
+            showFeatureFilterRemovals(data, `空白扣除移除了 ${removedCount} 个特征`);
+        }
+        showToast(`空白扣除完成，移除 ${removedCount} 个特征。`);
+    } catch (err: any) {
+        setError(err.message || '执行空白扣除时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [featureFilterData, sampleMetadata, minBlankFold]);
+
+  const handleApplyQualityFilter = useCallback(() => {
+    if (!featureFilterData) {
+      setError('没有可用于过滤的数据。');
+      return;
+    }
+    const { maxQcRsd, minDetectionRate } = qualityFilterSettings;
+    if (!(maxQcRsd > 0) || !(minDetectionRate >= 0 && minDetectionRate <= 100)) {
+      setError('QC RSD 上限必须为正数，检出率下限必须在 0-100 之间。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { sampleCols, qcCols, groups, source } = classifySampleColumns(featureFilterData.headers, sampleMetadata);
+        if (sampleCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Sample 的列出现在数据中。' : "未找到生物样本列 (例如 'CON_...' 或 'HBO_...')，请上传样本信息表。");
+
+        const { data, removedCount } = applyQualityFilter(featureFilterData, sampleCols, groups, qcCols, qualityFilterSettings);
+        noteOperation('特征过滤', '质量过滤', { 'QC RSD上限': qualityFilterSettings.maxQcRsd, '检出率下限': qualityFilterSettings.minDetectionRate, '检出率口径': qualityFilterSettings.detectionMode });
+        setFeatureFilterHistory(prev => [...prev, featureFilterData]);
+        setFeatureFilterData(data);
+
+        if (removedCount > 0) {
+            showFeatureFilterRemovals(data, `质量过滤移除了 ${removedCount} 个特征`);
+        }
+        showToast(qcCols.length === 0 ? `未找到QC列，仅按检出率过滤，移除 ${removedCount} 个特征。` : `质量过滤完成，移除 ${removedCount} 个特征。`);
+    } catch (err: any) {
+        setError(err.message || '执行质量过滤时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [featureFilterData, sampleMetadata, qualityFilterSettings]);
+
+  const handleFragmentDetection = useCallback(() => {
+    if (!featureFilterData) {
+      setError('没有可用于检测的数据。');
+      return;
+    }
+    if (!(fragmentSettings.minCorrelation > 0 && fragmentSettings.minCorrelation <= 1)) {
+      setError('相关系数阈值必须在 0-1 之间。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { sampleCols, qcCols } = classifySampleColumns(featureFilterData.headers, sampleMetadata);
+        const intensityCols = [...sampleCols, ...qcCols];
+        if (intensityCols.length < MIN_PAIRED_SAMPLES) throw new Error(`源内碎片检测至少需要 ${MIN_PAIRED_SAMPLES} 个样本或QC列，当前只找到 ${intensityCols.length} 个。`);
+
+        const detected = detectInSourceFragments(featureFilterData, intensityCols, rtWindow, fragmentSettings, { polarity: ionPolarity, tolerance: massTolerance });
+        const { data, removedCount } = excludeFragments ? applyFragmentFilter(detected.data) : { data: detected.data, removedCount: 0 };
+        noteOperation('特征过滤', '源内碎片检测', { '相关方法': CORRELATION_LABELS[fragmentSettings.method], '最小相关系数': fragmentSettings.minCorrelation, 'RT窗口': rtWindow, '离子模式': ION_POLARITY_LABELS[ionPolarity], '剔除碎片': excludeFragments });
+        setFeatureFilterHistory(prev => [...prev, featureFilterData]);
+        setFeatureFilterData(data);
+
+        if (removedCount > 0) {
+            showFeatureFilterRemovals(data, `源内碎片过滤移除了 ${removedCount} 个特征`);
+        }
+        showToast(excludeFragments ? `标记并移除了 ${removedCount} 个疑似源内碎片。` : `标记了 ${detected.fragmentCount} 个疑似源内碎片 (Likely_Fragment 列)。`);
+    } catch (err: any) {
+        setError(err.message || '检测源内碎片时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [featureFilterData, sampleMetadata, rtWindow, fragmentSettings, excludeFragments, ionPolarity, massTolerance]);
+
+  const handleUndoFeatureFilter = () => {
+    if (featureFilterHistory.length > 0) {
+      noteOperation('特征过滤', '撤销特征过滤');
+      setFeatureFilterData(featureFilterHistory[featureFilterHistory.length - 1]);
+      setFeatureFilterHistory(prev => prev.slice(0, -1));
+      showToast('已撤销上一步特征过滤操作。');
+    }
+  };
+
+  const handleDownloadFeatureFilterResult = () => {
+      if (featureFilterData) {
+        exportResult(getRetainedData(featureFilterData), 'feature_filtered_data', { '已移除': getRemovedData(featureFilterData) });
+      }
+  };
+
+  const handleLoadFeatureFilterDataForFiltering = () => {
+    if (featureFilterData) {
+      setFilterToolData(getRetainedData(featureFilterData));
+      setIsFiltered(false);
+      setDataBeforeFilter(null);
+      showToast('已将特征过滤结果加载到污染物过滤工具中。');
+      filterToolRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }
+  };
+
+  const loadPreprocessData = (data: TableData, message: string) => {
+    setPreprocessData(data);
+    setPreprocessHistory([]);
+    setDriftContext(null);
+    showToast(message);
+    preprocessToolRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handlePreprocessFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await parseInput(file, '预处理', '待预处理数据');
+      setPreprocessData(data);
+      setPreprocessHistory([]);
+      setDriftContext(null);
+      showToast('文件已成功加载到数据预处理工具。');
+    } catch (err: any) {
+      setError(err.message || '处理文件时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleLoadFilterDataForPreprocessing = () => {
+    if (filterToolData) {
+      loadPreprocessData(filterToolData, '已将污染物过滤结果加载到数据预处理工具中。');
+    }
+  };
+
+  const handleLoadFeatureFilterDataForPreprocessing = () => {
+    if (featureFilterData) {
+      loadPreprocessData(getRetainedData(featureFilterData), '已将特征过滤结果加载到数据预处理工具中。');
+    }
+  };
+
+  const getIntensityColumns = (headers: string[]) => {
+    const { sampleCols, qcCols, source } = classifySampleColumns(headers, sampleMetadata);
+    if (sampleCols.length + qcCols.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Sample 或 QC 的列出现在数据中。' : "未找到样本或QC列 (例如 'CON_...'、'HBO_...' 或 'QC-...')，请上传样本信息表。");
+    return { sampleCols, qcCols, intensityCols: [...sampleCols, ...qcCols] };
+  };
+
+  const handleImputation = useCallback(() => {
+    if (!preprocessData) {
+      setError('没有可用于插补的数据。');
+      return;
+    }
+    if (imputationSettings.method === 'constant' && !(imputationSettings.constant > 0)) {
+      setError('插补常数必须为正数。');
+      return;
+    }
+    if (imputationSettings.method === 'knn' && !(Number.isInteger(imputationSettings.k) && imputationSettings.k > 0)) {
+      setError('KNN 的近邻数必须为正整数。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { intensityCols } = getIntensityColumns(preprocessData.headers);
+        const { data, imputedCount, skippedFeatures } = imputeMissingValues(preprocessData, intensityCols, imputationSettings);
+        noteOperation('预处理', '缺失值插补', { '方法': IMPUTATION_METHOD_LABELS[imputationSettings.method] });
+        setPreprocessHistory(prev => [...prev, { data: preprocessData, label: `缺失值插补 (${IMPUTATION_METHOD_LABELS[imputationSettings.method]})` }]);
+        setPreprocessData(data);
+        const skippedNote = skippedFeatures > 0 ? `，${skippedFeatures} 个特征在所有列中均缺失，未插补` : '';
+        showToast(`已插补 ${imputedCount} 个缺失值${skippedNote}。`);
+    } catch (err: any) {
+        setError(err.message || '插补时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [preprocessData, sampleMetadata, imputationSettings]);
+
+  const handleNormalization = useCallback(() => {
+    if (!preprocessData) {
+      setError('没有可用于归一化的数据。');
+      return;
+    }
+    const internalStandardIds = [...new Set<string>(internalStandardText.split(/[\n,]/).map(id => id.trim()).filter(Boolean))];
+    if (normalizationMethod === 'internalStandard' && internalStandardIds.length === 0) {
+      setError('请输入至少一个内标的 ID。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { qcCols, intensityCols } = getIntensityColumns(preprocessData.headers);
+        const { data } = normalizeSamples(preprocessData, intensityCols, normalizationMethod, { referenceCols: qcCols, internalStandardIds });
+        noteOperation('预处理', '样本归一化', { '方法': NORMALIZATION_METHOD_LABELS[normalizationMethod] });
+        setPreprocessHistory(prev => [...prev, { data: preprocessData, label: `样本归一化 (${NORMALIZATION_METHOD_LABELS[normalizationMethod]})` }]);
+        setPreprocessData(data);
+        const pqnNote = normalizationMethod === 'pqn' && qcCols.length === 0 ? '，未找到QC列，参考谱改用全部样本的中位数' : '';
+        showToast(`已对 ${intensityCols.length} 个样本列完成归一化${pqnNote}。`);
+    } catch (err: any) {
+        setError(err.message || '归一化时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [preprocessData, sampleMetadata, normalizationMethod, internalStandardText]);
+
+  const handleRunListFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const order = parseRunList(await parseInput(file, '预处理', '进样序列'));
+      setRunListOrder(order);
+      showToast(`已加载 ${Object.keys(order).length} 个样本的进样顺序。`);
+    } catch (err: any) {
+      setError(err.message || '处理进样序列表时出错。');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleDriftCorrection = useCallback(() => {
+    if (!preprocessData) {
+      setError('没有可用于漂移校正的数据。');
+      return;
+    }
+    if (!(driftSpan > 0 && driftSpan <= 1)) {
+      setError('LOESS 平滑跨度必须在 0-1 之间。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { sampleCols, qcCols, intensityCols } = getIntensityColumns(preprocessData.headers);
+        if (qcCols.length < 4) throw new Error(`漂移校正至少需要 4 个QC列，当前只找到 ${qcCols.length} 个。`);
+        const injectionOrder = runListOrder ?? getInjectionOrder(sampleMetadata);
+        if (Object.keys(injectionOrder).length === 0) throw new Error('缺少进样顺序，请上传进样序列表，或在样本信息表中提供 InjectionOrder 列。');
+        const missing = missingInjectionOrder(intensityCols, injectionOrder);
+        if (missing.length > 0) throw new Error(`以下列缺少进样顺序: ${missing.join(', ')}`);
+
+        const { data, correctedFeatures, skippedFeatures, uncorrectedValues } = correctDrift(preprocessData, intensityCols, qcCols, injectionOrder, driftSpan);
+        noteOperation('预处理', '信号漂移校正', { '方法': 'QC-RLSC', 'span': driftSpan });
+        setPreprocessHistory(prev => [...prev, { data: preprocessData, label: `信号漂移校正 (QC-RLSC, span ${driftSpan})` }]);
+        setPreprocessData(data);
+        setDriftContext({ before: preprocessData, after: data, sampleCols, qcCols, injectionOrder, span: driftSpan, uncorrectedValues });
+        const skippedNote = skippedFeatures > 0 ? `，${skippedFeatures} 个特征的有效QC少于 4 个，未校正` : '';
+        const uncorrectedNote = uncorrectedValues > 0 ? `，${uncorrectedValues} 个强度值的拟合趋势不为正，保持原值` : '';
+        showToast(`已校正 ${correctedFeatures} 个特征${skippedNote}${uncorrectedNote}。`);
+    } catch (err: any) {
+        setError(err.message || '漂移校正时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [preprocessData, sampleMetadata, runListOrder, driftSpan]);
+
+  const handleUndoPreprocess = () => {
+    if (preprocessHistory.length > 0) {
+      noteOperation('预处理', `撤销${preprocessHistory[preprocessHistory.length - 1].label}`);
+      if (driftContext?.after === preprocessData) setDriftContext(null);
+      setPreprocessData(preprocessHistory[preprocessHistory.length - 1].data);
+      setPreprocessHistory(prev => prev.slice(0, -1));
+      showToast('已撤销上一步预处理操作。');
+    }
+  };
+
+  const exportPreprocessData = (data: TableData) => {
+    const imputationSheet = buildImputationSheet(data);
+    exportResult(data, 'preprocessed_data', imputationSheet.rows.length > 0 ? { '插补记录': imputationSheet } : {});
+  };
+
+  const handleDownloadPreprocessResult = () => {
+    if (preprocessData) {
+      exportPreprocessData(preprocessData);
+    }
+  };
+
+  const loadStatsData = (data: TableData, message: string) => {
+    setStatsData(data);
+    setStatsResults(null);
+    setSelectedStatsFeature(null);
+    showToast(message);
+    statsToolRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const handleStatsFileProcess = useCallback(async (file: File) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const data = await parseInput(file, '统计分析', '待分析数据');
+      setStatsData(data);
+      setStatsResults(null);
+      setSelectedStatsFeature(null);
+      showToast('文件已成功加载到统计分析工具。');
+    } catch (err: any) {
+      setError(err.message || '处理文件时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const handleLoadPreprocessDataForStats = () => {
+    if (preprocessData) {
+      loadStatsData(preprocessData, '已将预处理结果加载到统计分析工具中。');
+    }
+  };
+
+  const handleLoadFilterDataForStats = () => {
+    if (filterToolData) {
+      loadStatsData(filterToolData, '已将污染物过滤结果加载到统计分析工具中。');
+    }
+  };
+
+  const statsGroups = statsData ? classifySampleColumns(statsData.headers, sampleMetadata).groups : {};
+
+  // Preselect the first two groups whenever the loaded table or the sample sheet changes.
+  useEffect(() => {
+    const names = statsData ? Object.keys(classifySampleColumns(statsData.headers, sampleMetadata).groups) : [];
+    setStatsGroupA(prev => names.includes(prev) ? prev : names[0] ?? '');
+    setStatsGroupB(prev => names.includes(prev) ? prev : names[1] ?? '');
+  }, [statsData, sampleMetadata]);
+
+  const handleDifferentialAnalysis = useCallback(() => {
+    if (!statsData) {
+      setError('没有可用于统计分析的数据。');
+      return;
+    }
+    if (!statsGroupA || !statsGroupB || statsGroupA === statsGroupB) {
+      setError('请选择两个不同的分组进行比较。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+
+    try {
+        const { groups } = classifySampleColumns(statsData.headers, sampleMetadata);
+        const colsA = groups[statsGroupA] ?? [];
+        const colsB = groups[statsGroupB] ?? [];
+        if (colsA.length < 2 || colsB.length < 2) throw new Error(`每个分组至少需要 2 个样本列，当前 ${statsGroupA}: ${colsA.length}，${statsGroupB}: ${colsB.length}。`);
+        const results = runDifferentialAnalysis(statsData, colsA, colsB, { test: statsTest, logTransform: statsLogTransform });
+        noteOperation('统计分析', '差异分析', { '分组': `${statsGroupB} vs ${statsGroupA}`, '检验': DIFFERENTIAL_TEST_LABELS[statsTest], 'log2转换': statsLogTransform });
+        setStatsResults({ results, groupA: statsGroupA, groupB: statsGroupB });
+        setSelectedStatsFeature(null);
+        const tested = results.filter(r => r.pValue !== null).length;
+        showToast(`已完成 ${tested} 个特征的 ${DIFFERENTIAL_TEST_LABELS[statsTest]}。`);
+    } catch (err: any) {
+        setError(err.message || '统计分析时发生未知错误。');
+    } finally {
+        setIsLoading(false);
+    }
+  }, [statsData, sampleMetadata, statsGroupA, statsGroupB, statsTest, statsLogTransform]);
+
+  const describeFeature = (data: TableData | null, rowIndex: number): string => {
+    const row = data?.rows[rowIndex];
+    if (!row) return String(rowIndex + 1);
+    const id = row.ID ?? rowIndex + 1;
+    return row.Final_Annotation ? `${id} - ${row.Final_Annotation}` : String(id);
+  };
+
+  const statsFeatureLabel = (rowIndex: number): string => describeFeature(statsData, rowIndex);
+
+  const handleDownloadStatsResult = () => {
+    if (statsData && statsResults) {
+      const table = buildDifferentialTable(statsData, statsResults.results, statsResults, { maxFdr: statsMaxFdr, minAbsLog2Fc: statsMinLog2Fc });
+      exportResult(table, `differential_${statsResults.groupB}_vs_${statsResults.groupA}`);
+    }
+  };
+
+  // Newest first, so the default source is the most processed table available.
+  const multivariateSources = [
+    { key: 'preprocess', label: '数据预处理结果', load: () => preprocessData },
+    { key: 'featureFilter', label: '特征过滤结果 (保留的特征)', load: () => featureFilterData && getRetainedData(featureFilterData) },
+    { key: 'filterTool', label: '污染物过滤结果', load: () => filterToolData },
+    { key: 'dereplication', label: '去重结果', load: () => dereplicationData },
+    { key: 'merged', label: '合并结果', load: () => mergedData },
+  ].filter(source => source.load() !== null);
+  const activeMultivariateSource = multivariateSources.find(source => source.key === multivariateSource) ?? multivariateSources[0];
+
+  const getMultivariateMatrix = (includeQc: boolean) => {
+    const data = activeMultivariateSource?.load();
+    if (!data) throw new Error('没有可用于多变量分析的数据。');
+    const { groups, qcCols, source } = classifySampleColumns(data.headers, sampleMetadata);
+    const samples = Object.entries(groups).flatMap(([group, cols]) => cols.map(column => ({ column, group })));
+    if (samples.length === 0) throw new Error(source === 'metadata' ? '样本信息表中没有类型为 Sample 的列出现在数据中。' : "未找到样本列 (例如 'CON_...' 或 'HBO_...')，请上传样本信息表。");
+    if (includeQc) qcCols.forEach(column => samples.push({ column, group: 'QC' }));
+    return { data, matrix: buildSampleMatrix(data, samples, { logTransform: multivariateLogTransform, scaling: multivariateScaling }) };
+  };
+
+  const handleRunPca = () => {
+    setError(null);
+    setIsLoading(true);
+    try {
+      const { data, matrix } = getMultivariateMatrix(multivariateIncludeQc);
+      if (matrix.samples.length < 3) throw new Error('PCA 至少需要 3 个样本。');
+      setPcaResult({ data, matrix, pca: runPca(matrix, 5) });
+      showToast(`已对 ${matrix.samples.length} 个样本、${matrix.featureRows.length} 个特征完成 PCA。`);
+    } catch (err: any) {
+      setError(err.message || 'PCA 计算时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleRunPlsda = () => {
+    if (!(Number.isInteger(plsdaComponents) && plsdaComponents > 0) || !(Number.isInteger(plsdaPermutations) && plsdaPermutations >= 0)) {
+      setError('成分数必须为正整数，置换次数必须为非负整数。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+    try {
+      // QCs are not a biological group, so they never enter the supervised model whatever the PCA option says.
+      const { data, matrix } = getMultivariateMatrix(false);
+      const result = runPlsda(matrix, plsdaComponents, plsdaPermutations);
+      setPlsdaResult({ data, matrix, result });
+      showToast(`PLS-DA 完成: R2Y = ${result.r2y.toFixed(3)}，Q2 = ${result.q2.toFixed(3)}。`);
+    } catch (err: any) {
+      setError(err.message || 'PLS-DA 计算时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleDownloadVip = () => {
+    if (plsdaResult) {
+      const { data, matrix, result } = plsdaResult;
+      exportResult(buildVipTable(data, matrix, result), 'plsda_vip', { 'PLS-DA得分': buildScoresTable(matrix, result.scores, 't') });
+    }
+  };
+
+  const handleBuildHeatmap = () => {
+    if (heatmapSelection !== 'manual' && !(Number.isInteger(heatmapTopN) && heatmapTopN >= 2 && heatmapTopN <= 500)) {
+      setError('特征数必须为 2-500 之间的整数。');
+      return;
+    }
+    setError(null);
+    setIsLoading(true);
+    try {
+      let data: TableData;
+      let rowIndices: number[];
+      let samples: { column: string; group: string }[];
+      if (heatmapSelection === 'pValue') {
+        if (!statsData || !statsResults) throw new Error('请先在统计分析中执行差异分析。');
+        data = statsData;
+        rowIndices = statsResults.results
+          .filter(r => r.pValue !== null)
+          .sort((a, b) => a.pValue! - b.pValue!)
+          .slice(0, heatmapTopN)
+          .map(r => r.rowIndex);
+        const { groups } = classifySampleColumns(data.headers, sampleMetadata);
+        samples = [statsResults.groupA, statsResults.groupB].flatMap(group => (groups[group] ?? []).map(column => ({ column, group })));
+      } else if (heatmapSelection === 'vip') {
+        if (!plsdaResult) throw new Error('请先在多变量分析中执行 PLS-DA。');
+        const { matrix, result } = plsdaResult;
+        data = plsdaResult.data;
+        rowIndices = matrix.featureRows
+          .map((rowIndex, j) => ({ rowIndex, vip: result.vip[j] }))
+          .sort((a, b) => b.vip - a.vip)
+          .slice(0, heatmapTopN)
+          .map(item => item.rowIndex);
+        samples = matrix.samples.map((column, i) => ({ column, group: matrix.groups[i] }));
+      } else {
+        const source = activeMultivariateSource?.load();
+        if (!source) throw new Error('没有可用于绘制热图的数据。');
+        data = source;
+        const ids = [...new Set<string>(heatmapIdsText.split(/[\n,]/).map(id => id.trim()).filter(Boolean))];
+        if (ids.length < 2) throw new Error('请输入至少两个特征 ID。');
+        if (!data.headers.includes('ID')) throw new Error("数据中缺少 'ID' 列，无法按 ID 选择特征。");
+        const rowById = new Map<string, number>();
+        data.rows.forEach((row, i) => {
+          const id = row.ID != null ? String(row.ID).trim() : '';
+          if (id && !rowById.has(id)) rowById.set(id, i);
+        });
+        const missing = ids.filter(id => !rowById.has(id));
+        if (missing.length > 0) {
+          setUnmatchedItems(missing);
+          setModalTitle(`有 ${missing.length} 个 ID 在数据中未找到`);
+          setModalDescription('这些特征不会出现在热图中。');
+          setModalOpen(true);
+        }
+        rowIndices = ids.filter(id => rowById.has(id)).map(id => rowById.get(id)!);
+        const { groups } = classifySampleColumns(data.headers, sampleMetadata);
+        samples = Object.entries(groups).flatMap(([group, cols]) => cols.map(column => ({ column, group })));
+      }
+      if (samples.length < 2) throw new Error("未找到足够的样本列 (例如 'CON_...' 或 'HBO_...')，请上传样本信息表。");
+
+      const matrix = buildHeatmapMatrix(data, rowIndices, samples, heatmapZScore);
+      const columns = matrix.columns.map((_, j) => matrix.values.map(row => row[j]));
+      setHeatmapResult({
+        matrix,
+        rowLabels: matrix.rowIndices.map(rowIndex => {
+          const row = data.rows[rowIndex];
+          return row.Final_Annotation ? String(row.Final_Annotation) : String(row.ID ?? rowIndex + 1);
+        }),
+        rowTree: heatmapClusterRows ? hierarchicalCluster(matrix.values, heatmapDistance, heatmapLinkage) : null,
+        colTree: heatmapClusterCols ? hierarchicalCluster(columns, heatmapDistance, heatmapLinkage) : null,
+        zScore: heatmapZScore,
+      });
+      showToast(`已绘制 ${matrix.values.length} 个特征 × ${matrix.columns.length} 个样本的热图。`);
+    } catch (err: any) {
+      setError(err.message || '绘制热图时发生未知错误。');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleMetaboliteIdentification = async () => {
+    if (!msmsData.trim() || !precursorMz.trim()) {
+        setError("请输入 Precursor m/z 和 MS/MS 峰数据。");
+        return;
+    }
+
+    if (identificationSource === 'api' && !apiUrl.trim()) {
+        setError("请输入外部鉴定服务的 API 端点 URL。");
+        return;
+    }
+
+    setIsIdentifying(true);
+    setError(null);
+    setIdentificationResult(null);
+    setApiResult(null);
+
+    try {
+        if (identificationSource === 'gemini') {
+            const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+            const prompt = `
+                As an expert in metabolomics and mass spectrometry, analyze the following tandem mass spectrometry (MS/MS) data to identify the most likely metabolite.
+
+                Precursor m/z: ${precursorMz}
+
+                MS/MS Peaks (provided as m/z and optional intensity, one per line):
+                ${msmsData}
             `;
 
             const response = await ai.models.generateContent({
@@ -877,9 +2094,15 @@ ${chunk.join('\n')}`;
     let dataToDownload: TableData | null = mergedData;
     let fileName = 'processed_data';
 
-    if (filterToolData) {
+    if (preprocessData) {
+        exportPreprocessData(preprocessData);
+        return;
+    } else if (filterToolData) {
         fileName = `filtered_data`;
         dataToDownload = filterToolData;
+    } else if (featureFilterData) {
+        exportResult(getRetainedData(featureFilterData), 'feature_filtered_data', { '已移除': getRemovedData(featureFilterData) });
+        return;
     } else if (dereplicationData) {
         fileName = 'dereplicated_data';
         const finalRows = dereplicationData.rows.filter(r => (r as any)._derep_status === '保留').map(r => {
@@ -888,27 +2111,39 @@ ${chunk.join('\n')}`;
             return newRow;
         });
         dataToDownload = { headers: dereplicationData.headers, rows: finalRows };
-    } else if (currentStep > PROCESSING_STEPS.length - 1) {
+    } else if (currentStep > pipeline.length - 1) {
         fileName = `annotated_data`;
     }
     
     if (dataToDownload) {
-      exportFile(dataToDownload, fileName);
+      exportResult(dataToDownload, fileName);
     }
   };
 
 
   const showUnmatchedModal = (stepIndex: number) => {
-    const step = PROCESSING_STEPS[stepIndex];
+    const step = pipeline[stepIndex];
     const items = allUnmatched[stepIndex];
     if (step && items) {
       setModalTitle(`在 ${step.name} 步骤中的不匹配项`);
+      setModalDescription(undefined);
+      setUnmatchedItems(items);
+      setModalOpen(true);
+    }
+  };
+
+  const showAmbiguousModal = (stepIndex: number) => {
+    const step = pipeline[stepIndex];
+    const items = ambiguousMatches[stepIndex];
+    if (step && items) {
+      setModalTitle(`在 ${step.name} 步骤中的多候选匹配`);
+      setModalDescription(`以下 ${items.length} 个特征在匹配窗口内有多个候选:`);
       setUnmatchedItems(items);
       setModalOpen(true);
     }
   };
 
-  const displayData = dereplicationData || filterToolData || mergedData;
+  const displayData = preprocessData || featureFilterData || dereplicationData || filterToolData || mergedData;
   
   const getConfidenceColor = (confidence: string) => {
     switch (confidence) {
@@ -935,6 +2170,53 @@ ${chunk.join('\n')}`;
           <p className="text-lg text-slate-600 mt-2">一个智能、分步的数据整合与注释流程</p>
         </header>
 
+        <div className="mb-6 p-4 bg-white border border-slate-200 rounded-xl shadow-sm flex flex-wrap items-center gap-3">
+            <label htmlFor="project-name" className="text-sm font-medium text-slate-700">项目名称</label>
+            <input
+                id="project-name"
+                type="text"
+                value={activeProject?.name ?? ''}
+                onChange={(e) => handleRenameProject(e.target.value)}
+                placeholder="未命名项目 (加载数据后自动保存)"
+                className="flex-1 min-w-[12rem] max-w-md px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+            />
+            <span className="text-xs text-slate-500">
+                {activeProject?.savedAt ? `已自动保存于 ${new Date(activeProject.savedAt).toLocaleTimeString('zh-CN', { hour12: false })}` : '尚未保存'}
+            </span>
+            <div className="ml-auto flex gap-2">
+                <button
+                    onClick={handleUndo}
+                    disabled={!undoEntry || isLoading}
+                    title={undoEntry ? `撤销: ${undoEntry.note.tool} - ${undoEntry.note.action}` : '没有可撤销的操作'}
+                    className="px-4 py-2 bg-white text-amber-700 border border-amber-500 rounded-md hover:bg-amber-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                >
+                    撤销
+                </button>
+                <button
+                    onClick={handleRedo}
+                    disabled={!redoEntry || isLoading}
+                    title={redoEntry ? `重做: ${redoEntry.note.tool} - ${redoEntry.note.action}` : '没有可重做的操作'}
+                    className="px-4 py-2 bg-white text-amber-700 border border-amber-500 rounded-md hover:bg-amber-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                >
+                    重做
+                </button>
+                <button
+                    onClick={handleShowProjects}
+                    className="px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors text-sm font-semibold"
+                >
+                    项目列表
+                </button>
+                <button
+                    onClick={handleExportProject}
+                    disabled={!hasProjectData(projectState)}
+                    className="flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors disabled:bg-slate-200 disabled:text-slate-500 text-sm font-semibold"
+                >
+                    <DownloadIcon className="w-4 h-4 mr-1" />
+                    导出项目文件
+                </button>
+            </div>
+        </div>
+
         {error && (
           <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded-lg relative mb-6" role="alert">
             <strong className="font-bold">错误! </strong>
@@ -952,16 +2234,35 @@ ${chunk.join('\n')}`;
         <div className="space-y-12">
             
             <section className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
-                <h2 className="text-2xl font-bold text-slate-900 mb-6">功能区一：代谢组学处理流程</h2>
+                <div className="flex items-center justify-between mb-6">
+                    <h2 className="text-2xl font-bold text-slate-900">功能区一：代谢组学处理流程</h2>
+                    {!isEditingPipeline && (
+                        <button
+                            onClick={() => setIsEditingPipeline(true)}
+                            disabled={currentStep > 1 || isLoading}
+                            title={currentStep > 1 ? '流程进行中，请先重新开始再编辑流程。' : undefined}
+                            className="px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                        >
+                            编辑流程
+                        </button>
+                    )}
+                </div>
+                {isEditingPipeline && (
+                    <PipelineEditor
+                        steps={pipeline}
+                        onSave={handleSavePipeline}
+                        onClose={() => setIsEditingPipeline(false)}
+                    />
+                )}
                 <div className="mb-8">
-                  <Stepper steps={PROCESSING_STEPS} currentStep={currentStep} />
+                  <Stepper steps={pipeline} currentStep={currentStep} />
                 </div>
                 {!isLoading && (
                   <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                    {PROCESSING_STEPS.map((step, index) => {
-                      const Icon = stepIcons[index];
+                    {pipeline.map((step, index) => {
+                      const Icon = stepIcons[step.fileType];
                       return (
-                        <div ref={el => { stepRefs.current[index] = el; }} key={step.name} className={`bg-white p-6 rounded-2xl shadow-lg border border-slate-200 transition-all duration-300 ${currentStep === index ? 'ring-2 ring-sky-500 scale-105' : 'opacity-80 hover:opacity-100'}`}>
+                        <div ref={el => { stepRefs.current[index] = el; }} key={`${index}-${step.name}`} className={`bg-white p-6 rounded-2xl shadow-lg border border-slate-200 transition-all duration-300 ${currentStep === index ? 'ring-2 ring-sky-500 scale-105' : 'opacity-80 hover:opacity-100'}`}>
                           <div className="flex items-center mb-4">
                             <div className="bg-sky-100 p-2 rounded-lg mr-4">
                                 <Icon className="w-6 h-6 text-sky-600" />
@@ -973,6 +2274,20 @@ ${chunk.join('\n')}`;
                           {(() => {
                             if (step.fileType === 'annotation') {
                                 return (
+                                    <>
+                                    <button
+                                        onClick={() => setShowAnnotationRules(prev => !prev)}
+                                        className="mb-3 text-sm font-medium text-sky-600 hover:text-sky-800"
+                                    >
+                                        {showAnnotationRules ? '收起规则设置' : '规则设置'}
+                                    </button>
+                                    {showAnnotationRules && (
+                                        <AnnotationRulesEditor
+                                            rules={annotationRules}
+                                            onChange={setAnnotationRules}
+                                            disabled={currentStep !== index || isLoading}
+                                        />
+                                    )}
                                     <button 
                                         onClick={handleGenerateAnnotation}
                                         disabled={currentStep !== index}
@@ -980,6 +2295,76 @@ ${chunk.join('\n')}`;
                                     >
                                     生成注释
                                     </button>
+                                    </>
+                                );
+                            }
+                            if (index === 0 && isMultiBatch && currentStep === 0) {
+                                return (
+                                    <div className="space-y-3">
+                                        <label className="flex items-center text-sm text-slate-700">
+                                            <input type="checkbox" checked={isMultiBatch} onChange={(e) => { setIsMultiBatch(e.target.checked); setBatches([]); }} disabled={isLoading} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+                                            <span className="ml-2">多批次数据</span>
+                                        </label>
+                                        <FileUpload
+                                            onFileSelect={handleFileProcess}
+                                            disabled={isLoading}
+                                            title={`点击添加批次 B${batches.length + 1}`}
+                                        />
+                                        {batches.length > 0 && (
+                                            <ul className="divide-y divide-slate-200 bg-white border border-slate-200 rounded-md text-sm">
+                                                {batches.map(batch => (
+                                                    <li key={batch.name} className="flex items-center justify-between px-3 py-2">
+                                                        <span><span className="font-semibold text-slate-800 mr-2">{batch.name}</span><span className="text-slate-600">{batch.fileName}</span></span>
+                                                        <span className="text-slate-500">{batch.data.rows.length} 个特征 · {batch.intensityCols.length} 列 (QC {batch.qcCols.length})</span>
+                                                    </li>
+                                                ))}
+                                            </ul>
+                                        )}
+                                        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                            <label className="text-sm text-slate-700">
+                                                对齐方式
+                                                <select
+                                                    value={batchAlignMode}
+                                                    onChange={(e) => setBatchAlignMode(e.target.value as BatchAlignMode)}
+                                                    disabled={isLoading}
+                                                    className="w-full px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                                >
+                                                    <option value="id">按特征 ID</option>
+                                                    <option value="mzRt">按 m/z + RT</option>
+                                                </select>
+                                            </label>
+                                            <label className="text-sm text-slate-700">
+                                                批次校正
+                                                <select
+                                                    value={batchCorrection}
+                                                    onChange={(e) => setBatchCorrection(e.target.value as BatchCorrectionMethod)}
+                                                    disabled={isLoading}
+                                                    className="w-full px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                                >
+                                                    {Object.entries(BATCH_CORRECTION_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                                                </select>
+                                            </label>
+                                        </div>
+                                        {batchAlignMode === 'mzRt' && (
+                                            <p className="text-xs text-slate-500">使用当前的匹配容差 ({massTolerance.value} {massTolerance.unit}) 与 RT 窗口 ({rtWindow} min)，可在后续匹配步骤中修改。</p>
+                                        )}
+                                        <div className="flex gap-3">
+                                            <button
+                                                onClick={handleMergeBatches}
+                                                disabled={batches.length < 2 || isLoading}
+                                                className="flex-1 px-4 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                                            >
+                                                合并 {batches.length} 个批次
+                                            </button>
+                                            <button
+                                                onClick={() => setBatches(prev => prev.slice(0, -1))}
+                                                disabled={batches.length === 0 || isLoading}
+                                                className="px-4 py-3 bg-white text-amber-700 border border-amber-500 rounded-md hover:bg-amber-50 transition-colors disabled:text-slate-400 disabled:border-slate-300 text-sm font-semibold"
+                                            >
+                                                移除最后一个批次
+                                            </button>
+                                        </div>
+                                    </div>
                                 );
                             }
                             if (index === 1 && currentStep === 1) {
@@ -1001,14 +2386,96 @@ ${chunk.join('\n')}`;
                                 );
                             }
                             return (
+                                <>
+                                {(step.matchMode === 'mz' || step.matchMode === 'mzRt') && (
+                                    <div className="flex items-center space-x-2 mb-3">
+                                        <label htmlFor={`mass-tolerance-${index}`} className="text-sm font-medium text-slate-700 whitespace-nowrap">匹配容差</label>
+                                        <input
+                                            type="number"
+                                            id={`mass-tolerance-${index}`}
+                                            min={0}
+                                            step="any"
+                                            value={massTolerance.value}
+                                            onChange={(e) => setMassTolerance(prev => ({ ...prev, value: Math.max(0, Number(e.target.value) || 0) }))}
+                                            className="w-24 px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                            disabled={currentStep !== index || isLoading}
+                                        />
+                                        <select
+                                            value={massTolerance.unit}
+                                            onChange={(e) => setMassTolerance(prev => ({ ...prev, unit: e.target.value as MassTolerance['unit'] }))}
+                                            className="px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                            disabled={currentStep !== index || isLoading}
+                                        >
+                                            <option value="ppm">ppm</option>
+                                            <option value="mDa">mDa</option>
+                                        </select>
+                                    </div>
+                                )}
+                                {keepsCandidates(step) && (
+                                    <div className="flex items-center space-x-2 mb-3">
+                                        <label htmlFor={`candidate-top-n-${index}`} className="text-sm font-medium text-slate-700 whitespace-nowrap">保留候选数</label>
+                                        <input
+                                            type="number"
+                                            id={`candidate-top-n-${index}`}
+                                            min={0}
+                                            max={20}
+                                            value={candidateTopN}
+                                            onChange={(e) => setCandidateTopN(Math.min(20, Math.max(0, Math.round(Number(e.target.value) || 0))))}
+                                            className="w-24 px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                            disabled={currentStep !== index || isLoading}
+                                        />
+                                        <span className="text-xs text-slate-500">按 {step.rankColumn || '文件顺序'} 排序</span>
+                                    </div>
+                                )}
+                                {step.matchMode === 'mzRt' && (
+                                    <div className="flex items-center space-x-2 mb-3">
+                                        <label htmlFor={`rt-window-${index}`} className="text-sm font-medium text-slate-700 whitespace-nowrap">RT 窗口</label>
+                                        <input
+                                            type="number"
+                                            id={`rt-window-${index}`}
+                                            min={0}
+                                            step="any"
+                                            value={rtWindow}
+                                            onChange={(e) => setRtWindow(Math.max(0, Number(e.target.value) || 0))}
+                                            className="w-24 px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                            disabled={currentStep !== index || isLoading}
+                                        />
+                                        <span className="text-sm text-slate-600">min</span>
+                                    </div>
+                                )}
+                                {index === 0 && currentStep === 0 && (
+                                    <label className="flex items-center text-sm text-slate-700 mb-3">
+                                        <input type="checkbox" checked={isMultiBatch} onChange={(e) => { setIsMultiBatch(e.target.checked); setBatches([]); }} disabled={isLoading} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+                                        <span className="ml-2">多批次数据</span>
+                                    </label>
+                                )}
                                 <FileUpload 
                                     onFileSelect={handleFileProcess} 
                                     disabled={currentStep !== index || isLoading} 
                                     title={`点击上传${step.name}`} 
                                 />
+                                {step.optional && currentStep === index && (
+                                    <button
+                                        onClick={handleSkipStep}
+                                        disabled={isLoading}
+                                        className="mt-3 w-full px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                                    >
+                                        跳过此步
+                                    </button>
+                                )}
+                                </>
                             );
                           })()}
 
+                          {ambiguousMatches[index] && ambiguousMatches[index].length > 0 && (
+                            <button
+                                onClick={() => showAmbiguousModal(index)}
+                                className="mt-3 text-left text-xs text-amber-700 hover:text-amber-800 transition-colors"
+                            >
+                                {ambiguousMatches[index].length} 个特征在容差窗口内有多个候选，已选择误差最小的一个。点击查看。
+                            </button>
+                          )}
+
                           <div className="mt-4 flex justify-between items-center min-h-[40px]">
                             {allUnmatched[index] && allUnmatched[index].length > 0 ? (
                                <button
@@ -1033,7 +2500,7 @@ ${chunk.join('\n')}`;
                     })}
                   </div>
                 )}
-                {currentStep > PROCESSING_STEPS.length - 1 && mergedData && !isLoading && (
+                {currentStep > pipeline.length - 1 && mergedData && !isLoading && (
                     <div className="mt-8 text-center p-6 bg-green-50 border border-green-200 rounded-lg">
                         <p className="text-lg text-green-800 font-semibold mb-4">处理流程已完成！</p>
                         <button
@@ -1042,10 +2509,63 @@ ${chunk.join('\n')}`;
                         >
                             将结果用于冗杂重复去除
                         </button>
+                        {Object.keys(featureCandidates).length > 0 && (
+                            <button
+                                onClick={() => setShowCandidatePanel(prev => !prev)}
+                                className="ml-4 px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors font-semibold"
+                            >
+                                {showCandidatePanel ? '收起候选注释' : '查看候选注释'}
+                            </button>
+                        )}
+                        {showCandidatePanel && (
+                            <CandidatePanel data={mergedData} candidateSets={featureCandidates} onPromote={handlePromoteCandidate} />
+                        )}
                     </div>
                 )}
             </section>
 
+            <section className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <DatabaseIcon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">样本信息表 (可选)</h2>
+                </div>
+                <p className="text-slate-600 mb-6">上传样本信息表以定义每个强度列的样本类型、分组、批次和进样顺序。去重及后续统计工具会据此识别样本列、QC 和空白；未上传时沿用 <code>CON_</code>/<code>HBO_</code>/<code>QC-</code> 列名前缀规则。</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-8 items-start">
+                    <div>
+                        <p className="text-xs text-slate-500 mb-4">必须包含样本列名 (Sample) 与样本类型 (Type: Sample / QC / Blank) 两列，可选 Group、Batch、InjectionOrder 列。</p>
+                        <FileUpload
+                            onFileSelect={handleSampleMetadataFileProcess}
+                            disabled={isLoading}
+                            title="点击上传样本信息表"
+                        />
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg text-sm text-slate-700">
+                        {sampleMetadata ? (
+                            <>
+                                <p className="font-semibold text-slate-800 mb-2">已加载 {sampleMetadata.length} 个样本</p>
+                                <ul className="space-y-1">
+                                    <li>生物样本: {sampleMetadata.filter(info => info.type === 'sample').length}</li>
+                                    <li>QC: {sampleMetadata.filter(info => info.type === 'qc').length}</li>
+                                    <li>空白: {sampleMetadata.filter(info => info.type === 'blank').length}</li>
+                                    <li>分组: {[...new Set(sampleMetadata.filter(info => info.type === 'sample').map(info => info.group || '未分组'))].join(', ') || '-'}</li>
+                                    <li>批次: {[...new Set(sampleMetadata.map(info => info.batch).filter(Boolean))].join(', ') || '-'}</li>
+                                </ul>
+                                <button
+                                    onClick={() => { setSampleMetadata(null); showToast('已移除样本信息表，恢复列名前缀规则。'); }}
+                                    className="mt-3 text-sm font-medium text-amber-600 hover:text-amber-700"
+                                >
+                                    移除样本信息表
+                                </button>
+                            </>
+                        ) : (
+                            <p className="text-slate-500">尚未加载样本信息表，当前使用列名前缀规则识别样本。</p>
+                        )}
+                    </div>
+                </div>
+            </section>
+
             <section ref={dereplicationToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
                  <div className="flex items-center mb-4">
                     <div className="bg-sky-100 p-2 rounded-lg mr-4">
@@ -1075,6 +2595,40 @@ ${chunk.join('\n')}`;
                         <p className="text-xs text-slate-500 mb-4">处理数据并查看结果。</p>
                          <div className="p-6 border-2 border-dashed border-slate-300 rounded-md bg-slate-50 text-center">
                             {!isDereplicated ? (
+                                <div className="space-y-3">
+                                <div className="p-3 bg-white border border-slate-200 rounded-md text-left space-y-2">
+                                    <p className="text-sm font-semibold text-slate-800">离子分组 (可选)</p>
+                                    <p className="text-xs text-slate-500">查找同一 RT 窗口内 m/z 差值符合加合物或 13C 同位素间距的特征，写入 Feature_Group 与 Ion_Type 列。使用当前的匹配容差 ({massTolerance.value} {massTolerance.unit}) 与 RT 窗口 ({rtWindow} min)。</p>
+                                    <div className="flex items-center gap-2">
+                                        <select
+                                            value={ionPolarity}
+                                            onChange={(e) => setIonPolarity(e.target.value as IonPolarity)}
+                                            disabled={isLoading}
+                                            className="flex-1 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                        >
+                                            {Object.entries(ION_POLARITY_LABELS).map(([polarity, label]) => <option key={polarity} value={polarity}>{label}</option>)}
+                                        </select>
+                                        <button
+                                            onClick={handleIonGrouping}
+                                            disabled={!dereplicationData || isLoading}
+                                            className="px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors disabled:bg-slate-100 font-semibold text-sm"
+                                        >
+                                            执行离子分组
+                                        </button>
+                                    </div>
+                                    {dereplicationData?.headers.includes('Feature_Group') && (
+                                        <label className="flex items-center text-sm text-slate-700">
+                                            <input
+                                                type="checkbox"
+                                                checked={useIonGroups}
+                                                onChange={(e) => setUseIonGroups(e.target.checked)}
+                                                disabled={isLoading}
+                                                className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                            />
+                                            去重时将中性质量一致的特征组视为同一化合物
+                                        </label>
+                                    )}
+                                </div>
                                 <button
                                     onClick={handleDereplication}
                                     disabled={!dereplicationData || isLoading}
@@ -1082,6 +2636,7 @@ ${chunk.join('\n')}`;
                                 >
                                     执行去重
                                 </button>
+                                </div>
                             ) : (
                                 <div className="space-y-3">
                                 <button
@@ -1105,7 +2660,13 @@ ${chunk.join('\n')}`;
                     </div>
                 </div>
                 {isDereplicated && (
-                    <div className="mt-6 text-center">
+                    <div className="mt-6 text-center space-x-4">
+                        <button
+                            onClick={handleLoadDereplicationDataForFeatureFilter}
+                            className="px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors font-semibold"
+                        >
+                           将结果用于空白扣除
+                        </button>
                         <button
                             onClick={handleLoadDataForFiltering}
                             className="px-5 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors font-semibold"
@@ -1115,6 +2676,197 @@ ${chunk.join('\n')}`;
                     </div>
                 )}
             </section>
+
+            <section ref={featureFilterToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                 <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <FilterIcon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">特征过滤工具</h2>
+                </div>
+                <p className="text-slate-600 mb-6">按空白信号、检出率、QC 稳定性与源内碎片对全部特征进行质量过滤，包括未注释和注释唯一的特征。被移除的特征会标注原因，并在下载文件的“已移除”工作表中列出。</p>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-8 items-start">
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                         <h3 className="font-semibold text-slate-800 mb-2">第 1 步: 加载数据</h3>
+                         <p className="text-xs text-slate-500 mb-4">从上方流程或去重结果加载，或直接上传文件。</p>
+                         <FileUpload
+                            onFileSelect={handleFeatureFilterFileProcess}
+                            disabled={isLoading}
+                            title="点击上传待过滤文件"
+                         />
+                         {mergedData && (
+                            <button
+                                onClick={handleLoadWorkflowDataForFeatureFilter}
+                                disabled={isLoading}
+                                className="mt-2 w-full text-sm font-medium text-sky-600 hover:text-sky-700 disabled:text-slate-400"
+                            >
+                                使用流程结果
+                            </button>
+                         )}
+                         {featureFilterData && (
+                           <p className="text-sm text-green-700 mt-2 text-center">
+                                ✓ 已加载 {featureFilterData.rows.length} 行数据。
+                           </p>
+                         )}
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">第 2 步: 空白扣除</h3>
+                        <p className="text-xs text-slate-500 mb-4">空白列由样本信息表或列名中的 “blank” 识别；空白中未检出的特征始终保留。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>最小样本/空白倍数</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.5"
+                                value={minBlankFold}
+                                onChange={(e) => setMinBlankFold(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <button
+                            onClick={handleApplyBlankFilter}
+                            disabled={!featureFilterData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行空白扣除
+                        </button>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">第 3 步: 检出率与 QC 过滤</h3>
+                        <p className="text-xs text-slate-500 mb-4">按组模式下，特征只需在任一组中达到检出率下限即可保留 (“80% 规则”)。没有 QC 列时仅按检出率过滤。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>检出率计算方式</span>
+                            <select
+                                value={qualityFilterSettings.detectionMode}
+                                onChange={(e) => setQualityFilterSettings(prev => ({ ...prev, detectionMode: e.target.value as QualityFilterSettings['detectionMode'] }))}
+                                disabled={isLoading}
+                                className="w-32 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                <option value="group">按组</option>
+                                <option value="overall">全部样本</option>
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>最低检出率 (%)</span>
+                            <input
+                                type="number"
+                                min="0"
+                                max="100"
+                                value={qualityFilterSettings.minDetectionRate}
+                                onChange={(e) => setQualityFilterSettings(prev => ({ ...prev, minDetectionRate: Number(e.target.value) }))}
+                                disabled={isLoading}
+                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>QC RSD 上限 (%)</span>
+                            <input
+                                type="number"
+                                min="0"
+                                value={qualityFilterSettings.maxQcRsd}
+                                onChange={(e) => setQualityFilterSettings(prev => ({ ...prev, maxQcRsd: Number(e.target.value) }))}
+                                disabled={isLoading}
+                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <button
+                            onClick={handleApplyQualityFilter}
+                            disabled={!featureFilterData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行质量过滤
+                        </button>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">第 4 步: 源内碎片</h3>
+                        <p className="text-xs text-slate-500 mb-4">在 RT 窗口 ({rtWindow} min) 内，与 m/z 更高的特征在各样本间高度相关的特征被标记为疑似源内碎片。m/z 差值相当于 13C 同位素或完整加合物差值 ({ION_POLARITY_LABELS[ionPolarity]}, {massTolerance.value} {massTolerance.unit}) 的特征对，以及同一质量一致的 Feature_Group 中的特征不会被视为碎片与母离子；相差 H2O 或 NH3 的特征对始终参与碎片检测。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>相关系数</span>
+                            <select
+                                value={fragmentSettings.method}
+                                onChange={(e) => setFragmentSettings(prev => ({ ...prev, method: e.target.value as CorrelationMethod }))}
+                                disabled={isLoading}
+                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(CORRELATION_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>最小相关系数</span>
+                            <input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.01"
+                                value={fragmentSettings.minCorrelation}
+                                onChange={(e) => setFragmentSettings(prev => ({ ...prev, minCorrelation: Number(e.target.value) }))}
+                                disabled={isLoading}
+                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <label className="flex items-center text-sm text-slate-700">
+                            <input
+                                type="checkbox"
+                                checked={excludeFragments}
+                                onChange={(e) => setExcludeFragments(e.target.checked)}
+                                disabled={isLoading}
+                                className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                            />
+                            剔除被标记的特征
+                        </label>
+                        <button
+                            onClick={handleFragmentDetection}
+                            disabled={!featureFilterData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            检测源内碎片
+                        </button>
+                    </div>
+                </div>
+                {featureFilterData && featureFilterHistory.length > 0 && (
+                    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                        <p className="text-sm font-semibold text-slate-800 mb-2">
+                            保留 {getRetainedData(featureFilterData).rows.length} / {featureFilterData.rows.length} 个特征
+                        </p>
+                        <ul className="text-sm text-slate-700 space-y-1 mb-4">
+                            {Object.entries(summarizeRemovalReasons(featureFilterData)).map(([reason, count]) => (
+                                <li key={reason}>{reason}: <span className="font-semibold">{count}</span></li>
+                            ))}
+                        </ul>
+                        <div className="flex flex-wrap justify-center gap-4">
+                            <button
+                                onClick={handleUndoFeatureFilter}
+                                disabled={isLoading}
+                                className="px-5 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:bg-slate-400 font-semibold"
+                            >
+                                撤销上一步过滤
+                            </button>
+                            <button
+                                onClick={handleDownloadFeatureFilterResult}
+                                disabled={isLoading}
+                                className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+                            >
+                                <DownloadIcon className="w-5 h-5 mr-2"/>
+                                下载过滤结果
+                            </button>
+                            <button
+                                onClick={handleLoadFeatureFilterDataForFiltering}
+                                className="px-5 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors font-semibold"
+                            >
+                               将结果用于污染物过滤
+                            </button>
+                            <button
+                                onClick={handleLoadFeatureFilterDataForPreprocessing}
+                                className="px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors font-semibold"
+                            >
+                               将结果用于数据预处理
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </section>
             
             <section ref={filterToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
                  <div className="flex items-center mb-4">
@@ -1180,6 +2932,122 @@ ${chunk.join('\n')}`;
                                 ✓ 已加载 {contaminantList.size} 个过滤项。
                              </p>
                          )}
+                        <div className="space-y-2">
+                            <p className="text-sm font-medium text-slate-700">匹配方式</p>
+                            {([
+                                ['caseInsensitive', '忽略大小写'],
+                                ['patterns', '识别正则 (/.../) 与通配符 (* ?)'],
+                                ['inchiKey', '按 InChIKey 首段匹配 InChIkey2D 列'],
+                            ] as [keyof ContaminantMatchSettings, string][]).map(([key, label]) => (
+                                <label key={key} className="flex items-center text-sm text-slate-700">
+                                    <input
+                                        type="checkbox"
+                                        checked={contaminantMatchSettings[key]}
+                                        onChange={(e) => setContaminantMatchSettings(prev => ({ ...prev, [key]: e.target.checked }))}
+                                        disabled={isLoading}
+                                        className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                        <div>
+                            <p className="text-xs text-slate-500 mb-2">同义词表 (可选，需含 "name" 与 "synonyms" 列，同义词以 ; 或 | 分隔)。</p>
+                            <FileUpload
+                                onFileSelect={handleSynonymFileProcess}
+                                disabled={isLoading}
+                                title="上传同义词表"
+                            />
+                            {synonymGroups.length > 0 && (
+                                <p className="text-sm text-green-700 mt-2 text-center">
+                                    ✓ 已加载 {synonymGroups.length} 组同义词。
+                                </p>
+                            )}
+                        </div>
+                        <div className="space-y-2 pt-2 border-t border-slate-200">
+                            <label className="flex items-center text-sm font-medium text-slate-700">
+                                <input
+                                    type="checkbox"
+                                    checked={librarySettings.enabled}
+                                    onChange={(e) => setLibrarySettings(prev => ({ ...prev, enabled: e.target.checked }))}
+                                    disabled={isLoading || !canMatchLibrary}
+                                    className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                />
+                                按内置污染物质量库匹配 MZ
+                            </label>
+                            {filterToolData && !canMatchLibrary && (
+                                <p className="text-xs text-amber-700">数据缺少 'MZ' 列，无法使用质量库。</p>
+                            )}
+                            {librarySettings.enabled && canMatchLibrary && (
+                                <>
+                                    <div className="flex gap-2">
+                                        <div>
+                                            <label htmlFor="library-ppm" className="block text-xs text-slate-600 mb-1">质量窗口 (ppm)</label>
+                                            <input
+                                                id="library-ppm"
+                                                type="number"
+                                                min={0.1}
+                                                step={0.5}
+                                                value={librarySettings.ppm}
+                                                onChange={(e) => setLibrarySettings(prev => ({ ...prev, ppm: Math.max(0.1, Number(e.target.value) || 0.1) }))}
+                                                className="w-24 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                                disabled={isLoading}
+                                            />
+                                        </div>
+                                        <div className="flex-1">
+                                            <label htmlFor="library-polarity" className="block text-xs text-slate-600 mb-1">离子模式</label>
+                                            <select
+                                                id="library-polarity"
+                                                value={librarySettings.polarity}
+                                                onChange={(e) => setLibrarySettings(prev => ({ ...prev, polarity: e.target.value as IonPolarity }))}
+                                                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                                disabled={isLoading}
+                                            >
+                                                {(Object.keys(ION_POLARITY_LABELS) as IonPolarity[]).map(polarity => (
+                                                    <option key={polarity} value={polarity}>{ION_POLARITY_LABELS[polarity]}</option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-1">
+                                        {(Object.keys(CONTAMINANT_CATEGORY_LABELS) as ContaminantCategory[]).map(category => (
+                                            <label key={category} className="flex items-center text-xs text-slate-700">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={librarySettings.categories.includes(category)}
+                                                    onChange={() => toggleLibraryCategory(category)}
+                                                    disabled={isLoading}
+                                                    className="mr-1.5 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                                />
+                                                {CONTAMINANT_CATEGORY_LABELS[category]}
+                                            </label>
+                                        ))}
+                                    </div>
+                                    <button
+                                        onClick={handleFlagLibraryContaminants}
+                                        disabled={isLoading || !libraryHits || libraryHits.size === 0}
+                                        className="w-full px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                                    >
+                                        仅标记匹配的特征 ({libraryHits?.size ?? 0})
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                        <div>
+                            <label htmlFor="max-msi-level" className="block text-sm font-medium text-slate-700 mb-1">MSI 鉴定等级上限 (可选)</label>
+                            <select
+                                id="max-msi-level"
+                                value={maxMsiLevel ?? ''}
+                                onChange={(e) => setMaxMsiLevel(e.target.value ? Number(e.target.value) as MsiLevel : null)}
+                                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                disabled={isLoading}
+                            >
+                                <option value="">不按等级过滤</option>
+                                {([1, 2, 3, 4] as MsiLevel[]).map(level => (
+                                    <option key={level} value={level}>仅保留 ≤ {MSI_LEVEL_LABELS[level]}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
 
                     <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
@@ -1189,10 +3057,10 @@ ${chunk.join('\n')}`;
                             {!isFiltered ? (
                                 <button
                                     onClick={handleApplyFilter}
-                                    disabled={!filterToolData || !contaminantList || isLoading}
+                                    disabled={!filterToolData || (!contaminantList && !libraryHits && maxMsiLevel === null) || isLoading}
                                     className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
                                 >
-                                    应用过滤列表
+                                    {contaminantPreview ? `应用过滤列表 (移除 ${contaminantRowsToRemove.size} 行)` : '应用过滤列表'}
                                 </button>
                             ) : (
                                 <>
@@ -1217,8 +3085,35 @@ ${chunk.join('\n')}`;
                     </div>
                 </div>
 
+                {contaminantPreview && filterToolData && (
+                    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800">匹配预览</h3>
+                        <p className="text-xs text-slate-500">
+                            以下为每个过滤项将移除的行。取消勾选可在本次过滤中跳过该项；启用的过滤项共将移除 {contaminantRowsToRemove.size} 行 (不含 MSI 等级过滤)。
+                        </p>
+                        <ContaminantPreview
+                            matches={contaminantPreview}
+                            rows={filterToolData.rows}
+                            disabledEntries={disabledContaminantEntries}
+                            onToggleEntry={toggleContaminantEntry}
+                        />
+                    </div>
+                )}
+
                  {(isFiltered) && (
-                    <div className="mt-6 text-center">
+                    <div className="mt-6 text-center space-x-4">
+                        <button
+                            onClick={handleLoadFilterDataForPreprocessing}
+                            className="px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors font-semibold"
+                        >
+                           将结果用于数据预处理
+                        </button>
+                        <button
+                            onClick={handleLoadFilterDataForStats}
+                            className="px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors font-semibold"
+                        >
+                           将结果用于统计分析
+                        </button>
                         <button
                             onClick={handleLoadDataForExplanation}
                             className="px-5 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors font-semibold"
@@ -1229,6 +3124,630 @@ ${chunk.join('\n')}`;
                 )}
             </section>
 
+            <section ref={preprocessToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                 <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <AdjustmentsIcon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">数据预处理</h2>
+                </div>
+                <p className="text-slate-600 mb-6">在统计分析之前处理强度列。样本列与 QC 列按样本信息表或列名前缀识别，空白列不参与处理。每一步都可以撤销。</p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                         <h3 className="font-semibold text-slate-800 mb-2">加载数据</h3>
+                         <p className="text-xs text-slate-500 mb-4">从过滤结果加载，或直接上传文件。</p>
+                         <FileUpload
+                            onFileSelect={handlePreprocessFileProcess}
+                            disabled={isLoading}
+                            title="点击上传待处理文件"
+                         />
+                         {preprocessData && (
+                           <p className="text-sm text-green-700 mt-2 text-center">
+                                ✓ 已加载 {preprocessData.rows.length} 行数据。
+                           </p>
+                         )}
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">缺失值插补</h3>
+                        <p className="text-xs text-slate-500 mb-4">0 或空值视为缺失。插补的单元格会在预览中高亮，并在下载文件的“插补记录”工作表中列出。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>插补方法</span>
+                            <select
+                                value={imputationSettings.method}
+                                onChange={(e) => setImputationSettings(prev => ({ ...prev, method: e.target.value as ImputationMethod }))}
+                                disabled={isLoading}
+                                className="w-36 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(IMPUTATION_METHOD_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                            </select>
+                        </label>
+                        {imputationSettings.method === 'constant' && (
+                            <label className="flex items-center justify-between text-sm text-slate-700">
+                                <span>常数值</span>
+                                <input
+                                    type="number"
+                                    min="0"
+                                    value={imputationSettings.constant}
+                                    onChange={(e) => setImputationSettings(prev => ({ ...prev, constant: Number(e.target.value) }))}
+                                    disabled={isLoading}
+                                    className="w-36 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                />
+                            </label>
+                        )}
+                        {imputationSettings.method === 'knn' && (
+                            <label className="flex items-center justify-between text-sm text-slate-700">
+                                <span>近邻数 k</span>
+                                <input
+                                    type="number"
+                                    min="1"
+                                    step="1"
+                                    value={imputationSettings.k}
+                                    onChange={(e) => setImputationSettings(prev => ({ ...prev, k: Number(e.target.value) }))}
+                                    disabled={isLoading}
+                                    className="w-36 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                />
+                            </label>
+                        )}
+                        <button
+                            onClick={handleImputation}
+                            disabled={!preprocessData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行插补
+                        </button>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">样本归一化</h3>
+                        <p className="text-xs text-slate-500 mb-4">校正各样本间的整体强度差异。PQN 以 QC 样本的中位数作为参考谱。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>归一化方法</span>
+                            <select
+                                value={normalizationMethod}
+                                onChange={(e) => setNormalizationMethod(e.target.value as NormalizationMethod)}
+                                disabled={isLoading}
+                                className="w-36 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(NORMALIZATION_METHOD_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                            </select>
+                        </label>
+                        {normalizationMethod === 'internalStandard' && (
+                            <textarea
+                                rows={3}
+                                value={internalStandardText}
+                                onChange={(e) => setInternalStandardText(e.target.value)}
+                                placeholder="内标的 ID，每行一个或以逗号分隔"
+                                className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                disabled={isLoading}
+                            />
+                        )}
+                        <button
+                            onClick={handleNormalization}
+                            disabled={!preprocessData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行归一化
+                        </button>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">信号漂移校正</h3>
+                        <p className="text-xs text-slate-500 mb-4">按进样顺序对每个特征的 QC 强度拟合 LOESS 曲线 (QC-RLSC)，并据此校正所有样本。进样顺序来自进样序列表，未上传时使用样本信息表中的 InjectionOrder 列。</p>
+                        <FileUpload
+                            onFileSelect={handleRunListFileProcess}
+                            disabled={isLoading}
+                            title="上传进样序列表 (可选)"
+                        />
+                        {runListOrder && (
+                            <p className="text-sm text-green-700 text-center">
+                                ✓ 已加载 {Object.keys(runListOrder).length} 个样本的进样顺序。
+                                <button onClick={() => setRunListOrder(null)} className="ml-2 text-amber-600 hover:text-amber-700 font-medium">移除</button>
+                            </p>
+                        )}
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>LOESS 平滑跨度</span>
+                            <input
+                                type="number"
+                                min="0.1"
+                                max="1"
+                                step="0.05"
+                                value={driftSpan}
+                                onChange={(e) => setDriftSpan(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-36 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <button
+                            onClick={handleDriftCorrection}
+                            disabled={!preprocessData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行漂移校正
+                        </button>
+                    </div>
+                </div>
+                {preprocessData && preprocessHistory.length > 0 && (
+                    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-4">
+                        <div className="text-sm text-slate-700">
+                            <p className="font-semibold text-slate-800 mb-1">已执行的步骤</p>
+                            <ol className="list-decimal list-inside space-y-1">
+                                {preprocessHistory.map((entry, index) => <li key={index}>{entry.label}</li>)}
+                            </ol>
+                            <p className="mt-2">
+                                累计插补 {preprocessData.rows.reduce((sum, row) => sum + getImputedColumns(row).length, 0)} 个单元格，涉及 {preprocessData.rows.filter(row => getImputedColumns(row).length > 0).length} 个特征。
+                            </p>
+                        </div>
+                        <div>
+                            <p className="text-sm font-semibold text-slate-800 mb-2">上一步前后的样本汇总: {preprocessHistory[preprocessHistory.length - 1].label}</p>
+                            {(() => {
+                                const { sampleCols, qcCols } = classifySampleColumns(preprocessData.headers, sampleMetadata);
+                                const cols = [...sampleCols, ...qcCols];
+                                return <SampleSummaryTable before={summarizeSamples(preprocessHistory[preprocessHistory.length - 1].data, cols)} after={summarizeSamples(preprocessData, cols)} />;
+                            })()}
+                        </div>
+                        {driftContext && (
+                            <DriftCorrectionReport {...driftContext} maxRsd={qualityFilterSettings.maxQcRsd} />
+                        )}
+                        <div className="flex flex-wrap justify-center gap-4">
+                            <button
+                                onClick={handleLoadPreprocessDataForStats}
+                                disabled={isLoading}
+                                className="px-5 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors disabled:bg-slate-100 font-semibold"
+                            >
+                                将结果用于统计分析
+                            </button>
+                            <button
+                                onClick={handleUndoPreprocess}
+                                disabled={isLoading}
+                                className="px-5 py-2 bg-amber-600 text-white rounded-md hover:bg-amber-700 transition-colors disabled:bg-slate-400 font-semibold"
+                            >
+                                撤销上一步
+                            </button>
+                            <button
+                                onClick={handleDownloadPreprocessResult}
+                                disabled={isLoading}
+                                className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+                            >
+                                <DownloadIcon className="w-5 h-5 mr-2"/>
+                                下载处理结果
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </section>
+
+            <section ref={statsToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                 <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <ChartBarIcon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">统计分析</h2>
+                </div>
+                <p className="text-slate-600 mb-6">比较两个分组中每个特征的强度，计算倍数变化、P 值与 Benjamini–Hochberg 校正后的 FDR。分组按样本信息表或列名前缀识别。</p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                         <h3 className="font-semibold text-slate-800 mb-2">加载数据</h3>
+                         <p className="text-xs text-slate-500 mb-4">从预处理或过滤结果加载，或直接上传文件。</p>
+                         <FileUpload
+                            onFileSelect={handleStatsFileProcess}
+                            disabled={isLoading}
+                            title="点击上传待分析文件"
+                         />
+                         {statsData && (
+                           <p className="text-sm text-green-700 mt-2 text-center">
+                                ✓ 已加载 {statsData.rows.length} 行数据，识别到 {Object.keys(statsGroups).length} 个分组。
+                           </p>
+                         )}
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">差异分析</h3>
+                        <p className="text-xs text-slate-500 mb-4">倍数变化为分组 B 均值除以分组 A 均值。0 或空值不参与计算。</p>
+                        {([['分组 A (对照)', statsGroupA, setStatsGroupA], ['分组 B (处理)', statsGroupB, setStatsGroupB]] as const).map(([label, value, setValue]) => (
+                            <label key={label} className="flex items-center justify-between text-sm text-slate-700">
+                                <span>{label}</span>
+                                <select
+                                    value={value}
+                                    onChange={(e) => setValue(e.target.value)}
+                                    disabled={!statsData || isLoading}
+                                    className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                >
+                                    <option value="">选择分组</option>
+                                    {Object.entries(statsGroups).map(([group, cols]) => <option key={group} value={group}>{group} ({cols.length})</option>)}
+                                </select>
+                            </label>
+                        ))}
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>检验方法</span>
+                            <select
+                                value={statsTest}
+                                onChange={(e) => setStatsTest(e.target.value as DifferentialTest)}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(DIFFERENTIAL_TEST_LABELS).map(([test, label]) => <option key={test} value={test}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center text-sm text-slate-700">
+                            <input
+                                type="checkbox"
+                                checked={statsLogTransform}
+                                onChange={(e) => setStatsLogTransform(e.target.checked)}
+                                disabled={isLoading}
+                                className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                            />
+                            检验前进行 log2 转换
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>FDR 阈值</span>
+                            <input
+                                type="number"
+                                min="0"
+                                max="1"
+                                step="0.01"
+                                value={statsMaxFdr}
+                                onChange={(e) => setStatsMaxFdr(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>|log2 倍数变化| 阈值</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={statsMinLog2Fc}
+                                onChange={(e) => setStatsMinLog2Fc(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <button
+                            onClick={handleDifferentialAnalysis}
+                            disabled={!statsData || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行差异分析
+                        </button>
+                    </div>
+                </div>
+                {statsData && statsResults && (() => {
+                    const significant = statsResults.results.filter(r => isSignificant(r, statsMaxFdr, statsMinLog2Fc));
+                    const up = significant.filter(r => r.log2FoldChange! > 0).length;
+                    const selected = statsResults.results.find(r => r.rowIndex === selectedStatsFeature);
+                    return (
+                        <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-4">
+                            <p className="text-sm text-slate-700">
+                                <span className="font-semibold text-slate-800">{statsResults.groupB} vs {statsResults.groupA}:</span> FDR ≤ {statsMaxFdr} 且 |log2FC| ≥ {statsMinLog2Fc} 的特征共 {significant.length} 个，其中上调 {up} 个，下调 {significant.length - up} 个。
+                            </p>
+                            <VolcanoPlot
+                                results={statsResults.results}
+                                labelOf={statsFeatureLabel}
+                                maxFdr={statsMaxFdr}
+                                minAbsLog2Fc={statsMinLog2Fc}
+                                selectedIndex={selectedStatsFeature}
+                                onSelect={setSelectedStatsFeature}
+                            />
+                            {selected && (
+                                <div className="text-sm text-slate-700 bg-white border border-slate-200 rounded-md p-3">
+                                    <p className="font-semibold text-slate-800 mb-1">{statsFeatureLabel(selected.rowIndex)}</p>
+                                    <ul className="space-y-1">
+                                        <li>均值 {statsResults.groupA}: {selected.meanA !== null ? selected.meanA.toPrecision(4) : '-'} · 均值 {statsResults.groupB}: {selected.meanB !== null ? selected.meanB.toPrecision(4) : '-'}</li>
+                                        <li>倍数变化: {selected.foldChange !== null ? selected.foldChange.toPrecision(4) : '-'} (log2 {selected.log2FoldChange !== null ? selected.log2FoldChange.toFixed(3) : '-'})</li>
+                                        <li>P 值: {selected.pValue !== null ? selected.pValue.toExponential(3) : '-'} · FDR: {selected.fdr !== null ? selected.fdr.toExponential(3) : '-'}</li>
+                                    </ul>
+                                </div>
+                            )}
+                            <div className="flex justify-center">
+                                <button
+                                    onClick={handleDownloadStatsResult}
+                                    disabled={isLoading}
+                                    className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+                                >
+                                    <DownloadIcon className="w-5 h-5 mr-2"/>
+                                    下载差异分析结果
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })()}
+            </section>
+
+            <section className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                 <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <ChartBarIcon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">多变量分析</h2>
+                </div>
+                <p className="text-slate-600 mb-6">对当前数据进行 PCA 与 PLS-DA。样本按分组着色，分组按样本信息表或列名前缀识别。0 或空值以该特征最小观测值的一半填补。</p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 items-start">
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">数据与缩放</h3>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>数据来源</span>
+                            <select
+                                value={activeMultivariateSource?.key ?? ''}
+                                onChange={(e) => setMultivariateSource(e.target.value)}
+                                disabled={multivariateSources.length === 0 || isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {multivariateSources.length === 0 && <option value="">暂无数据</option>}
+                                {multivariateSources.map(source => <option key={source.key} value={source.key}>{source.label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center text-sm text-slate-700">
+                            <input
+                                type="checkbox"
+                                checked={multivariateLogTransform}
+                                onChange={(e) => setMultivariateLogTransform(e.target.checked)}
+                                disabled={isLoading}
+                                className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                            />
+                            log2 转换
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>缩放方法</span>
+                            <select
+                                value={multivariateScaling}
+                                onChange={(e) => setMultivariateScaling(e.target.value as ScalingMethod)}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(SCALING_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                            </select>
+                        </label>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">PCA</h3>
+                        <p className="text-xs text-slate-500 mb-4">无监督的主成分分析，用于查看样本的整体分布、QC 的聚集程度与离群样本。</p>
+                        <label className="flex items-center text-sm text-slate-700">
+                            <input
+                                type="checkbox"
+                                checked={multivariateIncludeQc}
+                                onChange={(e) => setMultivariateIncludeQc(e.target.checked)}
+                                disabled={isLoading}
+                                className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                            />
+                            包含 QC 样本 (仅用于 PCA)
+                        </label>
+                        <button
+                            onClick={handleRunPca}
+                            disabled={multivariateSources.length === 0 || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行 PCA
+                        </button>
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">PLS-DA</h3>
+                        <p className="text-xs text-slate-500 mb-4">以分组为响应的有监督模型，只使用生物样本：QC 样本始终不参与有监督模型，不受 PCA 中“包含 QC 样本”选项的影响。Q2 来自交叉验证，置换检验用于判断模型是否过拟合。</p>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>成分数</span>
+                            <input
+                                type="number"
+                                min="1"
+                                step="1"
+                                value={plsdaComponents}
+                                onChange={(e) => setPlsdaComponents(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>置换次数</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="10"
+                                value={plsdaPermutations}
+                                onChange={(e) => setPlsdaPermutations(Number(e.target.value))}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            />
+                        </label>
+                        <button
+                            onClick={handleRunPlsda}
+                            disabled={multivariateSources.length === 0 || isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            执行 PLS-DA
+                        </button>
+                    </div>
+                </div>
+                {pcaResult && pcaResult.pca.explained.length >= 2 && (
+                    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-4">
+                        <p className="text-sm text-slate-700">
+                            <span className="font-semibold text-slate-800">PCA:</span> {pcaResult.matrix.samples.length} 个样本，{pcaResult.matrix.featureRows.length} 个特征。各主成分解释的方差: {pcaResult.pca.explained.map((v, a) => `PC${a + 1} ${(v * 100).toFixed(1)}%`).join('，')}
+                        </p>
+                        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                            <div>
+                                <p className="text-sm font-semibold text-slate-800 mb-2">得分图</p>
+                                <ScatterPlot
+                                    points={pcaResult.matrix.samples.map((sample, i) => ({ x: pcaResult.pca.scores[i][0], y: pcaResult.pca.scores[i][1], label: sample, group: pcaResult.matrix.groups[i] }))}
+                                    xLabel={`PC1 (${(pcaResult.pca.explained[0] * 100).toFixed(1)}%)`}
+                                    yLabel={`PC2 (${(pcaResult.pca.explained[1] * 100).toFixed(1)}%)`}
+                                />
+                            </div>
+                            <div>
+                                <p className="text-sm font-semibold text-slate-800 mb-2">载荷图</p>
+                                <ScatterPlot
+                                    points={pcaResult.matrix.featureRows.map((rowIndex, j) => ({ x: pcaResult.pca.loadings[j][0], y: pcaResult.pca.loadings[j][1], label: describeFeature(pcaResult.data, rowIndex) }))}
+                                    xLabel="PC1 载荷"
+                                    yLabel="PC2 载荷"
+                                    pointRadius={2.5}
+                                />
+                            </div>
+                        </div>
+                    </div>
+                )}
+                {plsdaResult && (() => {
+                    const { data, matrix, result } = plsdaResult;
+                    const topVip = matrix.featureRows
+                        .map((rowIndex, j) => ({ rowIndex, vip: result.vip[j] }))
+                        .sort((a, b) => b.vip - a.vip)
+                        .slice(0, 15);
+                    const maxVip = topVip[0]?.vip || 1;
+                    return (
+                        <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-4">
+                            <ul className="text-sm text-slate-700 space-y-1">
+                                <li><span className="font-semibold text-slate-800">PLS-DA:</span> {matrix.samples.length} 个样本，{matrix.featureRows.length} 个特征，{result.scores[0].length} 个成分。</li>
+                                <li>R2X = {result.r2x.toFixed(3)}，R2Y = {result.r2y.toFixed(3)}，Q2 = {result.q2.toFixed(3)} ({result.folds} 折交叉验证)</li>
+                                {result.permutation && (
+                                    <li>置换检验 ({result.permutation.q2.length} 次): R2Y 的 P = {result.permutation.pR2y.toFixed(3)}，Q2 的 P = {result.permutation.pQ2.toFixed(3)}，置换模型 Q2 最大值 {Math.max(...result.permutation.q2).toFixed(3)}</li>
+                                )}
+                            </ul>
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                <div>
+                                    <p className="text-sm font-semibold text-slate-800 mb-2">得分图</p>
+                                    <ScatterPlot
+                                        points={matrix.samples.map((sample, i) => ({ x: result.scores[i][0], y: result.scores[i][1] ?? 0, label: sample, group: matrix.groups[i] }))}
+                                        xLabel="t1"
+                                        yLabel={result.scores[0].length > 1 ? 't2' : '-'}
+                                    />
+                                </div>
+                                <div>
+                                    <p className="text-sm font-semibold text-slate-800 mb-2">VIP 最高的 {topVip.length} 个特征</p>
+                                    <ul className="space-y-1">
+                                        {topVip.map(({ rowIndex, vip }) => (
+                                            <li key={rowIndex} className="text-xs text-slate-700">
+                                                <div className="flex justify-between"><span className="truncate mr-2">{describeFeature(data, rowIndex)}</span><span>{vip.toFixed(2)}</span></div>
+                                                <div className="h-1.5 bg-slate-200 rounded"><div className={`h-1.5 rounded ${vip >= 1 ? 'bg-sky-600' : 'bg-slate-400'}`} style={{ width: `${(vip / maxVip) * 100}%` }} /></div>
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            </div>
+                            <div className="flex justify-center">
+                                <button
+                                    onClick={handleDownloadVip}
+                                    disabled={isLoading}
+                                    className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+                                >
+                                    <DownloadIcon className="w-5 h-5 mr-2"/>
+                                    下载 VIP 结果
+                                </button>
+                            </div>
+                        </div>
+                    );
+                })()}
+            </section>
+
+            <section className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+                 <div className="flex items-center mb-4">
+                    <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                        <Squares2X2Icon className="w-6 h-6 text-sky-600" />
+                    </div>
+                    <h2 className="text-2xl font-bold text-slate-900">聚类热图</h2>
+                </div>
+                <p className="text-slate-600 mb-6">以热图展示所选特征在各样本中的 log2 强度，可对行与列进行层次聚类，样本上方的色条标示分组。</p>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">选择特征</h3>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>选择方式</span>
+                            <select
+                                value={heatmapSelection}
+                                onChange={(e) => setHeatmapSelection(e.target.value as 'pValue' | 'vip' | 'manual')}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                <option value="pValue">P 值最小的特征</option>
+                                <option value="vip">VIP 最高的特征</option>
+                                <option value="manual">手动输入 ID</option>
+                            </select>
+                        </label>
+                        {heatmapSelection === 'manual' ? (
+                            <>
+                                <textarea
+                                    rows={4}
+                                    value={heatmapIdsText}
+                                    onChange={(e) => setHeatmapIdsText(e.target.value)}
+                                    placeholder="特征 ID，每行一个或以逗号分隔"
+                                    className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                    disabled={isLoading}
+                                />
+                                <p className="text-xs text-slate-500">使用多变量分析中选择的数据来源{activeMultivariateSource ? ` (${activeMultivariateSource.label})` : ''}，显示所有生物样本。</p>
+                            </>
+                        ) : (
+                            <>
+                                <label className="flex items-center justify-between text-sm text-slate-700">
+                                    <span>特征数</span>
+                                    <input
+                                        type="number"
+                                        min="2"
+                                        max="500"
+                                        step="1"
+                                        value={heatmapTopN}
+                                        onChange={(e) => setHeatmapTopN(Number(e.target.value))}
+                                        disabled={isLoading}
+                                        className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                                    />
+                                </label>
+                                <p className="text-xs text-slate-500">
+                                    {heatmapSelection === 'pValue'
+                                        ? (statsResults ? `来自统计分析 (${statsResults.groupB} vs ${statsResults.groupA})，显示这两个分组的样本。` : '需要先在统计分析中执行差异分析。')
+                                        : (plsdaResult ? '来自多变量分析中的 PLS-DA 模型，显示建模所用的样本。' : '需要先在多变量分析中执行 PLS-DA。')}
+                                </p>
+                            </>
+                        )}
+                    </div>
+                    <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg space-y-3">
+                        <h3 className="font-semibold text-slate-800 mb-2">聚类与缩放</h3>
+                        <div className="flex flex-wrap gap-4 text-sm text-slate-700">
+                            {([['聚类行 (特征)', heatmapClusterRows, setHeatmapClusterRows], ['聚类列 (样本)', heatmapClusterCols, setHeatmapClusterCols], ['按行 z-score', heatmapZScore, setHeatmapZScore]] as const).map(([label, checked, setChecked]) => (
+                                <label key={label} className="flex items-center">
+                                    <input
+                                        type="checkbox"
+                                        checked={checked}
+                                        onChange={(e) => setChecked(e.target.checked)}
+                                        disabled={isLoading}
+                                        className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500"
+                                    />
+                                    {label}
+                                </label>
+                            ))}
+                        </div>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>距离</span>
+                            <select
+                                value={heatmapDistance}
+                                onChange={(e) => setHeatmapDistance(e.target.value as DistanceMetric)}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(DISTANCE_LABELS).map(([metric, label]) => <option key={metric} value={metric}>{label}</option>)}
+                            </select>
+                        </label>
+                        <label className="flex items-center justify-between text-sm text-slate-700">
+                            <span>连接方式</span>
+                            <select
+                                value={heatmapLinkage}
+                                onChange={(e) => setHeatmapLinkage(e.target.value as LinkageMethod)}
+                                disabled={isLoading}
+                                className="w-44 px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+                            >
+                                {Object.entries(LINKAGE_LABELS).map(([method, label]) => <option key={method} value={method}>{label}</option>)}
+                            </select>
+                        </label>
+                        <button
+                            onClick={handleBuildHeatmap}
+                            disabled={isLoading}
+                            className="w-full px-5 py-3 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 font-semibold"
+                        >
+                            绘制热图
+                        </button>
+                    </div>
+                </div>
+                {heatmapResult && (
+                    <div className="mt-6 p-4 bg-slate-50 border border-slate-200 rounded-lg">
+                        <Heatmap {...heatmapResult} fileName="heatmap" />
+                    </div>
+                )}
+            </section>
+
             <section ref={identificationToolRef} className="bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
                  <div className="flex items-center mb-4">
                     <div className="bg-sky-100 p-2 rounded-lg mr-4">
@@ -1433,17 +3952,95 @@ ${chunk.join('\n')}`;
            <DataTable data={displayData} />
         </div>
 
+        <section className="mt-12 bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+            <div className="flex items-center mb-4">
+                <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                    <ChartBarIcon className="w-6 h-6 text-sky-600" />
+                </div>
+                <h2 className="text-2xl font-bold text-slate-900">处理报告</h2>
+            </div>
+            <p className="text-slate-600 mb-6">
+                根据当前项目生成一份可直接用于撰写方法部分的报告：输入文件及其大小、主流程各步骤的匹配数与未匹配数、注释规则设置、去重与过滤的移除原因、各功能区最终的特征数，并附带汇总图表和操作日志。
+                {inputFiles.length > 0 && ` 当前已记录 ${inputFiles.length} 个输入文件。`}
+            </p>
+            <div className="flex flex-wrap justify-center gap-4">
+                <button
+                  onClick={() => handleDownloadReport('html')}
+                  disabled={!hasProjectData(projectState)}
+                  className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+                >
+                  <DownloadIcon className="w-5 h-5 mr-2"/>
+                  下载 HTML 报告
+                </button>
+                <button
+                  onClick={() => handleDownloadReport('pdf')}
+                  disabled={!hasProjectData(projectState)}
+                  className="flex items-center px-5 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors disabled:bg-slate-200 disabled:text-slate-500 font-semibold"
+                >
+                  <DownloadIcon className="w-5 h-5 mr-2"/>
+                  导出 PDF 报告
+                </button>
+            </div>
+        </section>
+
+        <section className="mt-12 bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
+            <div className="flex items-center mb-4">
+                <div className="bg-sky-100 p-2 rounded-lg mr-4">
+                    <DocumentDuplicateIcon className="w-6 h-6 text-sky-600" />
+                </div>
+                <h2 className="text-2xl font-bold text-slate-900">操作日志</h2>
+            </div>
+            <p className="text-slate-600 mb-6">
+                记录本项目中每一次改变数据的操作，包括时间、参数和各数据表的行数变化。页面顶部的“撤销”/“重做”可以在所有功能区之间逐步回退或恢复，次数不限。
+                {operationHistory.entries.length > 0 && ` 当前可撤销 ${operationHistory.index} 步，可重做 ${operationHistory.entries.length - operationHistory.index} 步。`}
+            </p>
+            <OperationLog log={operationLog} onDownload={handleDownloadOperationLog} />
+        </section>
+
         <div className="mt-12 bg-white p-8 rounded-2xl border border-slate-200 shadow-xl">
           <h2 className="text-2xl font-bold text-slate-900 mb-4">数据处理流程说明</h2>
           <div className="prose prose-slate max-w-none text-slate-600">
             <p>本工具现在包含五大核心功能区，您可以根据需求选择使用：</p>
+
+            <h3 className="font-semibold text-slate-800">项目保存与共享</h3>
+            <p>整个分析会作为一个“项目”自动保存在浏览器的 IndexedDB 中：一旦任一功能区加载了数据，之后每次改动约 2 秒后都会写入一次，页面顶部会显示最近的保存时间。刷新或重新打开页面时，工具会列出已保存的项目，选择一个即可从上次停下的地方继续。</p>
+            <ul>
+              <li><strong>保存的内容:</strong> 主流程每一步的数据与未匹配列表、候选结果、批次与样本信息，以及去重、特征过滤、预处理、统计分析和污染物过滤各自的数据、撤销历史与参数。PCA、PLS-DA、热图和漂移校正报告等图表不保存，打开项目后重新点击运行即可得到相同结果。出于安全考虑，鉴定工具的 API 密钥不会保存。</li>
+              <li><strong>导出与导入:</strong> “导出项目文件”会把当前项目保存为单个 JSON 文件，可以发给同事；在“项目列表”中导入该文件会创建一个新项目，不会覆盖已有项目。导入时会检查各字段的格式，字段缺失表格行或取值无效时会拒绝导入并列出出错的字段，无法识别的字段会被忽略。</li>
+              <li><strong>重新开始:</strong> 点击“重新开始”或“新建空白项目”会清空工作区并开始一个新项目，之前的项目仍保留在列表中。当前正在使用的项目不能删除。</li>
+            </ul>
+
+            <h3 className="font-semibold text-slate-800">撤销、重做与操作日志</h3>
+            <p>所有改变数据的操作——主流程各步骤的匹配与跳过、生成注释、人工选择候选、批次合并、去重与离子分组、特征过滤、预处理、差异分析以及污染物过滤——都会进入同一条操作历史。页面顶部的“撤销”和“重做”按时间顺序在所有功能区之间回退或恢复，次数不限；撤销后再执行新操作会丢弃可重做的部分。各功能区原有的“撤销”按钮仍然可用，它们本身也会作为一次操作记录下来。</p>
+            <ul>
+              <li><strong>操作日志:</strong> 页面底部的日志按时间列出每一次操作、撤销和重做，包括所用参数以及主流程、去重、特征过滤、预处理、统计分析和污染物过滤各数据表的行数变化。</li>
+              <li><strong>导出:</strong> 日志可以单独下载，也会作为“操作日志”工作表附在各功能区下载的结果文件中。日志随项目一起保存；撤销/重做的历史只在当前会话内有效，重新打开项目后从头开始。</li>
+            </ul>
             
+            <h3 className="font-semibold text-slate-800">处理报告</h3>
+            <p>页面底部的“处理报告”会把当前项目整理成一份独立的报告，便于撰写论文的方法部分或存档。</p>
+            <ul>
+              <li><strong>内容:</strong> 各功能区上传的文件名、大小和行列数；主流程的质量容差、RT 窗口以及每一步的特征数、已匹配特征数、未匹配条目数和多重匹配数；注释规则设置及最终注释来源与 MSI 等级分布；去重、特征过滤和污染物过滤的移除数量与原因；预处理步骤；各功能区最终的特征数；以及完整的操作日志。</li>
+              <li><strong>HTML:</strong> “下载 HTML 报告”生成单个 HTML 文件，样式和图表都内嵌在文件中，离线也能打开。</li>
+              <li><strong>PDF:</strong> “导出 PDF 报告”会打开浏览器的打印对话框，选择“另存为 PDF”即可保存。</li>
+              <li><strong>输入文件记录:</strong> 文件记录随项目一起保存；“重新开始”只清除主流程上传的文件记录。</li>
+            </ul>
+
+            <h3 className="font-semibold text-slate-800">数据表格</h3>
+            <p>页面下方的表格显示当前最新的数据 (依次取预处理、特征过滤、去重、污染物过滤或主流程的结果)，可以滚动浏览全部行。</p>
+            <ul>
+              <li><strong>排序与筛选:</strong> 点击列名按该列升序、降序排序，再次点击取消。表头下方的输入框可按列筛选：数值列填写最小/最大值范围，文本列填写需包含的文字；上方的搜索框在所有可见列中查找。隐藏某一列时会同时清除该列的筛选与排序；表格切换到新的数据 (例如执行了一步处理或撤销) 时，筛选、搜索、排序和滚动位置都会重置，列设置保持不变。</li>
+              <li><strong>列设置:</strong> 可以隐藏列、调整列的顺序，以及把列固定在左侧，横向滚动时始终可见。<code>ID</code> 和 <code>Final_Annotation</code> 默认固定。去重状态和过滤状态列会按结果着色，也可以排序和筛选。</li>
+            </ul>
+
             <h3 className="font-semibold text-slate-800">功能区一：代谢组学处理流程</h3>
-            <p>这是一个包含 6 个步骤的引导式工作流，旨在将来自不同来源的数据进行整合与注释。完成所有步骤后，您可以选择将生成的结果直接发送到后续的功能区进行进一步处理。在每一步完成后，您都可以下载该步骤的中间结果文件。</p>
+            <p>这是一个默认包含 7 个步骤的引导式工作流，旨在将来自不同来源的数据进行整合与注释。完成所有步骤后，您可以选择将生成的结果直接发送到后续的功能区进行进一步处理。在每一步完成后，您都可以下载该步骤的中间结果文件。</p>
+            <p>您也可以点击“编辑流程”增删、排序中间的匹配步骤，修改匹配列与追加列，并将流程保存或导出为 JSON 配置（保存的流程会在下次打开时自动加载）。下文描述的是默认流程。如果匹配步骤上传的文件缺少所需的列名 (例如 FBMN 导出的是 <code>#Scan#</code> 或 <code>row ID</code> 而不是 <code>ID</code>)，工具会弹出列映射对话框，按名称相似度给出建议，确认后的映射会按文件类型记住，下次上传同类文件时自动应用。</p>
             <ul>
               <li>
                 <strong>第 1 步: Mzmine导出数据增列</strong>
                 <p>这是流程的起点。您可以上传 Mzmine 直接导出的原始文件 (需包含 <code>Filename</code> 列) 或已预处理的“净表” (需包含 <code>ID</code>, <code>MZ</code>, <code>RT</code> 列)。工具会自动检测文件类型：如果检测到 <code>Filename</code> 列，它将自动从中提取并生成 <code>ID</code>, <code>MZ</code>, 和 <code>RT</code> 三个新列；如果这些列已存在，则直接验证并进入下一步。</p>
+                <p>如果研究分多个分析批次分别导出，可以勾选“多批次数据”后逐个添加批次文件 (依次命名为 B1、B2…)。合并时以 B1 为参照，后续批次按特征 <code>ID</code> 或按 m/z + RT (使用匹配容差与 RT 窗口) 对齐；按 m/z + RT 对齐时，若最接近的特征已被同批次的另一行占用，会依次尝试窗口内次接近的特征。未对齐的特征作为新行追加；由于各批次独立编号，追加特征的 <code>ID</code> 若与已有特征重复，会加上批次后缀 (例如 <code>12_B2</code>)，以免后续按 ID 合并注释时错配，合并提示中会列出重命名的数量。与已有列重名的强度列会加上批次后缀 (例如 <code>QC-1_B2</code>)。样本信息表中同一列名可以按批次各列一行，合并 (或合并后再上传样本信息表) 时，重命名的列会按其原列名和 <code>Batch</code> 列 (可写 B2、批次文件名或批次序号 2) 找到对应的行；也可以直接在表中写重命名后的列名。合并后可选择批次校正：QC 锚定校正将每个批次缩放到使该批次 QC 中位数等于全部 QC 的中位数；按批次均值校正将每个批次缩放到使其均值等于总体均值 (即均值中心化的比值形式，保证强度为正)。合并结果新增 <code>Batch_Detected</code> 列记录每个特征出现的批次，下载此步结果时会附带“批次信息”工作表列出每个强度列所属的批次。</p>
               </li>
               <li>
                 <strong>第 2 步: 上传净表</strong>
@@ -1451,25 +4048,30 @@ ${chunk.join('\n')}`;
               </li>
               <li>
                 <strong>第 3 步: 匹配FBMN (Feature-Based Molecular Networking)</strong>
-                <p>上传 FBMN 的特征文件。工具会读取此文件，并使用其 <code>ID</code> 列与基础“净表”的 <code>ID</code> 列进行匹配。匹配成功后，会将 FBMN 文件中的 <code>Compound_Name</code>, <code>NAME (中文翻译)</code>, <code>Adduct</code>, <code>LibraryQualityString</code>, <code>MQScore</code>, <code>MZErrorPPM</code>, 和 <code>SharedPeaks</code> 列的数据追加到基础表的对应行。</p>
+                <p>上传 FBMN 的特征文件。工具会读取此文件，并使用其 <code>ID</code> 列与基础“净表”的 <code>ID</code> 列进行匹配。匹配成功后，会将 FBMN 文件中的 <code>Compound_Name</code>, <code>NAME (中文翻译)</code>, <code>Adduct</code>, <code>LibraryQualityString</code>, <code>MQScore</code>, <code>MZErrorPPM</code>, 和 <code>SharedPeaks</code> 列的数据追加到基础表的对应行。如果同一个 <code>ID</code> 有多条库匹配，工具会保留全部候选并按 <code>MQScore</code> 从高到低排序，追加列取自排名第一的候选，前 N 个候选 (默认 3 个) 写入 <code>FBMN_Candidate_1..N</code> 列。</p>
               </li>
               <li>
                 <strong>第 4 步: 匹配Sirius</strong>
-                <p>上传 Sirius 的匹配结果文件。与上一步类似，工具会使用 <code>ID</code> 列进行匹配，并将 Sirius 文件中的 <code>name</code>, <code>molecularFormula</code>, <code>ConfidenceScoreExact</code>, <code>smiles</code>, <code>ConfidenceScoreApproximate</code>, 和 <code>InChIkey2D</code> 列的数据追加到对应行。</p>
+                <p>上传 Sirius 的匹配结果文件。与上一步类似，工具会使用 <code>ID</code> 列进行匹配，并将 Sirius 文件中的 <code>name</code>, <code>molecularFormula</code>, <code>ConfidenceScoreExact</code>, <code>smiles</code>, <code>ConfidenceScoreApproximate</code>, 和 <code>InChIkey2D</code> 列的数据追加到对应行。多个候选会按 <code>ConfidenceScoreExact</code> 排序，并写入 <code>SIRIUS_Candidate_1..N</code> 列。流程完成后，可以在“查看候选注释”中浏览每个特征的全部候选，并将排名较低的候选设为 <code>Final_Annotation</code>。</p>
               </li>
               <li>
                 <strong>第 5 步: 匹配补充列</strong>
-                <p>上传一个补充信息文件。此步骤的匹配方式比较特殊：它会使用补充文件的 <code>ionMass</code> 列去匹配基础“净表”的 <code>MZ</code> 列。为了确保精度，两个值都会被<strong>保留到小数点后 3 位</strong>进行比较。匹配成功后，会将补充文件中的 <code>molecularFormula</code>, <code>NPC#superclass</code>, <code>ClassyFire#superclass</code>, <code>ClassyFire#class</code>, 和 <code>InChI</code> 列的数据追加到对应行。</p>
+                <p>上传一个补充信息文件。此步骤的匹配方式比较特殊：它会使用补充文件的 <code>ionMass</code> 列去匹配基础“净表”的 <code>MZ</code> 列。两个值的偏差落在设定的<strong>容差窗口</strong> (ppm 或 mDa，默认 5 ppm) 内即视为候选，若有多个候选则选择误差最小的一个，并将其质量误差写入 <code>Match_ppm_error</code> 列；步骤卡片会显示有多少特征存在多个候选。匹配成功后，会将补充文件中的 <code>molecularFormula</code>, <code>NPC#superclass</code>, <code>ClassyFire#superclass</code>, <code>ClassyFire#class</code>, 和 <code>InChI</code> 列的数据追加到对应行。</p>
+              </li>
+              <li>
+                <strong>第 6 步: 匹配外部特征表 (可选)</strong>
+                <p>用于合并合作者从其他仪器或软件导出的特征表，这些表的 ID 与本次 MZmine 结果无关。工具会用上传文件的 <code>mz</code> 和 <code>rt</code> 列，分别在质量容差窗口与 RT 窗口 (默认 0.1 min) 内匹配基础“净表”的 <code>MZ</code> 和第 1 步生成的 <code>RT</code> 列。同时落入两个窗口的候选中，取相对偏差之和最小的一个，追加 <code>External_ID</code> 和 <code>External_Annotation</code> 列，并写入 <code>Match_ppm_error</code> 与 <code>Match_RT_error</code>。存在多个候选的特征可在步骤卡片中查看。若无外部特征表，可直接跳过此步。</p>
               </li>
               <li>
-                <strong>第 6 步: 生成最终注释</strong>
-                <p>这是流程的核心步骤。工具会新增一列 <code>Final_Annotation</code>，并根据一套复杂的逻辑规则，智能地为每个物质选择最可靠的注释。这个决策过程会综合评估 FBMN 和 Sirius 的结果质量。</p>
+                <strong>第 7 步: 生成最终注释</strong>
+                <p>这是流程的核心步骤。工具会新增一列 <code>Final_Annotation</code>，并根据一套复杂的逻辑规则，智能地为每个物质选择最可靠的注释。这个决策过程会综合评估 FBMN 和 Sirius 的结果质量。默认情况下，FBMN 结果需同时满足 MQScore &gt; 0.9、库质量为 Gold、SharedPeaks &gt; 10 且 |ppm| &lt; 5 才算达标，Sirius 结果需 <code>ConfidenceScoreExact</code> &gt; 0.8；两者均达标时优先 Sirius。这些阈值与优先顺序可以在“规则设置”中修改并保存为预设。每一行还会写入 <code>Annotation_Source</code> (FBMN / SIRIUS / agreement) 和 <code>Annotation_Reason</code> 两列，说明该注释是如何选出的。</p>
+                <p>同时，工具会按 Metabolomics Standards Initiative (Schymanski 等) 的鉴定置信度为每一行写入 <code>MSI_Level</code> 列：FBMN 或 Sirius 任一方达标 (包括两者一致) 为 Level 2；仅有未达标的名称或 <code>ClassyFire#class</code> 类别为 Level 3；仅有 <code>molecularFormula</code> 为 Level 4；其余仅有精确质量的特征为 Level 5。Level 1 需要在相同条件下与标准品比对 RT 和 MS/MS，库匹配与计算预测无法提供这一证据；只有当数据中含有 <code>Standard_Confirmed</code> 列 (例如通过自定义流程步骤追加) 且其值为 Yes/True/1/是 的已命名特征才会被评为 Level 1。功能区三可以按该列过滤。</p>
               </li>
             </ul>
             
             <h3 className="font-semibold text-slate-800">功能区二：冗杂重复去除 (Feature Dereplication)</h3>
             <p>此工具用于解决 <code>Final_Annotation</code> 列中存在的重复鉴定问题，确保最终输出的表格中，每一个已知的化合物名称只由唯一一个、质量最高的特征峰来代表。</p>
-             <p><strong>使用前提:</strong> 输入文件必须包含 <code>ID</code> 列, <code>Final_Annotation</code> 列, 一系列生物样本列 (如 <code>CON_...</code>, <code>HBO_...</code>), 以及一系列QC样本列 (如 <code>QC-...</code>)。</p>
+             <p><strong>使用前提:</strong> 输入文件必须包含 <code>ID</code> 列, <code>Final_Annotation</code> 列, 一系列生物样本列, 以及一系列QC样本列。如果上传了样本信息表，样本列与QC列按表中的样本类型识别；否则按列名前缀识别 (生物样本如 <code>CON_...</code>, <code>HBO_...</code>，QC 如 <code>QC-...</code>)。</p>
             <p><strong>处理规则:</strong></p>
             <ol>
               <li><strong>初步质控:</strong> 对于每一个重复注释的化合物，工具会先进行两轮筛选：
@@ -1486,14 +4088,71 @@ ${chunk.join('\n')}`;
               </li>
               <li><strong>最终输出:</strong> 所有“当选代表”和未被注释的物质将被保留，其余所有重复的、被淘汰的特征都将被标记为删除。下载的结果将只包含被保留的行。</li>
             </ol>
+            <p><strong>离子分组 (可选):</strong> 同一化合物常以多个特征出现，例如 [M+H]+、[M+Na]+、[M+NH4]+ 及其 13C 同位素峰，而它们的 <code>Final_Annotation</code> 并不一定相同。执行去重前可以先进行离子分组 (需要 <code>MZ</code> 与 <code>RT</code> 列)：</p>
+            <ul>
+              <li>在 RT 窗口内，若两个特征的 m/z 差值等于 1 或 2 个 13C 间距 (1.003355 Da) 且较重的特征强度更低，则视为同位素峰；若两者在不同加合物下换算出的中性质量在质量容差内一致，则视为同一化合物的不同加合物。容差与 RT 窗口沿用上方匹配步骤的设置。</li>
+              <li>正离子模式考虑 [M+H]+、[M+Na]+、[M+NH4]+、[M+K]+、[M+H-H2O]+、[2M+H]+ 与 [2M+Na]+；负离子模式考虑 [M-H]-、[M+Cl]-、[M+FA-H]-、[M-H2O-H]- 与 [2M-H]-。</li>
+              <li>相互关联的特征组成一个特征组，写入 <code>Feature_Group</code> 列。工具选出能解释组内最多特征的中性质量，写入 <code>Neutral_Mass</code>，并为每个特征写入推定的离子类型 <code>Ion_Type</code> (同位素峰记为例如 “[M+H]+ M+1”)。组内所有特征都能由同一中性质量解释时，<code>Neutral_Mass_Consistent</code> 为 Yes。</li>
+              <li>勾选“将中性质量一致的特征组视为同一化合物”后，去重会把这些组与相同 <code>Final_Annotation</code> 的特征合并为同一组再选举代表，未注释的加合物与同位素峰也会因此被去除。</li>
+            </ul>
+
+            <h3 className="font-semibold text-slate-800">特征过滤工具</h3>
+            <p>此工具用于在污染物过滤之前按信号质量移除特征，可以加载流程结果、去重结果或直接上传文件。</p>
+            <ul>
+              <li><strong>空白扣除:</strong> 计算每个特征在生物样本列与空白列中的平均强度 (缺失值按 0 计)，样本/空白倍数低于设定阈值 (默认 3) 的特征会被标记为“因空白信号过高而剔除”，并写入 <code>Sample_Blank_Ratio</code> 列。空白中未检出的特征始终保留。空白列按样本信息表识别，未上传时按列名中的 <code>blank</code> 识别。</li>
+              <li><strong>检出率与 QC 过滤:</strong> 与功能区二只检查重复注释不同，此步骤对每一个特征计算检出率 (强度大于 0 的样本比例) 与 QC 样本的 RSD，并写入 <code>QC_RSD</code> 列。按组模式下实行 “80% 规则”：特征只需在任一实验组中达到检出率下限即可保留；也可以改为按全部样本计算。检出率过低或 QC RSD 超过上限 (默认 30%) 的特征会被剔除，QC 中少于两个有效值的特征不做 RSD 检查。</li>
+              <li><strong>源内碎片:</strong> 在 RT 窗口内 (沿用匹配步骤的 RT 窗口设置)，若一个特征与另一个 m/z 更高的特征在各样本与 QC 列中的强度高度相关 (Pearson 或 Spearman，默认阈值 0.9)，它很可能是后者在离子源中产生的碎片。只有两个特征都检出的列参与计算，且至少需要 5 列。被标记的特征在 <code>Likely_Fragment</code> 列中为 Yes，<code>Fragment_Of</code> 与 <code>Fragment_Correlation</code> 列记录相关性最高的母离子 ID 与相关系数。同一化合物的 13C 同位素峰和不同加合物同样共流出且高度相关，因此 m/z 差值相当于 1-2 个 13C 间距或两种加合物之差 (按去重工具中选择的离子模式与匹配步骤的质量容差判断) 的特征对，以及已在同一中性质量一致 (<code>Neutral_Mass_Consistent</code> 为 Yes) 的 <code>Feature_Group</code> 中的特征，不会被视为碎片与母离子。失水离子 ([M+H-H2O]+、[M-H2O-H]-) 不算作加合物；m/z 相差一个 H2O 或 NH3 (包括 [M+NH4]+ 与 [M+H]+ 之间的差值) 的特征对即使在同一组中也照常参与碎片检测，因为这两种丢失正是最常见的源内碎片。默认只写入标记列，供后续人工检查；勾选“剔除被标记的特征”时，它们会以“因疑似源内碎片而剔除”的原因移除。</li>
+              <li><strong>结果输出:</strong> 各项过滤可以依次执行并逐步撤销，工具会汇总每个条件移除的特征数。被移除的特征及原因会在弹窗中列出。下载的文件中主工作表只包含保留的行，“已移除”工作表列出被移除的行及 <code>Removal_Reason</code>。</li>
+            </ul>
 
             <h3 className="font-semibold text-slate-800">功能区三：自定义污染物过滤</h3>
             <p>此工具用于根据您提供的自定义列表来过滤数据。它遵循一个清晰的三步流程：</p>
             <ol>
               <li><strong>加载主数据:</strong> 您可以将在“功能区二”处理好的数据直接加载到此处，也可以上传一个新的待过滤文件。</li>
-              <li><strong>提供过滤列表:</strong> 您可以上传一个包含要移除条目名称的列表文件（CSV 或 XLSX 格式，必须包含一个名为 <code>name</code> 的列），也可以直接在文本框中粘贴一个名称列表（每行一个）。</li>
-              <li><strong>执行操作:</strong> 工具将从主数据中移除所有在 <code>Final_Annotation</code> 列中的值与您过滤列表中 <code>name</code> 列的值相匹配的行。</li>
+              <li><strong>提供过滤列表:</strong> 您可以上传一个包含要移除条目名称的列表文件（CSV 或 XLSX 格式，必须包含一个名为 <code>name</code> 的列），也可以直接在文本框中粘贴一个名称列表（每行一个）。列表中的每一项按以下方式匹配（均可在“匹配方式”中开关）：
+                <ul>
+                  <li><strong>名称:</strong> 与 <code>Final_Annotation</code> 比较，忽略首尾及重复空格，默认不区分大小写。若上传了同义词表（<code>name</code> 与 <code>synonyms</code> 列），一个名称会同时匹配它的所有同义词。</li>
+                  <li><strong>正则与通配符:</strong> 形如 <code>/^PEG/i</code> 的项按正则表达式匹配注释的任意部分；含 <code>*</code> 或 <code>?</code> 的项按通配符匹配整个注释。无效的表达式会在预览中标出，不会移除任何行。</li>
+                  <li><strong>InChIKey:</strong> 完整的 InChIKey 或其 14 位首段，与 <code>InChIkey2D</code> 列的首段比较，从而匹配同一骨架的不同立体异构体或注释名称不同的同一化合物。</li>
+                </ul>
+                此外可以启用<strong>内置污染物质量库</strong>，它不依赖注释名称，因此也能发现从未被注释或以其他名称注释的背景离子。库中收录常见的增塑剂与塑料添加剂（邻苯二甲酸酯、芥酸酰胺、Irgafos 168 等）、PEG 与 PPG 聚合物系列、环状硅氧烷、表面活性剂（Triton X-100、SDS、季铵盐等）以及乙腈、甲酸钠、TFA 等溶剂与缓冲液簇离子，并按元素组成计算了各加合物的 m/z。特征的 <code>MZ</code> 落在所选离子模式下任一库离子的 ppm 窗口内即视为匹配，取误差最小者。匹配结果按化合物系列显示在预览中；也可以只将匹配写入 <code>Library_Contaminant</code> 列而不移除任何行。
+              </li>
+              <li><strong>执行操作:</strong> 应用前，“匹配预览”会列出每个过滤项将移除的行数和对应的注释，可取消勾选某一项以跳过它。应用后，工具将从主数据中移除所有被启用的过滤项匹配到的行。如果选择了 MSI 鉴定等级上限，<code>MSI_Level</code> 高于该等级的行也会被移除。</li>
             </ol>
+
+            <h3 className="font-semibold text-slate-800">数据预处理</h3>
+            <p>此工具用于在统计分析之前处理样本列与 QC 列的强度值，可以加载特征过滤或污染物过滤的结果，也可以直接上传文件。每一步操作都可以撤销。</p>
+            <ul>
+              <li><strong>缺失值插补:</strong> 强度为 0 或空的单元格视为缺失。可选方法包括：该特征最小观测值的一半、固定常数、该特征观测值的中位数，以及 KNN (在 log2 强度上寻找最相似的 k 个特征，取它们在该列的几何平均值；没有可用近邻时退回最小值的一半)。所有列均缺失的特征不会被插补 (固定常数除外)。插补的单元格会在预览表中以斜体高亮，下载文件中的“插补记录”工作表会列出每个插补单元格的行号、ID、列名与插补值。</li>
+              <li><strong>样本归一化:</strong> 校正各样本间的整体强度差异，可选总离子流 (TIC，按每列总强度)、中位数 (按每列强度中位数)、概率商 (PQN，以 QC 样本各特征的中位数为参考谱，取每列相对参考谱的中位商；没有 QC 时改用全部样本) 以及内标 (按 ID 指定一个或多个内标，取各内标相对其自身均值的平均比值)。所有归一化因子都会除以其中位数，使结果保持在原始数量级。缺失值保持不变。</li>
+              <li><strong>信号漂移校正:</strong> 采用 QC-RLSC 方法：按进样顺序对每个特征的 QC 强度拟合 LOESS 局部加权回归曲线 (平滑跨度默认 0.75)，再将所有样本与 QC 的强度除以该进样位置的拟合值并乘以 QC 强度中位数。第一个 QC 之前和最后一个 QC 之后的进样位置沿用首尾 QC 处的拟合值，不做线性外推；若拟合值仍不为正，则改用最近 QC 处的拟合值，仍不为正的强度值保持原值，其数量会显示在校正结果中。进样顺序来自上传的进样序列表 (需含样本列名与 InjectionOrder 两列)，未上传时使用样本信息表中的进样顺序；所有样本列与 QC 列都必须有进样顺序，且至少需要 4 个 QC 列。有效 QC 少于 4 个的特征保持不变。结果会写入 <code>QC_RSD_Before_Correction</code> 与 <code>QC_RSD_After_Correction</code> 两列，结果区汇总 QC RSD 的变化，并可按特征查看漂移图 (校正前后的样本与 QC 强度及拟合曲线)。当前对所有批次拟合同一条曲线。</li>
+              <li><strong>步骤记录:</strong> 结果区会列出已执行的步骤，并以表格对比上一步前后每个样本列的总强度、中位数与检出特征数。撤销会恢复到上一步之前的原始数值。</li>
+            </ul>
+
+            <h3 className="font-semibold text-slate-800">统计分析</h3>
+            <p>此工具对两个分组 (例如 CON 与 HBO) 逐个特征进行单变量差异分析，可以加载数据预处理或污染物过滤的结果，也可以直接上传文件。分组来自样本信息表的 Group 列，未上传样本信息表时按列名前缀识别。</p>
+            <ul>
+              <li><strong>倍数变化:</strong> 分组 B 的平均强度除以分组 A 的平均强度 (按原始强度计算)，同时给出 log2 倍数变化。0 或空值不参与计算。</li>
+              <li><strong>显著性检验:</strong> 可选 Welch t 检验 (不假设方差相等) 或 Mann–Whitney U 秩和检验 (正态近似，含结与连续性校正)，均为双侧检验。默认在检验前对强度进行 log2 转换。每组至少需要 2 个有效值，否则该特征不计算 P 值。</li>
+              <li><strong>多重检验校正:</strong> 对所有得到 P 值的特征进行 Benjamini–Hochberg 校正，得到 FDR。</li>
+              <li><strong>火山图与导出:</strong> 火山图横轴为 log2 倍数变化，纵轴为 -log10 P 值，同时满足 FDR 阈值与倍数变化阈值的特征以红色 (上调) 或蓝色 (下调) 标出。悬停可查看特征信息，点击可查看详细数值。下载的结果表包含 ID、MZ、RT、<code>Final_Annotation</code> 及所有分类列，以及两组均值、倍数变化、P 值、FDR 与显著性标记 (Up/Down)。</li>
+            </ul>
+            
+            <h3 className="font-semibold text-slate-800">多变量分析</h3>
+            <p>此工具直接作用于已有的数据表，可在合并、去重、特征过滤、污染物过滤与数据预处理的结果之间选择，默认使用最新的一个。每个特征先以最小观测值的一半填补 0 或空值，可选 log2 转换，再进行中心化与缩放 (仅中心化、Pareto 缩放即除以标准差的平方根、自标度即除以标准差)。在所有样本中恒定的特征不参与分析。</p>
+            <ul>
+              <li><strong>PCA:</strong> 计算前 5 个主成分，展示 PC1/PC2 的得分图 (样本按分组着色，可选择是否包含 QC 样本) 与载荷图 (每个点为一个特征，悬停可查看 ID 与名称)。</li>
+              <li><strong>PLS-DA:</strong> 只使用生物样本，QC 样本始终排除在有监督模型之外 (“包含 QC 样本”选项只作用于 PCA)，以分组为响应变量建立模型 (两组时为单个 0/1 响应，多组时每组一个哑变量)。报告 R2X、R2Y 与交叉验证的 Q2 (最多 7 折，按分组轮流分配样本)。置换检验将分组标签随机打乱后重新建模，P 值为置换模型的 R2Y 或 Q2 不低于原模型的比例；打乱使用固定的随机种子，结果可以复现。</li>
+              <li><strong>VIP:</strong> 变量投影重要性，按各成分解释的 Y 方差加权；VIP ≥ 1 通常视为对分组区分重要。下载的文件包含 ID、MZ、RT、<code>Final_Annotation</code>、分类列与 VIP (按 VIP 降序)，以及 PLS-DA 得分工作表。</li>
+            </ul>
+            
+            <h3 className="font-semibold text-slate-800">聚类热图</h3>
+            <p>此工具以热图展示所选特征在各样本中的强度。特征可以是统计分析中 P 值最小的前 N 个 (只显示参与比较的两个分组)、PLS-DA 中 VIP 最高的前 N 个 (显示建模所用的样本)，或手动输入的 ID 列表 (使用多变量分析中选择的数据来源，显示所有生物样本)。</p>
+            <ul>
+              <li><strong>数值与缩放:</strong> 热图显示 log2 强度，0 或空值以该特征最小观测值的一半填补。可选按行 z-score，使每个特征在样本间的均值为 0、标准差为 1，此时色阶截断在 ±3。</li>
+              <li><strong>层次聚类:</strong> 行 (特征) 与列 (样本) 可分别聚类，距离可选欧氏距离或相关距离 (1 - Pearson 相关系数)，连接方式可选平均连接或完全连接。聚类结果以树状图显示在热图左侧与上方。</li>
+              <li><strong>标签与导出:</strong> 行标签优先使用 <code>Final_Annotation</code>，没有时使用 ID；列上方的色条按样本分组着色。热图可下载为 SVG 或 PNG。</li>
+            </ul>
             
             <h3 className="font-semibold text-slate-800">功能区四：辅助代谢物鉴定</h3>
             <p>这是一个利用AI大模型或外部API进行代谢物鉴定的实验性功能。您只需提供前体离子的质荷比 (Precursor m/z) 和其对应的二级质谱峰列表 (MS/MS Peaks)，鉴定服务就会像一位代谢组学专家一样，分析这些碎片信息，并给出最有可能的化合物鉴定结果。您可以选择使用内置的 Google Gemini 模型，或连接到您选择的任何外部鉴定网站的 API。</p>
@@ -1505,7 +4164,30 @@ ${chunk.join('\n')}`;
         </div>
 
       </div>
-      <Modal isOpen={modalOpen} onClose={() => setModalOpen(false)} title={modalTitle} unmatchedItems={unmatchedItems} />
+      <Modal isOpen={modalOpen} onClose={() => setModalOpen(false)} title={modalTitle} unmatchedItems={unmatchedItems} description={modalDescription} />
+      {pendingMapping && pipeline[currentStep] && (
+        <ColumnMappingModal
+          isOpen={true}
+          onClose={() => setPendingMapping(null)}
+          onConfirm={handleConfirmMapping}
+          stepName={pipeline[currentStep].name}
+          fileName={pendingMapping.fileName}
+          headers={pendingMapping.data.headers}
+          requiredColumns={pipeline[currentStep].requiredColumns}
+          appendColumns={pipeline[currentStep].appendColumns}
+          initialMapping={pendingMapping.initialMapping}
+        />
+      )}
+      <ProjectManager
+        isOpen={projectManagerOpen}
+        projects={projectList}
+        activeProjectId={activeProject?.id ?? null}
+        onOpen={handleOpenProject}
+        onDelete={handleDeleteProject}
+        onImport={handleImportProject}
+        onNew={handleNewProject}
+        onClose={() => setProjectManagerOpen(false)}
+      />
       <ConfirmationModal 
         isOpen={resetModalOpen}
         onClose={() => setResetModalOpen(false)}
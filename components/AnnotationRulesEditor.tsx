@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { AnnotationRules } from '../types';
+import { DEFAULT_ANNOTATION_RULES, loadAnnotationPresets, saveAnnotationPresets } from '../services/annotationRules';
+
+interface AnnotationRulesEditorProps {
+  rules: AnnotationRules;
+  onChange: (rules: AnnotationRules) => void;
+  disabled: boolean;
+}
+
+const inputClass = "w-full px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm";
+
+const NumberField = ({ label, value, onChange, disabled }: { label: string; value: number; onChange: (value: number) => void; disabled: boolean }) => (
+  <label className="text-xs text-slate-600">
+    {label}
+    <input type="number" step="any" className={inputClass} value={value} onChange={(e) => onChange(Number(e.target.value) || 0)} disabled={disabled} />
+  </label>
+);
+
+export const AnnotationRulesEditor: React.FC<AnnotationRulesEditorProps> = ({ rules, onChange, disabled }) => {
+  const [presets, setPresets] = useState<Record<string, AnnotationRules>>(() => loadAnnotationPresets());
+  const [presetName, setPresetName] = useState('');
+  const [qualityText, setQualityText] = useState(rules.libraryQualities.join(', '));
+
+  const update = (patch: Partial<AnnotationRules>) => onChange({ ...rules, ...patch });
+
+  const applyRules = (next: AnnotationRules) => {
+    onChange(next);
+    setQualityText(next.libraryQualities.join(', '));
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    const next = { ...presets, [name]: rules };
+    setPresets(next);
+    saveAnnotationPresets(next);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = (name: string) => {
+    const next = { ...presets };
+    delete next[name];
+    setPresets(next);
+    saveAnnotationPresets(next);
+  };
+
+  return (
+    <div className="p-3 mb-3 bg-slate-50 border border-slate-200 rounded-md space-y-3 text-left">
+      <div className="grid grid-cols-2 gap-2">
+        <NumberField label="MQScore >" value={rules.minMqScore} onChange={(v) => update({ minMqScore: v })} disabled={disabled} />
+        <NumberField label="SharedPeaks >" value={rules.minSharedPeaks} onChange={(v) => update({ minSharedPeaks: v })} disabled={disabled} />
+        <NumberField label="|MZErrorPPM| <" value={rules.maxAbsPpmError} onChange={(v) => update({ maxAbsPpmError: v })} disabled={disabled} />
+        <NumberField label="SIRIUS 置信度 >" value={rules.minSiriusConfidence} onChange={(v) => update({ minSiriusConfidence: v })} disabled={disabled} />
+      </div>
+      <label className="block text-xs text-slate-600">
+        接受的库质量 (逗号分隔)
+        <input
+          className={inputClass}
+          value={qualityText}
+          onChange={(e) => {
+            setQualityText(e.target.value);
+            update({ libraryQualities: e.target.value.split(',').map(q => q.trim()).filter(Boolean) });
+          }}
+          disabled={disabled}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-xs text-slate-600">
+          两者均达标时优先
+          <select className={inputClass} value={rules.preferWhenBothStrong} onChange={(e) => update({ preferWhenBothStrong: e.target.value as AnnotationRules['preferWhenBothStrong'] })} disabled={disabled}>
+            <option value="sirius">SIRIUS</option>
+            <option value="fbmn">FBMN</option>
+          </select>
+        </label>
+        <label className="text-xs text-slate-600">
+          均未达标时采用
+          <select className={inputClass} value={rules.fallback} onChange={(e) => update({ fallback: e.target.value as AnnotationRules['fallback'] })} disabled={disabled}>
+            <option value="fbmn">FBMN</option>
+            <option value="sirius">SIRIUS</option>
+          </select>
+        </label>
+      </div>
+
+      <div className="border-t border-slate-200 pt-3 space-y-2">
+        <p className="text-xs font-medium text-slate-700">预设</p>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => applyRules(DEFAULT_ANNOTATION_RULES)} disabled={disabled} className="px-2 py-1 text-xs bg-white border border-slate-300 rounded-md hover:bg-slate-100">默认</button>
+          {Object.keys(presets).map(name => (
+            <span key={name} className="inline-flex items-center bg-white border border-slate-300 rounded-md">
+              <button onClick={() => applyRules(presets[name])} disabled={disabled} className="px-2 py-1 text-xs hover:bg-slate-100">{name}</button>
+              <button onClick={() => handleDeletePreset(name)} disabled={disabled} className="px-1 text-xs text-red-500 hover:text-red-700" aria-label={`删除预设 ${name}`}>×</button>
+            </span>
+          ))}
+        </div>
+        <div className="flex space-x-2">
+          <input className={inputClass} value={presetName} onChange={(e) => setPresetName(e.target.value)} placeholder="预设名称" disabled={disabled} />
+          <button onClick={handleSavePreset} disabled={disabled || !presetName.trim()} className="px-3 py-1 text-xs bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 disabled:text-slate-400 disabled:border-slate-300 whitespace-nowrap">保存当前设置</button>
+        </div>
+      </div>
+    </div>
+  );
+};
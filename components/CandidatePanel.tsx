@@ -0,0 +1,102 @@
+import React, { useState, useMemo } from 'react';
+import { CandidateHit, CandidateSet, TableData } from '../types';
+import { collectFeatureCandidates } from '../services/candidates';
+
+interface CandidatePanelProps {
+  data: TableData;
+  candidateSets: Record<string, CandidateSet>;
+  onPromote: (featureId: string, hit: CandidateHit) => void;
+}
+
+const MAX_LISTED = 50;
+
+export const CandidatePanel: React.FC<CandidatePanelProps> = ({ data, candidateSets, onPromote }) => {
+  const [query, setQuery] = useState('');
+  const [onlyMultiple, setOnlyMultiple] = useState(true);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const sets: CandidateSet[] = Object.values(candidateSets);
+  const featureColumn = sets[0]?.featureColumn ?? 'ID';
+
+  const features = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return data.rows
+      .map(row => {
+        const id = String(row[featureColumn] ?? '').trim();
+        return { id, annotation: String(row['Final_Annotation'] ?? ''), hits: id ? collectFeatureCandidates(candidateSets, id) : [] };
+      })
+      .filter(f => f.hits.length > (onlyMultiple ? 1 : 0))
+      .filter(f => !q || f.id.toLowerCase().includes(q) || f.annotation.toLowerCase().includes(q) || f.hits.some(h => h.name.toLowerCase().includes(q)));
+  }, [data, candidateSets, featureColumn, query, onlyMultiple]);
+
+  return (
+    <div className="mt-6 p-6 bg-slate-50 border border-slate-200 rounded-lg text-left">
+      <h3 className="text-lg font-semibold text-slate-800 mb-2">候选注释</h3>
+      <p className="text-xs text-slate-500 mb-4">每个特征保留了 FBMN 与 Sirius 的全部候选，按分数排序。可以将排名较低的候选设为最终注释，对应来源的追加列会一并替换为该候选的值。</p>
+      <div className="flex flex-wrap items-center gap-4 mb-4">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="按 ID 或名称搜索"
+          className="flex-1 min-w-[200px] px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+        />
+        <label className="flex items-center text-sm text-slate-700">
+          <input type="checkbox" checked={onlyMultiple} onChange={(e) => setOnlyMultiple(e.target.checked)} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+          <span className="ml-2">仅显示多候选特征</span>
+        </label>
+      </div>
+      {features.length === 0 ? (
+        <p className="text-sm text-slate-500 text-center">没有符合条件的特征。</p>
+      ) : (
+        <ul className="divide-y divide-slate-200 bg-white border border-slate-200 rounded-md">
+          {features.slice(0, MAX_LISTED).map(feature => (
+            <li key={feature.id} className="p-3">
+              <button onClick={() => setExpandedId(expandedId === feature.id ? null : feature.id)} className="w-full flex justify-between text-sm text-left">
+                <span><span className="font-mono text-slate-500 mr-2">{feature.id}</span><span className="text-slate-800">{feature.annotation || '未注释'}</span></span>
+                <span className="text-slate-500 whitespace-nowrap">{feature.hits.length} 个候选</span>
+              </button>
+              {expandedId === feature.id && (
+                <table className="mt-3 min-w-full divide-y divide-slate-200 text-sm">
+                  <thead className="bg-slate-100">
+                    <tr>
+                      <th className="py-2 px-2 text-left font-semibold text-slate-700">来源</th>
+                      <th className="py-2 px-2 text-left font-semibold text-slate-700">排名</th>
+                      <th className="py-2 px-2 text-left font-semibold text-slate-700">名称</th>
+                      <th className="py-2 px-2 text-left font-semibold text-slate-700">分数</th>
+                      <th className="py-2 px-2"></th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-200">
+                    {feature.hits.map(hit => {
+                      const isCurrent = hit.name === feature.annotation;
+                      return (
+                        <tr key={`${hit.source}-${hit.rank}`} className={isCurrent ? 'bg-green-50' : ''}>
+                          <td className="py-2 px-2 text-slate-600">{hit.source}</td>
+                          <td className="py-2 px-2 text-slate-600">{hit.rank}</td>
+                          <td className="py-2 px-2 text-slate-800">{hit.name}</td>
+                          <td className="py-2 px-2 text-slate-600">{hit.score ?? '-'}</td>
+                          <td className="py-2 px-2 text-right">
+                            <button
+                              onClick={() => onPromote(feature.id, hit)}
+                              disabled={isCurrent}
+                              className="text-xs font-medium text-sky-600 hover:text-sky-800 disabled:text-slate-400"
+                            >
+                              {isCurrent ? '当前注释' : '设为最终注释'}
+                            </button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+      {features.length > MAX_LISTED && (
+        <p className="text-center text-sm text-slate-500 mt-2">仅显示前 {MAX_LISTED} 个特征，请使用搜索缩小范围。</p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { ColumnMapping } from '../types';
+import { headerSimilarity } from '../services/columnMapping';
+import { WarningIcon } from './icons';
+
+interface ColumnMappingModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onConfirm: (mapping: ColumnMapping) => void;
+  stepName: string;
+  fileName: string;
+  headers: string[];
+  requiredColumns: string[];
+  appendColumns: string[];
+  initialMapping: ColumnMapping;
+}
+
+export const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ isOpen, onClose, onConfirm, stepName, fileName, headers, requiredColumns, appendColumns, initialMapping }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+
+  useEffect(() => {
+    setMapping(initialMapping);
+  }, [initialMapping]);
+
+  if (!isOpen) return null;
+
+  const targets = [...new Set([...requiredColumns, ...appendColumns])];
+  const missingRequired = requiredColumns.filter(col => !mapping[col]);
+
+  return (
+    <div className="fixed inset-0 z-20 overflow-y-auto" aria-labelledby="mapping-modal-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-slate-500 bg-opacity-75 transition-opacity" aria-hidden="true" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="relative inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="sm:flex sm:items-start">
+              <div className="mx-auto flex-shrink-0 flex items-center justify-center h-12 w-12 rounded-full bg-amber-100 sm:mx-0 sm:h-10 sm:w-10">
+                <WarningIcon className="h-6 w-6 text-amber-600" />
+              </div>
+              <div className="mt-3 text-center sm:mt-0 sm:ml-4 sm:text-left w-full">
+                <h3 className="text-lg leading-6 font-medium text-slate-900" id="mapping-modal-title">列映射: {stepName}</h3>
+                <p className="mt-2 text-sm text-slate-500">
+                  文件 <span className="font-mono">{fileName}</span> 中缺少部分所需列。请为每个所需列选择文件中对应的列，系统已按名称相似度给出建议。确认后的映射会被记住，用于之后同类文件的上传。
+                </p>
+                <div className="mt-4 max-h-80 overflow-y-auto border border-slate-200 rounded-md">
+                  <table className="min-w-full divide-y divide-slate-200">
+                    <thead className="bg-slate-100">
+                      <tr>
+                        <th scope="col" className="py-2 px-3 text-left text-xs font-semibold text-slate-700">所需列</th>
+                        <th scope="col" className="py-2 px-3 text-left text-xs font-semibold text-slate-700">文件中的列</th>
+                        <th scope="col" className="py-2 px-3 text-left text-xs font-semibold text-slate-700">相似度</th>
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y divide-slate-200 bg-white">
+                      {targets.map(target => {
+                        const isRequired = requiredColumns.includes(target);
+                        const source = mapping[target] ?? '';
+                        return (
+                          <tr key={target}>
+                            <td className="py-2 px-3 text-sm text-slate-700 whitespace-nowrap">
+                              <span className="font-mono">{target}</span>
+                              {isRequired && <span className="ml-1 text-red-600">*</span>}
+                            </td>
+                            <td className="py-2 px-3">
+                              <select
+                                value={source}
+                                onChange={(e) => setMapping(prev => ({ ...prev, [target]: e.target.value }))}
+                                className={`w-full px-2 py-1 border rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm ${isRequired && !source ? 'border-red-400' : 'border-slate-300'}`}
+                              >
+                                <option value="">— 不映射 —</option>
+                                {headers.map(header => <option key={header} value={header}>{header}</option>)}
+                              </select>
+                            </td>
+                            <td className="py-2 px-3 text-xs text-slate-500 whitespace-nowrap">
+                              {source ? `${Math.round(headerSimilarity(target, source) * 100)}%` : '-'}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+                {missingRequired.length > 0 && (
+                  <p className="mt-2 text-xs text-red-600">必需列尚未映射: {missingRequired.join(', ')}</p>
+                )}
+              </div>
+            </div>
+          </div>
+          <div className="bg-slate-50 px-4 py-3 sm:px-6 sm:flex sm:flex-row-reverse">
+            <button
+              type="button"
+              disabled={missingRequired.length > 0}
+              className="w-full inline-flex justify-center rounded-md border border-transparent shadow-sm px-4 py-2 bg-sky-600 text-base font-medium text-white hover:bg-sky-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 disabled:bg-slate-400 sm:ml-3 sm:w-auto sm:text-sm"
+              onClick={() => onConfirm(mapping)}>
+              确认映射并匹配
+            </button>
+            <button
+              type="button"
+              className="mt-3 w-full inline-flex justify-center rounded-md border border-slate-300 shadow-sm px-4 py-2 bg-white text-base font-medium text-slate-700 hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-sky-500 sm:mt-0 sm:w-auto sm:text-sm"
+              onClick={onClose}>
+              取消
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,55 @@
+import React from 'react';
+import { CONTAMINANT_KIND_LABELS, ContaminantMatch } from '../services/contaminantMatching';
+import type { TableRow } from '../types';
+
+interface ContaminantPreviewProps {
+  matches: ContaminantMatch[];
+  rows: TableRow[];
+  disabledEntries: Set<string>;
+  onToggleEntry: (entry: string) => void;
+}
+
+const MAX_EXAMPLES = 3;
+
+export const ContaminantPreview: React.FC<ContaminantPreviewProps> = ({ matches, rows, disabledEntries, onToggleEntry }) => {
+  const examplesOf = (match: ContaminantMatch) => {
+    const names = [...new Set<string>(match.details ?? match.rowIndices.map(index => String(rows[index]?.Final_Annotation ?? rows[index]?.ID ?? `第 ${index + 1} 行`)))];
+    return names.length > MAX_EXAMPLES ? `${names.slice(0, MAX_EXAMPLES).join('; ')} 等 ${names.length} 个名称` : names.join('; ');
+  };
+
+  return (
+    <div className="max-h-72 overflow-auto border border-slate-200 rounded-md bg-white">
+      <table className="min-w-full divide-y divide-slate-200 text-sm">
+        <thead className="bg-slate-100 sticky top-0">
+          <tr>
+            <th className="py-2 px-3 text-left font-semibold text-slate-700">启用</th>
+            <th className="py-2 px-3 text-left font-semibold text-slate-700">过滤项</th>
+            <th className="py-2 px-3 text-left font-semibold text-slate-700">匹配方式</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">将移除行数</th>
+            <th className="py-2 px-3 text-left font-semibold text-slate-700">匹配到的注释</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {matches.map(match => (
+            <tr key={match.entry} className={disabledEntries.has(match.entry) ? 'opacity-50' : ''}>
+              <td className="py-2 px-3">
+                <input
+                  type="checkbox"
+                  checked={!disabledEntries.has(match.entry)}
+                  onChange={() => onToggleEntry(match.entry)}
+                  className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500"
+                />
+              </td>
+              <td className="py-2 px-3 text-slate-800 font-mono break-all">{match.entry}</td>
+              <td className="py-2 px-3 text-slate-600">{CONTAMINANT_KIND_LABELS[match.kind]}</td>
+              <td className={`py-2 px-3 text-right ${match.rowIndices.length > 0 ? 'text-red-600 font-semibold' : 'text-slate-400'}`}>{match.rowIndices.length}</td>
+              <td className="py-2 px-3 text-slate-600">
+                {match.error ? <span className="text-red-600">{match.error}</span> : examplesOf(match) || '-'}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -1,6 +1,9 @@
 
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { TableData } from '../types';
+import { getImputedColumns } from '../services/imputation';
+import { arrangeColumns, ColumnFilter, DEFAULT_PINNED_COLUMNS, GridColumn, GridSort, isFilterActive, isNumericColumn, moveColumn, selectRows } from '../services/dataGrid';
+import { AdjustmentsIcon, MagnifyingGlassIcon } from './icons';
 
 interface DataTableProps {
   data: TableData | null;
@@ -13,7 +16,56 @@ const getStatusColor = (status: string): string => {
     return 'text-slate-600';
 };
 
+const STATUS_COLUMNS = [
+  { key: '_derep_status', label: '去重状态' },
+  { key: '_filter_status', label: '过滤状态' },
+];
+
+// Only the rows in view (plus a margin) are rendered, so tables of any length scroll smoothly.
+const ROW_HEIGHT = 36;
+const VIEWPORT_HEIGHT = 600;
+const OVERSCAN = 10;
+const COLUMN_WIDTH = 160;
+
+const inputClass = 'w-full px-2 py-1 border border-slate-300 rounded text-xs font-normal focus:outline-none focus:ring-1 focus:ring-sky-500';
+
 export const DataTable: React.FC<DataTableProps> = ({ data }) => {
+  const [search, setSearch] = useState('');
+  const [filters, setFilters] = useState<Record<string, ColumnFilter>>({});
+  const [sort, setSort] = useState<GridSort | null>(null);
+  const [columnOrder, setColumnOrder] = useState<string[]>([]);
+  const [hiddenColumns, setHiddenColumns] = useState<Set<string>>(new Set<string>());
+  const [pinnedColumns, setPinnedColumns] = useState<Set<string>>(new Set<string>(DEFAULT_PINNED_COLUMNS));
+  const [showColumnPanel, setShowColumnPanel] = useState(false);
+  const [scrollTop, setScrollTop] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  const statusColumn = data ? STATUS_COLUMNS.find(col => data.rows[0] && col.key in data.rows[0]) : undefined;
+
+  const allColumns = useMemo<GridColumn[]>(() => {
+    if (!data) return [];
+    const columns = data.headers.map(header => ({ key: header, label: header, numeric: isNumericColumn(data.rows, header) }));
+    return statusColumn ? [...columns, { key: statusColumn.key, label: statusColumn.label, numeric: false }] : columns;
+  }, [data, statusColumn]);
+
+  const columnByKey = useMemo(() => new Map<string, GridColumn>(allColumns.map(col => [col.key, col])), [allColumns]);
+  const arrangedKeys = useMemo(() => arrangeColumns(allColumns.map(col => col.key), columnOrder, pinnedColumns), [allColumns, columnOrder, pinnedColumns]);
+  const visibleColumns = useMemo(() => arrangedKeys.filter(key => !hiddenColumns.has(key)).map(key => columnByKey.get(key)!), [arrangedKeys, hiddenColumns, columnByKey]);
+
+  // A new table starts unfiltered at the top; the column layout is kept.
+  useEffect(() => {
+    setFilters({});
+    setSearch('');
+    setSort(null);
+    setScrollTop(0);
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+  }, [data]);
+
+  const rowIndices = useMemo(
+    () => (data ? selectRows(data.rows, visibleColumns, filters, search, sort) : []),
+    [data, visibleColumns, filters, search, sort],
+  );
+
   if (!data || data.rows.length === 0) {
     return (
         <div className="mt-4 p-4 text-center text-slate-500 border border-dashed border-slate-300 rounded-md bg-white">
@@ -22,54 +74,220 @@ export const DataTable: React.FC<DataTableProps> = ({ data }) => {
     );
   }
 
-  const previewRows = data.rows.slice(0, 20);
-  const hasStatusColumn = data.rows[0] && '_derep_status' in data.rows[0];
+  const scrollToTop = () => {
+    if (scrollRef.current) scrollRef.current.scrollTop = 0;
+    setScrollTop(0);
+  };
+
+  const updateFilter = (key: string, filter: ColumnFilter) => {
+    setFilters(prev => ({ ...prev, [key]: filter }));
+    scrollToTop();
+  };
+
+  const handleSort = (key: string) => {
+    setSort(prev => {
+      if (prev?.key !== key) return { key, direction: 'asc' };
+      return prev.direction === 'asc' ? { key, direction: 'desc' } : null;
+    });
+    scrollToTop();
+  };
+
+  const togglePinned = (key: string) => {
+    setPinnedColumns(prev => {
+      const next = new Set<string>(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  // Filtering and sorting only apply to visible columns, so hiding a column drops its filter and sort as well.
+  const toggleHidden = (key: string) => {
+    if (!hiddenColumns.has(key)) {
+      setFilters(prev => {
+        const next = { ...prev };
+        delete next[key];
+        return next;
+      });
+      setSort(prev => (prev?.key === key ? null : prev));
+      scrollToTop();
+    }
+    setHiddenColumns(prev => {
+      const next = new Set<string>(prev);
+      if (next.has(key)) next.delete(key); else next.add(key);
+      return next;
+    });
+  };
+
+  const resetColumns = () => {
+    setColumnOrder([]);
+    setHiddenColumns(new Set<string>());
+    setPinnedColumns(new Set<string>(DEFAULT_PINNED_COLUMNS));
+  };
+
+  const clearFilters = () => {
+    setFilters({});
+    setSearch('');
+    setSort(null);
+    scrollToTop();
+  };
+
+  const hasFilters = search.trim() !== '' || visibleColumns.some(col => isFilterActive(filters[col.key]));
+  const firstRow = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const lastRow = Math.min(rowIndices.length, Math.ceil((scrollTop + VIEWPORT_HEIGHT) / ROW_HEIGHT) + OVERSCAN);
+  const pinnedCount = visibleColumns.filter(col => pinnedColumns.has(col.key)).length;
+
+  // Pinned columns come first, so each one's offset is the width of the pinned columns before it.
+  const stickyStyle = (index: number): React.CSSProperties =>
+    index < pinnedCount ? { position: 'sticky', left: index * COLUMN_WIDTH, zIndex: 1 } : {};
+  const pinnedClass = (index: number) => (index === pinnedCount - 1 ? 'border-r-2 border-r-slate-300' : '');
 
   return (
-    <div className="mt-4 flow-root">
-      <div className="-mx-4 -my-2 overflow-x-auto sm:-mx-6 lg:-mx-8">
-        <div className="inline-block min-w-full py-2 align-middle sm:px-6 lg:px-8">
-          <div className="overflow-hidden shadow ring-1 ring-black ring-opacity-5 rounded-lg">
-            <table className="min-w-full divide-y divide-slate-200">
-              <thead className="bg-slate-100">
-                <tr>
-                  {data.headers.map((header) => (
-                    <th key={header} scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-slate-700">
-                      {header}
-                    </th>
-                  ))}
-                  {hasStatusColumn && (
-                    <th scope="col" className="py-3.5 px-3 text-left text-sm font-semibold text-slate-700">
-                        去重状态
-                    </th>
-                  )}
-                </tr>
-              </thead>
-              <tbody className="divide-y divide-slate-200 bg-white">
-                {previewRows.map((row, rowIndex) => (
-                  <tr key={rowIndex} className="hover:bg-slate-50">
-                    {data.headers.map((header) => (
-                      <td key={`${rowIndex}-${header}`} className="whitespace-nowrap py-4 px-3 text-sm text-slate-600">
-                        {String(row[header] ?? '')}
-                      </td>
-                    ))}
-                    {hasStatusColumn && (
-                        <td className={`whitespace-nowrap py-4 px-3 text-sm ${getStatusColor(row._derep_status as string)}`}>
-                            {String(row._derep_status ?? '')}
-                        </td>
-                    )}
-                  </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-          {data.rows.length > 20 && (
-            <p className="text-center text-sm text-slate-500 mt-2">
-              仅显示前20行。完整数据将在下载的文件中提供。
-            </p>
+    <div className="mt-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="relative flex-grow max-w-md">
+          <MagnifyingGlassIcon className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => { setSearch(e.target.value); scrollToTop(); }}
+            placeholder="在所有可见列中搜索..."
+            className="w-full pl-9 pr-3 py-2 border border-slate-300 rounded-md text-sm focus:outline-none focus:ring-2 focus:ring-sky-500"
+          />
+        </div>
+        <div className="flex items-center gap-3 text-sm text-slate-600">
+          <span>显示 {rowIndices.length} / {data.rows.length} 行，{visibleColumns.length} / {allColumns.length} 列</span>
+          {(hasFilters || sort) && (
+            <button onClick={clearFilters} className="text-sky-600 hover:text-sky-800 font-semibold">清除筛选与排序</button>
           )}
+          <button
+            onClick={() => setShowColumnPanel(!showColumnPanel)}
+            className="flex items-center px-3 py-1.5 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors font-semibold"
+          >
+            <AdjustmentsIcon className="w-4 h-4 mr-1" />
+            列设置
+          </button>
         </div>
       </div>
+
+      {showColumnPanel && (
+        <div className="p-4 bg-slate-50 border border-slate-200 rounded-lg">
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-sm text-slate-600">勾选要显示的列，用箭头调整顺序；固定的列在横向滚动时始终显示在左侧。</p>
+            <button onClick={resetColumns} className="text-sm text-sky-600 hover:text-sky-800 font-semibold">恢复默认</button>
+          </div>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-slate-200 border border-slate-200 rounded-md bg-white">
+            {arrangedKeys.map((key, index) => (
+              <li key={key} className="flex items-center justify-between gap-3 px-3 py-1.5 text-sm">
+                <label className="flex items-center min-w-0 text-slate-700">
+                  <input type="checkbox" checked={!hiddenColumns.has(key)} onChange={() => toggleHidden(key)} className="mr-2 h-4 w-4 text-sky-600 border-slate-300 rounded focus:ring-sky-500" />
+                  <span className="truncate">{columnByKey.get(key)?.label}</span>
+                </label>
+                <div className="flex flex-shrink-0 items-center gap-2">
+                  <label className="flex items-center text-xs text-slate-500">
+                    <input type="checkbox" checked={pinnedColumns.has(key)} onChange={() => togglePinned(key)} className="mr-1 h-3.5 w-3.5 text-sky-600 border-slate-300 rounded focus:ring-sky-500" />
+                    固定
+                  </label>
+                  <button onClick={() => setColumnOrder(moveColumn(arrangedKeys, key, -1))} disabled={index === 0} className="px-1.5 text-slate-500 hover:text-slate-800 disabled:text-slate-300" aria-label={`上移 ${key}`}>↑</button>
+                  <button onClick={() => setColumnOrder(moveColumn(arrangedKeys, key, 1))} disabled={index === arrangedKeys.length - 1} className="px-1.5 text-slate-500 hover:text-slate-800 disabled:text-slate-300" aria-label={`下移 ${key}`}>↓</button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div
+        ref={scrollRef}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-auto shadow ring-1 ring-black ring-opacity-5 rounded-lg bg-white"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        <table className="table-fixed divide-y divide-slate-200" style={{ width: visibleColumns.length * COLUMN_WIDTH }}>
+          <thead className="bg-slate-100 sticky top-0 z-10">
+            <tr>
+              {visibleColumns.map((col, index) => (
+                <th
+                  key={col.key}
+                  scope="col"
+                  onClick={() => handleSort(col.key)}
+                  className={`py-2 px-3 text-left text-sm font-semibold text-slate-700 bg-slate-100 cursor-pointer select-none hover:bg-slate-200 truncate ${pinnedClass(index)}`}
+                  style={{ width: COLUMN_WIDTH, ...stickyStyle(index) }}
+                  title={`${col.label} (点击排序)`}
+                >
+                  {col.label}
+                  {sort?.key === col.key && <span className="ml-1 text-sky-600">{sort.direction === 'asc' ? '▲' : '▼'}</span>}
+                </th>
+              ))}
+            </tr>
+            <tr>
+              {visibleColumns.map((col, index) => {
+                const filter = filters[col.key];
+                return (
+                  <th key={col.key} className={`px-2 pb-2 bg-slate-100 ${pinnedClass(index)}`} style={stickyStyle(index)}>
+                    {col.numeric ? (
+                      <div className="flex gap-1">
+                        <input
+                          type="number"
+                          value={filter?.kind === 'range' ? filter.min : ''}
+                          onChange={(e) => updateFilter(col.key, { kind: 'range', min: e.target.value, max: filter?.kind === 'range' ? filter.max : '' })}
+                          placeholder="最小"
+                          className={inputClass}
+                        />
+                        <input
+                          type="number"
+                          value={filter?.kind === 'range' ? filter.max : ''}
+                          onChange={(e) => updateFilter(col.key, { kind: 'range', min: filter?.kind === 'range' ? filter.min : '', max: e.target.value })}
+                          placeholder="最大"
+                          className={inputClass}
+                        />
+                      </div>
+                    ) : (
+                      <input
+                        type="text"
+                        value={filter?.kind === 'text' ? filter.contains : ''}
+                        onChange={(e) => updateFilter(col.key, { kind: 'text', contains: e.target.value })}
+                        placeholder="包含..."
+                        className={inputClass}
+                      />
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200 bg-white">
+            {firstRow > 0 && <tr style={{ height: firstRow * ROW_HEIGHT }} />}
+            {rowIndices.slice(firstRow, lastRow).map(rowIndex => {
+              const row = data.rows[rowIndex];
+              const imputed = getImputedColumns(row);
+              return (
+                <tr key={rowIndex} className="group" style={{ height: ROW_HEIGHT }}>
+                  {visibleColumns.map((col, index) => {
+                    const value = String(row[col.key] ?? '');
+                    const color = col.key === statusColumn?.key
+                      ? `bg-white group-hover:bg-slate-50 ${getStatusColor(value)}`
+                      : imputed.includes(col.key) ? 'bg-amber-50 text-amber-700 italic' : 'bg-white group-hover:bg-slate-50 text-slate-600';
+                    return (
+                      <td
+                        key={col.key}
+                        className={`whitespace-nowrap truncate py-0 px-3 text-sm ${color} ${pinnedClass(index)}`}
+                        style={stickyStyle(index)}
+                        title={imputed.includes(col.key) ? '插补值' : value}
+                      >
+                        {value}
+                      </td>
+                    );
+                  })}
+                </tr>
+              );
+            })}
+            {lastRow < rowIndices.length && <tr style={{ height: (rowIndices.length - lastRow) * ROW_HEIGHT }} />}
+          </tbody>
+        </table>
+        {rowIndices.length === 0 && (
+          <p className="text-center text-sm text-slate-500 py-6">没有符合筛选条件的行。</p>
+        )}
+      </div>
     </div>
   );
 };
@@ -0,0 +1,114 @@
+import React, { useState, useMemo } from 'react';
+import { TableData } from '../types';
+import { toNumber } from '../services/massMatcher';
+import { DriftPlot } from './DriftPlot';
+
+interface DriftCorrectionReportProps {
+  before: TableData;
+  after: TableData;
+  sampleCols: string[];
+  qcCols: string[];
+  injectionOrder: Record<string, number>;
+  span: number;
+  uncorrectedValues: number;
+  maxRsd?: number;
+}
+
+const median = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const featureLabel = (data: TableData, index: number): string => {
+  const row = data.rows[index];
+  const id = row.ID ?? index + 1;
+  return row.Final_Annotation ? `${id} - ${row.Final_Annotation}` : String(id);
+};
+
+export const DriftCorrectionReport: React.FC<DriftCorrectionReportProps> = ({ before, after, sampleCols, qcCols, injectionOrder, span, uncorrectedValues, maxRsd = 30 }) => {
+  const rsdPairs = useMemo(() => after.rows.map(row => ({
+    before: toNumber(row.QC_RSD_Before_Correction),
+    after: toNumber(row.QC_RSD_After_Correction),
+  })), [after]);
+
+  // Default to the feature whose QC RSD improved the most, which is usually the clearest drift example.
+  const defaultIndex = useMemo(() => {
+    let best = 0;
+    let bestGain = -Infinity;
+    rsdPairs.forEach((pair, index) => {
+      if (pair.before === null || pair.after === null) return;
+      const gain = pair.before - pair.after;
+      if (gain > bestGain) {
+        bestGain = gain;
+        best = index;
+      }
+    });
+    return best;
+  }, [rsdPairs]);
+
+  const [query, setQuery] = useState('');
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const index = selectedIndex ?? defaultIndex;
+
+  const matches = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    if (!q) return [];
+    return after.rows
+      .map((_, i) => i)
+      .filter(i => featureLabel(after, i).toLowerCase().includes(q))
+      .slice(0, 20);
+  }, [after, query]);
+
+  const beforeValues = rsdPairs.map(p => p.before).filter((v): v is number => v !== null);
+  const afterValues = rsdPairs.map(p => p.after).filter((v): v is number => v !== null);
+  const medianBefore = median(beforeValues);
+  const medianAfter = median(afterValues);
+  const pair = rsdPairs[index];
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-semibold text-slate-800">信号漂移校正结果</p>
+      <ul className="text-sm text-slate-700 space-y-1">
+        <li>QC RSD 中位数: {medianBefore !== null ? medianBefore.toFixed(1) : '-'}% → {medianAfter !== null ? medianAfter.toFixed(1) : '-'}%</li>
+        <li>QC RSD ≤ {maxRsd}% 的特征: {beforeValues.filter(v => v <= maxRsd).length} → {afterValues.filter(v => v <= maxRsd).length}</li>
+        {uncorrectedValues > 0 && <li>拟合趋势不为正、保持原值的强度值: {uncorrectedValues}</li>}
+      </ul>
+      <div className="relative">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="按 ID 或名称查找特征"
+          className="w-full px-3 py-2 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm"
+        />
+        {matches.length > 0 && (
+          <ul className="absolute z-10 mt-1 w-full max-h-48 overflow-auto bg-white border border-slate-200 rounded-md shadow">
+            {matches.map(i => (
+              <li key={i}>
+                <button onClick={() => { setSelectedIndex(i); setQuery(''); }} className="w-full text-left px-3 py-1 text-sm hover:bg-slate-100">
+                  {featureLabel(after, i)}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {after.rows[index] && before.rows[index] && (
+        <>
+          <p className="text-sm text-slate-700">
+            特征 {featureLabel(after, index)}: QC RSD {pair?.before ?? '-'}% → {pair?.after ?? '-'}%
+          </p>
+          <DriftPlot
+            before={before.rows[index]}
+            after={after.rows[index]}
+            sampleCols={sampleCols}
+            qcCols={qcCols}
+            injectionOrder={injectionOrder}
+            span={span}
+          />
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,69 @@
+import React from 'react';
+import { TableRow } from '../types';
+import { DriftPoint, fitDriftCurve, getDriftPoints } from '../services/driftCorrection';
+
+interface DriftPlotProps {
+  before: TableRow;
+  after: TableRow;
+  sampleCols: string[];
+  qcCols: string[];
+  injectionOrder: Record<string, number>;
+  span: number;
+}
+
+const WIDTH = 640;
+const HEIGHT = 260;
+const PADDING = { top: 16, right: 16, bottom: 36, left: 64 };
+
+export const DriftPlot: React.FC<DriftPlotProps> = ({ before, after, sampleCols, qcCols, injectionOrder, span }) => {
+  const series = {
+    sampleBefore: getDriftPoints(before, sampleCols, injectionOrder),
+    qcBefore: getDriftPoints(before, qcCols, injectionOrder),
+    sampleAfter: getDriftPoints(after, sampleCols, injectionOrder),
+    qcAfter: getDriftPoints(after, qcCols, injectionOrder),
+  };
+  const all = Object.values(series).flat();
+  if (all.length === 0) {
+    return <p className="text-sm text-slate-500 text-center">该特征没有可绘制的强度值。</p>;
+  }
+
+  const orders = all.map(p => p.order);
+  const values = all.map(p => p.value);
+  const minX = Math.min(...orders), maxX = Math.max(...orders);
+  const minY = 0, maxY = Math.max(...values) * 1.05;
+  const x = (order: number) => PADDING.left + ((order - minX) / (maxX - minX || 1)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => HEIGHT - PADDING.bottom - ((value - minY) / (maxY - minY || 1)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const fit = fitDriftCurve(before, qcCols, injectionOrder, span);
+  const curve = fit
+    ? Array.from({ length: 60 }, (_, i) => minX + ((maxX - minX) * i) / 59).map(order => `${x(order)},${y(Math.max(0, fit(order)))}`).join(' ')
+    : null;
+
+  const dots = (points: DriftPoint[], className: string, r = 3) =>
+    points.map((p, i) => <circle key={i} cx={x(p.order)} cy={y(p.value)} r={r} className={className} />);
+
+  return (
+    <div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white border border-slate-200 rounded-md">
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-slate-300" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-slate-300" />
+        <text x={WIDTH / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[11px]">进样顺序</text>
+        <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="fill-slate-500 text-[10px]">{maxY.toPrecision(3)}</text>
+        <text x={PADDING.left - 6} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-slate-500 text-[10px]">0</text>
+        <text x={PADDING.left} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{minX}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{maxX}</text>
+        {dots(series.sampleBefore, 'fill-slate-300')}
+        {dots(series.qcBefore, 'fill-red-400')}
+        {curve && <polyline points={curve} fill="none" className="stroke-red-500" strokeWidth={1.5} />}
+        {dots(series.sampleAfter, 'fill-sky-500', 2.5)}
+        {dots(series.qcAfter, 'fill-green-600', 2.5)}
+      </svg>
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600">
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-slate-300 mr-1" />样本 (校正前)</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-red-400 mr-1" />QC (校正前) 与拟合曲线</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-sky-500 mr-1" />样本 (校正后)</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-green-600 mr-1" />QC (校正后)</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,150 @@
+import React, { useRef } from 'react';
+import { ClusterTree, HeatmapMatrix } from '../services/clustering';
+import { exportPng, exportSvg } from '../services/fileProcessor';
+import { DownloadIcon } from './icons';
+
+interface HeatmapProps {
+  matrix: HeatmapMatrix;
+  rowLabels: string[];
+  rowTree: ClusterTree | null;
+  colTree: ClusterTree | null;
+  zScore: boolean;
+  fileName: string;
+}
+
+// Inline colors rather than Tailwind classes so the exported SVG/PNG looks the same as on screen.
+const GROUP_COLORS = ['#0284c7', '#ef4444', '#16a34a', '#9333ea', '#f59e0b', '#ec4899', '#14b8a6'];
+const LOW = [33, 102, 172];
+const MID = [247, 247, 247];
+const HIGH = [178, 24, 43];
+
+const mix = (from: number[], to: number[], t: number) => `rgb(${from.map((v, i) => Math.round(v + (to[i] - v) * t)).join(',')})`;
+
+const ROW_HEIGHT = 12;
+const ROW_DENDRO = 80;
+const COL_DENDRO = 60;
+const GROUP_BAR = 10;
+const LABEL_WIDTH = 260;
+const COL_LABEL_HEIGHT = 90;
+const LEGEND_HEIGHT = 40;
+
+const truncate = (text: string, max = 42) => text.length > max ? `${text.slice(0, max - 1)}…` : text;
+
+// Returns elbow segments for a dendrogram; `position` maps a leaf to its pixel offset along the leaf axis.
+const dendrogramSegments = (tree: ClusterTree, leafCount: number, position: (leaf: number) => number, depth: number) => {
+  const maxHeight = Math.max(...tree.merges.map(m => m.height), 0) || 1;
+  const along: number[] = [];
+  const across: number[] = [];
+  for (let leaf = 0; leaf < leafCount; leaf++) {
+    along[leaf] = position(leaf);
+    across[leaf] = depth;
+  }
+  const segments: [number, number, number, number][] = [];
+  tree.merges.forEach((merge, k) => {
+    const node = leafCount + k;
+    const level = depth - (merge.height / maxHeight) * depth;
+    along[node] = (along[merge.left] + along[merge.right]) / 2;
+    across[node] = level;
+    segments.push([along[merge.left], across[merge.left], along[merge.left], level]);
+    segments.push([along[merge.right], across[merge.right], along[merge.right], level]);
+    segments.push([along[merge.left], level, along[merge.right], level]);
+  });
+  return segments;
+};
+
+export const Heatmap: React.FC<HeatmapProps> = ({ matrix, rowLabels, rowTree, colTree, zScore, fileName }) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const rowOrder = rowTree?.order ?? matrix.values.map((_, i) => i);
+  const colOrder = colTree?.order ?? matrix.columns.map((_, j) => j);
+  const cellWidth = Math.max(10, Math.min(36, 600 / matrix.columns.length));
+
+  const rowDendro = rowTree ? ROW_DENDRO : 0;
+  const colDendro = colTree ? COL_DENDRO : 0;
+  const left = rowDendro + 4;
+  const top = colDendro + GROUP_BAR + 6;
+  const gridWidth = cellWidth * matrix.columns.length;
+  const gridHeight = ROW_HEIGHT * matrix.values.length;
+  const width = left + gridWidth + LABEL_WIDTH;
+  const height = top + gridHeight + COL_LABEL_HEIGHT + LEGEND_HEIGHT;
+
+  const all = matrix.values.flat();
+  const [low, high] = zScore
+    ? (() => { const m = Math.min(3, Math.max(...all.map(Math.abs))) || 1; return [-m, m]; })()
+    : [Math.min(...all), Math.max(...all)];
+  const mid = (low + high) / 2;
+  const colorOf = (value: number) => {
+    if (value <= mid) return mix(LOW, MID, high === low ? 1 : Math.max(0, (value - low) / (mid - low)));
+    return mix(MID, HIGH, Math.min(1, (value - mid) / (high - mid)));
+  };
+
+  const groups = [...new Set<string>(matrix.groups)];
+  const groupColor = (group: string) => GROUP_COLORS[groups.indexOf(group) % GROUP_COLORS.length];
+
+  const rowPosition = new Map<number, number>(rowOrder.map((row, i) => [row, i]));
+  const colPosition = new Map<number, number>(colOrder.map((col, j) => [col, j]));
+  const rowSegments = rowTree ? dendrogramSegments(rowTree, matrix.values.length, leaf => top + (rowPosition.get(leaf)! + 0.5) * ROW_HEIGHT, rowDendro) : [];
+  const colSegments = colTree ? dendrogramSegments(colTree, matrix.columns.length, leaf => left + (colPosition.get(leaf)! + 0.5) * cellWidth, colDendro) : [];
+  const legendTop = top + gridHeight + COL_LABEL_HEIGHT;
+  const gradientStops = [0, 0.25, 0.5, 0.75, 1];
+
+  return (
+    <div className="space-y-3">
+      <div className="overflow-auto max-h-[640px] border border-slate-200 rounded-md bg-white">
+        <svg ref={svgRef} viewBox={`0 0 ${width} ${height}`} width={width} height={height} fontFamily="sans-serif">
+          <rect x={0} y={0} width={width} height={height} fill="#ffffff" />
+          {rowSegments.map(([a1, c1, a2, c2], i) => <line key={`r${i}`} x1={c1} y1={a1} x2={c2} y2={a2} stroke="#64748b" strokeWidth={1} />)}
+          {colSegments.map(([a1, c1, a2, c2], i) => <line key={`c${i}`} x1={a1} y1={c1} x2={a2} y2={c2} stroke="#64748b" strokeWidth={1} />)}
+          {colOrder.map((col, j) => (
+            <rect key={`g${col}`} x={left + j * cellWidth} y={colDendro + 2} width={cellWidth} height={GROUP_BAR} fill={groupColor(matrix.groups[col])}>
+              <title>{matrix.groups[col]}</title>
+            </rect>
+          ))}
+          {rowOrder.map((row, i) => colOrder.map((col, j) => (
+            <rect key={`${row}-${col}`} x={left + j * cellWidth} y={top + i * ROW_HEIGHT} width={cellWidth} height={ROW_HEIGHT} fill={colorOf(matrix.values[row][col])}>
+              <title>{`${rowLabels[row]}\n${matrix.columns[col]}: ${matrix.values[row][col].toFixed(2)}`}</title>
+            </rect>
+          )))}
+          {rowOrder.map((row, i) => (
+            <text key={`l${row}`} x={left + gridWidth + 4} y={top + (i + 0.5) * ROW_HEIGHT} dominantBaseline="middle" fontSize={9} fill="#334155">{truncate(rowLabels[row])}</text>
+          ))}
+          {colOrder.map((col, j) => {
+            const x = left + (j + 0.5) * cellWidth;
+            const y = top + gridHeight + 4;
+            return <text key={`cl${col}`} x={x} y={y} transform={`rotate(90 ${x} ${y})`} dominantBaseline="middle" fontSize={9} fill="#334155">{truncate(matrix.columns[col], 16)}</text>;
+          })}
+          <defs>
+            <linearGradient id="heatmap-scale">
+              {gradientStops.map(stop => <stop key={stop} offset={stop} stopColor={colorOf(low + (high - low) * stop)} />)}
+            </linearGradient>
+          </defs>
+          <rect x={left} y={legendTop + 4} width={120} height={10} fill="url(#heatmap-scale)" stroke="#cbd5e1" />
+          <text x={left} y={legendTop + 26} fontSize={9} fill="#475569">{low.toFixed(1)}</text>
+          <text x={left + 120} y={legendTop + 26} fontSize={9} fill="#475569" textAnchor="end">{high.toFixed(1)}</text>
+          <text x={left + 130} y={legendTop + 13} fontSize={9} fill="#475569">{zScore ? 'z-score' : 'log2 强度'}</text>
+          {groups.map((group, k) => (
+            <g key={group}>
+              <rect x={left + 200 + k * 90} y={legendTop + 4} width={10} height={10} fill={groupColor(group)} />
+              <text x={left + 214 + k * 90} y={legendTop + 13} fontSize={9} fill="#475569">{truncate(group, 12)}</text>
+            </g>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-center gap-4">
+        <button
+          onClick={() => svgRef.current && exportSvg(svgRef.current, fileName)}
+          className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors font-semibold"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2"/>
+          下载 SVG
+        </button>
+        <button
+          onClick={() => svgRef.current && exportPng(svgRef.current, fileName)}
+          className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors font-semibold"
+        >
+          <DownloadIcon className="w-5 h-5 mr-2"/>
+          下载 PNG
+        </button>
+      </div>
+    </div>
+  );
+};
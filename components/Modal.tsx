@@ -7,9 +7,10 @@ interface ModalProps {
   onClose: () => void;
   title: string;
   unmatchedItems: (string | number)[];
+  description?: string;
 }
 
-export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, unmatchedItems }) => {
+export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, unmatchedItems, description }) => {
   if (!isOpen) return null;
 
   return (
@@ -29,7 +30,7 @@ export const Modal: React.FC<ModalProps> = ({ isOpen, onClose, title, unmatchedI
                 <h3 className="text-lg leading-6 font-medium text-slate-900" id="modal-title">{title}</h3>
                 <div className="mt-2">
                   <p className="text-sm text-slate-500 mb-2">
-                    以下 {unmatchedItems.length} 个条目未在基础表中找到匹配项:
+                    {description ?? `以下 ${unmatchedItems.length} 个条目未在基础表中找到匹配项:`}
                   </p>
                   <div className="max-h-60 overflow-y-auto bg-slate-100 p-2 rounded-md border border-slate-200">
                     <ul className="text-xs text-slate-700 list-disc list-inside">
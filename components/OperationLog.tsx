@@ -0,0 +1,61 @@
+import React from 'react';
+import { LOG_KIND_LABELS, OperationLogEntry } from '../services/operationHistory';
+import { DownloadIcon } from './icons';
+
+interface OperationLogProps {
+  log: OperationLogEntry[];
+  onDownload: () => void;
+}
+
+const KIND_STYLES: Record<OperationLogEntry['kind'], string> = {
+  operation: 'bg-sky-100 text-sky-700',
+  undo: 'bg-amber-100 text-amber-700',
+  redo: 'bg-green-100 text-green-700',
+};
+
+export const OperationLog: React.FC<OperationLogProps> = ({ log, onDownload }) => (
+  <div className="space-y-3">
+    {log.length === 0 ? (
+      <p className="text-sm text-slate-500 text-center py-6 bg-slate-50 rounded-md border border-slate-200">尚无操作记录。</p>
+    ) : (
+      <div className="max-h-80 overflow-auto border border-slate-200 rounded-md bg-white">
+        <table className="min-w-full divide-y divide-slate-200 text-sm">
+          <thead className="bg-slate-100 sticky top-0">
+            <tr>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">时间</th>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">类型</th>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">功能区</th>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">操作</th>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">参数</th>
+              <th className="py-2 px-3 text-left font-semibold text-slate-700">行数变化</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {[...log].reverse().map((entry, i) => (
+              <tr key={log.length - i}>
+                <td className="py-2 px-3 text-slate-500 whitespace-nowrap">{new Date(entry.timestamp).toLocaleTimeString('zh-CN', { hour12: false })}</td>
+                <td className="py-2 px-3">
+                  <span className={`px-2 py-0.5 rounded text-xs font-semibold ${KIND_STYLES[entry.kind]}`}>{LOG_KIND_LABELS[entry.kind]}</span>
+                </td>
+                <td className="py-2 px-3 text-slate-600 whitespace-nowrap">{entry.tool}</td>
+                <td className="py-2 px-3 text-slate-800">{entry.action}</td>
+                <td className="py-2 px-3 text-slate-600 text-xs">{entry.params || '-'}</td>
+                <td className="py-2 px-3 text-slate-600 text-xs">{entry.changes}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    )}
+    <div className="flex justify-center">
+      <button
+        onClick={onDownload}
+        disabled={log.length === 0}
+        className="flex items-center px-5 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors disabled:bg-slate-400 font-semibold"
+      >
+        <DownloadIcon className="w-5 h-5 mr-2"/>
+        下载操作日志
+      </button>
+    </div>
+  </div>
+);
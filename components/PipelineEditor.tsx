@@ -0,0 +1,213 @@
+import React, { useState, useRef } from 'react';
+import { ProcessingStep } from '../types';
+import { DEFAULT_PIPELINE, createJoinStep, isJoinStep, parsePipelineJson, validatePipeline } from '../services/pipelineConfig';
+import { exportJsonFile, readTextFile } from '../services/fileProcessor';
+import { CloseIcon, DownloadIcon, PlusCircleIcon, UploadIcon } from './icons';
+
+interface PipelineEditorProps {
+  steps: ProcessingStep[];
+  onSave: (steps: ProcessingStep[]) => void;
+  onClose: () => void;
+}
+
+const MATCH_MODE_LABELS: Record<NonNullable<ProcessingStep['matchMode']>, string> = {
+  id: '按 ID 精确匹配',
+  mz: '按 m/z 容差匹配',
+  mzRt: '按 m/z + RT 匹配',
+};
+
+const inputClass = "w-full px-2 py-1 border border-slate-300 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-sm";
+
+const splitColumns = (text: string): string[] => text.split(',').map(col => col.trim()).filter(Boolean);
+
+export const PipelineEditor: React.FC<PipelineEditorProps> = ({ steps, onSave, onClose }) => {
+  const [draft, setDraft] = useState<ProcessingStep[]>(() => steps.map(step => ({ ...step })));
+  const [appendText, setAppendText] = useState<string[]>(() => steps.map(step => step.appendColumns.join(', ')));
+  const [editorError, setEditorError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const loadDraft = (next: ProcessingStep[]) => {
+    setDraft(next.map(step => ({ ...step })));
+    setAppendText(next.map(step => step.appendColumns.join(', ')));
+    setEditorError(null);
+  };
+
+  const updateStep = (index: number, patch: Partial<ProcessingStep>) => {
+    setDraft(prev => prev.map((step, i) => i === index ? { ...step, ...patch } : step));
+  };
+
+  const moveStep = (index: number, offset: number) => {
+    const target = index + offset;
+    const swap = <T,>(list: T[]) => {
+      const next = [...list];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    };
+    setDraft(swap);
+    setAppendText(swap);
+  };
+
+  const removeStep = (index: number) => {
+    setDraft(prev => prev.filter((_, i) => i !== index));
+    setAppendText(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const addStep = () => {
+    const insertAt = draft.length - 1;
+    const newStep = createJoinStep();
+    let name = newStep.name;
+    for (let n = 2; draft.some(step => step.name === name); n++) name = `${newStep.name} ${n}`;
+    setDraft(prev => [...prev.slice(0, insertAt), { ...newStep, name }, ...prev.slice(insertAt)]);
+    setAppendText(prev => [...prev.slice(0, insertAt), '', ...prev.slice(insertAt)]);
+  };
+
+  const buildPipeline = (): ProcessingStep[] => {
+    return validatePipeline(draft.map((step, i) => isJoinStep(step) ? { ...step, appendColumns: splitColumns(appendText[i]) } : step));
+  };
+
+  const handleSave = () => {
+    try {
+      onSave(buildPipeline());
+    } catch (err: any) {
+      setEditorError(err.message || '流程配置无效。');
+    }
+  };
+
+  const handleExport = () => {
+    try {
+      exportJsonFile(buildPipeline(), 'pipeline_config');
+    } catch (err: any) {
+      setEditorError(err.message || '流程配置无效。');
+    }
+  };
+
+  const handleImport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+    try {
+      loadDraft(parsePipelineJson(await readTextFile(file)));
+    } catch (err: any) {
+      setEditorError(err.message || '读取流程配置文件失败。');
+    }
+  };
+
+  return (
+    <div className="p-6 bg-slate-50 border border-slate-200 rounded-lg mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-semibold text-slate-800">编辑处理流程</h3>
+        <button onClick={onClose} className="text-slate-500 hover:text-slate-700" aria-label="关闭">
+          <CloseIcon className="w-5 h-5" />
+        </button>
+      </div>
+      <p className="text-xs text-slate-500 mb-4">前两步与最后的注释步骤固定；中间的匹配步骤可以增删、排序并修改匹配列与追加列。追加列以逗号分隔。保存后的流程会在下次打开应用时自动加载。</p>
+
+      {editorError && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded-md mb-4 text-sm" role="alert">{editorError}</div>
+      )}
+
+      <ol className="space-y-3">
+        {draft.map((step, index) => {
+          if (!isJoinStep(step)) {
+            return (
+              <li key={index} className="flex items-center justify-between p-3 bg-white border border-slate-200 rounded-md">
+                <span className="text-sm font-medium text-slate-700">{index + 1}. {step.name}</span>
+                <span className="text-xs text-slate-400">固定步骤</span>
+              </li>
+            );
+          }
+          const canMoveUp = index > 2;
+          const canMoveDown = index < draft.length - 2;
+          return (
+            <li key={index} className="p-3 bg-white border border-slate-200 rounded-md space-y-2">
+              <div className="flex items-center space-x-2">
+                <span className="text-sm font-medium text-slate-700">{index + 1}.</span>
+                <input className={inputClass} value={step.name} onChange={(e) => updateStep(index, { name: e.target.value })} placeholder="步骤名称" />
+                <button onClick={() => moveStep(index, -1)} disabled={!canMoveUp} className="px-2 text-slate-600 hover:text-sky-700 disabled:text-slate-300" aria-label="上移">↑</button>
+                <button onClick={() => moveStep(index, 1)} disabled={!canMoveDown} className="px-2 text-slate-600 hover:text-sky-700 disabled:text-slate-300" aria-label="下移">↓</button>
+                <button onClick={() => removeStep(index)} className="text-red-500 hover:text-red-700" aria-label="删除">
+                  <CloseIcon className="w-4 h-4" />
+                </button>
+              </div>
+              <input className={inputClass} value={step.description} onChange={(e) => updateStep(index, { description: e.target.value })} placeholder="步骤说明" />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                <label className="text-xs text-slate-600">
+                  匹配方式
+                  <select className={inputClass} value={step.matchMode} onChange={(e) => updateStep(index, { matchMode: e.target.value as ProcessingStep['matchMode'] })}>
+                    {Object.entries(MATCH_MODE_LABELS).map(([mode, label]) => <option key={mode} value={mode}>{label}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-slate-600 flex items-end space-x-2 pb-1">
+                  <input type="checkbox" checked={!!step.optional} onChange={(e) => updateStep(index, { optional: e.target.checked })} className="h-4 w-4 text-sky-600 border-slate-300 focus:ring-sky-500" />
+                  <span>可跳过</span>
+                </label>
+                <label className="text-xs text-slate-600">
+                  上传文件的匹配列
+                  <input className={inputClass} value={step.matchColumn} onChange={(e) => updateStep(index, { matchColumn: e.target.value })} />
+                </label>
+                <label className="text-xs text-slate-600">
+                  基础表的匹配列
+                  <input className={inputClass} value={step.matchColumnBase ?? ''} placeholder={step.matchMode === 'id' ? 'ID' : 'MZ'} onChange={(e) => updateStep(index, { matchColumnBase: e.target.value || undefined })} />
+                </label>
+                {step.matchMode === 'mzRt' && (
+                  <>
+                    <label className="text-xs text-slate-600">
+                      上传文件的 RT 列
+                      <input className={inputClass} value={step.rtColumn ?? ''} onChange={(e) => updateStep(index, { rtColumn: e.target.value || undefined })} />
+                    </label>
+                    <label className="text-xs text-slate-600">
+                      基础表的 RT 列
+                      <input className={inputClass} value={step.rtColumnBase ?? ''} placeholder="RT" onChange={(e) => updateStep(index, { rtColumnBase: e.target.value || undefined })} />
+                    </label>
+                  </>
+                )}
+              </div>
+              {step.matchMode === 'id' && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                  <label className="text-xs text-slate-600">
+                    候选名称列 (可选)
+                    <input className={inputClass} value={step.candidateNameColumn ?? ''} placeholder="例如: Compound_Name" onChange={(e) => updateStep(index, { candidateNameColumn: e.target.value || undefined })} />
+                  </label>
+                  <label className="text-xs text-slate-600">
+                    候选排序分数列
+                    <input className={inputClass} value={step.rankColumn ?? ''} placeholder="例如: MQScore" onChange={(e) => updateStep(index, { rankColumn: e.target.value || undefined })} />
+                  </label>
+                  <label className="text-xs text-slate-600">
+                    候选列前缀
+                    <input className={inputClass} value={step.candidatePrefix ?? ''} placeholder={step.name} onChange={(e) => updateStep(index, { candidatePrefix: e.target.value || undefined })} />
+                  </label>
+                </div>
+              )}
+              <label className="block text-xs text-slate-600">
+                追加列
+                <input className={inputClass} value={appendText[index] ?? ''} onChange={(e) => setAppendText(prev => prev.map((text, i) => i === index ? e.target.value : text))} placeholder="例如: Compound_Name, Adduct" />
+              </label>
+            </li>
+          );
+        })}
+      </ol>
+
+      <div className="mt-4 flex flex-wrap gap-3">
+        <button onClick={addStep} className="flex items-center px-4 py-2 bg-white text-sky-700 border border-sky-500 rounded-md hover:bg-sky-50 transition-colors text-sm font-semibold">
+          <PlusCircleIcon className="w-4 h-4 mr-1" />
+          添加匹配步骤
+        </button>
+        <button onClick={() => loadDraft(DEFAULT_PIPELINE)} className="px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors text-sm font-semibold">
+          恢复默认流程
+        </button>
+        <button onClick={() => importInputRef.current?.click()} className="flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors text-sm font-semibold">
+          <UploadIcon className="w-4 h-4 mr-1" />
+          导入 JSON
+        </button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+        <button onClick={handleExport} className="flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors text-sm font-semibold">
+          <DownloadIcon className="w-4 h-4 mr-1" />
+          导出 JSON
+        </button>
+        <button onClick={handleSave} className="ml-auto px-5 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors font-semibold">
+          保存流程
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,94 @@
+import React, { useRef } from 'react';
+import { ProjectSummary } from '../services/projectStore';
+import { CloseIcon, PlusCircleIcon, UploadIcon } from './icons';
+
+interface ProjectManagerProps {
+  isOpen: boolean;
+  projects: ProjectSummary[];
+  activeProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onNew: () => void;
+  onClose: () => void;
+}
+
+const formatTime = (iso: string) => new Date(iso).toLocaleString('zh-CN', { hour12: false });
+
+export const ProjectManager: React.FC<ProjectManagerProps> = ({ isOpen, projects, activeProjectId, onOpen, onDelete, onImport, onNew, onClose }) => {
+  const importInputRef = useRef<HTMLInputElement>(null);
+  if (!isOpen) return null;
+
+  const handleImport = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) onImport(file);
+  };
+
+  return (
+    <div className="fixed inset-0 z-20 overflow-y-auto" aria-labelledby="project-manager-title" role="dialog" aria-modal="true">
+      <div className="flex items-end justify-center min-h-screen pt-4 px-4 pb-20 text-center sm:block sm:p-0">
+        <div className="fixed inset-0 bg-slate-500 bg-opacity-75 transition-opacity" aria-hidden="true" onClick={onClose}></div>
+
+        <span className="hidden sm:inline-block sm:align-middle sm:h-screen" aria-hidden="true">&#8203;</span>
+
+        <div className="relative inline-block align-bottom bg-white rounded-lg text-left overflow-hidden shadow-xl transform transition-all sm:my-8 sm:align-middle sm:max-w-2xl sm:w-full">
+          <div className="bg-white px-4 pt-5 pb-4 sm:p-6 sm:pb-4">
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg leading-6 font-medium text-slate-900" id="project-manager-title">分析项目</h3>
+              <button onClick={onClose} className="text-slate-500 hover:text-slate-700" aria-label="关闭">
+                <CloseIcon className="w-5 h-5" />
+              </button>
+            </div>
+            <p className="text-sm text-slate-500 mb-3">项目会自动保存在本浏览器中。打开一个项目即可从上次停下的地方继续。</p>
+            {projects.length === 0 ? (
+              <p className="text-sm text-slate-500 text-center py-6 bg-slate-50 rounded-md border border-slate-200">还没有保存的项目。</p>
+            ) : (
+              <ul className="max-h-96 overflow-y-auto divide-y divide-slate-200 border border-slate-200 rounded-md">
+                {projects.map(project => (
+                  <li key={project.id} className={`flex items-center justify-between gap-4 px-4 py-3 ${project.id === activeProjectId ? 'bg-sky-50' : 'bg-white'}`}>
+                    <div className="min-w-0">
+                      <p className="font-semibold text-slate-800 truncate">
+                        {project.name}
+                        {project.id === activeProjectId && <span className="ml-2 text-xs font-normal text-sky-700">(当前)</span>}
+                      </p>
+                      <p className="text-xs text-slate-500">{formatTime(project.savedAt)} · {project.description}</p>
+                    </div>
+                    <div className="flex flex-shrink-0 gap-2">
+                      <button
+                        onClick={() => onOpen(project.id)}
+                        disabled={project.id === activeProjectId}
+                        className="px-3 py-1.5 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors disabled:bg-slate-400 text-sm font-semibold"
+                      >
+                        打开
+                      </button>
+                      <button
+                        onClick={() => onDelete(project.id)}
+                        disabled={project.id === activeProjectId}
+                        title={project.id === activeProjectId ? '当前项目正在使用中，无法删除。' : undefined}
+                        className="px-3 py-1.5 bg-white text-red-600 border border-red-300 rounded-md hover:bg-red-50 transition-colors disabled:bg-slate-200 disabled:text-slate-500 disabled:border-slate-300 text-sm font-semibold"
+                      >
+                        删除
+                      </button>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div className="bg-slate-50 px-4 py-3 sm:px-6 flex flex-wrap gap-3 justify-end">
+            <button onClick={() => importInputRef.current?.click()} className="flex items-center px-4 py-2 bg-white text-slate-700 border border-slate-300 rounded-md hover:bg-slate-100 transition-colors text-sm font-semibold">
+              <UploadIcon className="w-4 h-4 mr-1" />
+              导入项目文件
+            </button>
+            <input ref={importInputRef} type="file" accept=".json,application/json" className="sr-only" onChange={handleImport} />
+            <button onClick={onNew} className="flex items-center px-4 py-2 bg-sky-600 text-white rounded-md hover:bg-sky-700 transition-colors text-sm font-semibold">
+              <PlusCircleIcon className="w-4 h-4 mr-1" />
+              新建空白项目
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
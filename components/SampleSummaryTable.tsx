@@ -0,0 +1,45 @@
+import React from 'react';
+import { SampleSummary } from '../services/normalization';
+
+interface SampleSummaryTableProps {
+  before: SampleSummary[];
+  after: SampleSummary[];
+}
+
+const formatNumber = (value: number): string => value.toPrecision(4);
+
+export const SampleSummaryTable: React.FC<SampleSummaryTableProps> = ({ before, after }) => {
+  const afterByColumn = new Map<string, SampleSummary>(after.map(summary => [summary.column, summary]));
+
+  return (
+    <div className="max-h-72 overflow-auto border border-slate-200 rounded-md bg-white">
+      <table className="min-w-full divide-y divide-slate-200 text-sm">
+        <thead className="bg-slate-100 sticky top-0">
+          <tr>
+            <th className="py-2 px-3 text-left font-semibold text-slate-700">样本列</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">总强度 (前)</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">总强度 (后)</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">中位数 (前)</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">中位数 (后)</th>
+            <th className="py-2 px-3 text-right font-semibold text-slate-700">检出特征数</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {before.map(summary => {
+            const next = afterByColumn.get(summary.column);
+            return (
+              <tr key={summary.column}>
+                <td className="py-2 px-3 text-slate-800">{summary.column}</td>
+                <td className="py-2 px-3 text-right text-slate-600">{formatNumber(summary.total)}</td>
+                <td className="py-2 px-3 text-right text-slate-600">{next ? formatNumber(next.total) : '-'}</td>
+                <td className="py-2 px-3 text-right text-slate-600">{formatNumber(summary.median)}</td>
+                <td className="py-2 px-3 text-right text-slate-600">{next ? formatNumber(next.median) : '-'}</td>
+                <td className="py-2 px-3 text-right text-slate-600">{next?.detected ?? summary.detected}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
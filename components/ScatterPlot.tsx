@@ -0,0 +1,91 @@
+import React, { useState } from 'react';
+
+export interface ScatterPoint {
+  x: number;
+  y: number;
+  label: string;
+  group?: string;
+}
+
+interface ScatterPlotProps {
+  points: ScatterPoint[];
+  xLabel: string;
+  yLabel: string;
+  pointRadius?: number;
+}
+
+const WIDTH = 480;
+const HEIGHT = 360;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 52 };
+
+const GROUP_COLORS = [
+  { fill: 'fill-sky-600', bg: 'bg-sky-600' },
+  { fill: 'fill-red-500', bg: 'bg-red-500' },
+  { fill: 'fill-green-600', bg: 'bg-green-600' },
+  { fill: 'fill-purple-600', bg: 'bg-purple-600' },
+  { fill: 'fill-amber-500', bg: 'bg-amber-500' },
+  { fill: 'fill-pink-500', bg: 'bg-pink-500' },
+  { fill: 'fill-teal-500', bg: 'bg-teal-500' },
+];
+const QC_COLOR = { fill: 'fill-slate-400', bg: 'bg-slate-400' };
+
+export const ScatterPlot: React.FC<ScatterPlotProps> = ({ points, xLabel, yLabel, pointRadius = 4 }) => {
+  const [hovered, setHovered] = useState<ScatterPoint | null>(null);
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 text-center">没有可绘制的数据点。</p>;
+  }
+
+  const groups = [...new Set<string>(points.map(p => p.group).filter((g): g is string => g !== undefined))];
+  const colorOf = (group?: string) => {
+    if (group === undefined) return GROUP_COLORS[0];
+    if (group === 'QC') return QC_COLOR;
+    return GROUP_COLORS[groups.filter(g => g !== 'QC').indexOf(group) % GROUP_COLORS.length];
+  };
+
+  // Symmetric axes keep the origin in the middle, which is how score and loading plots are usually read.
+  const maxAbsX = Math.max(...points.map(p => Math.abs(p.x))) * 1.1 || 1;
+  const maxAbsY = Math.max(...points.map(p => Math.abs(p.y))) * 1.1 || 1;
+  const x = (value: number) => PADDING.left + ((value + maxAbsX) / (2 * maxAbsX)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => HEIGHT - PADDING.bottom - ((value + maxAbsY) / (2 * maxAbsY)) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white border border-slate-200 rounded-md">
+        <rect x={PADDING.left} y={PADDING.top} width={WIDTH - PADDING.left - PADDING.right} height={HEIGHT - PADDING.top - PADDING.bottom} fill="none" className="stroke-slate-300" />
+        <line x1={x(0)} y1={PADDING.top} x2={x(0)} y2={HEIGHT - PADDING.bottom} className="stroke-slate-200" strokeDasharray="4 4" />
+        <line x1={PADDING.left} y1={y(0)} x2={WIDTH - PADDING.right} y2={y(0)} className="stroke-slate-200" strokeDasharray="4 4" />
+        <text x={WIDTH / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[11px]">{xLabel}</text>
+        <text x={14} y={HEIGHT / 2} textAnchor="middle" transform={`rotate(-90 14 ${HEIGHT / 2})`} className="fill-slate-500 text-[11px]">{yLabel}</text>
+        <text x={PADDING.left} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{(-maxAbsX).toPrecision(2)}</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{maxAbsX.toPrecision(2)}</text>
+        <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="fill-slate-500 text-[10px]">{maxAbsY.toPrecision(2)}</text>
+        <text x={PADDING.left - 6} y={HEIGHT - PADDING.bottom} textAnchor="end" className="fill-slate-500 text-[10px]">{(-maxAbsY).toPrecision(2)}</text>
+        {points.map((p, i) => (
+          <circle
+            key={i}
+            cx={x(p.x)}
+            cy={y(p.y)}
+            r={hovered === p ? pointRadius + 2 : pointRadius}
+            className={`${colorOf(p.group).fill} opacity-80 cursor-pointer`}
+            onMouseEnter={() => setHovered(p)}
+            onMouseLeave={() => setHovered(null)}
+          />
+        ))}
+      </svg>
+      {hovered && (
+        <div className="absolute top-2 right-2 bg-white/95 border border-slate-200 rounded-md shadow px-3 py-2 text-xs text-slate-700 pointer-events-none">
+          <p className="font-semibold text-slate-800">{hovered.label}</p>
+          {hovered.group && <p>分组: {hovered.group}</p>}
+          <p>({hovered.x.toPrecision(3)}, {hovered.y.toPrecision(3)})</p>
+        </div>
+      )}
+      {groups.length > 0 && (
+        <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600">
+          {groups.map(group => (
+            <span key={group} className="flex items-center"><span className={`w-2 h-2 rounded-full ${colorOf(group).bg} mr-1`} />{group}</span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -12,7 +12,7 @@ export const Stepper: React.FC<StepperProps> = ({ steps, currentStep }) => {
     <nav aria-label="Progress">
       <ol role="list" className="flex items-center">
         {steps.map((step, stepIdx) => (
-          <li key={step.name} className={`relative ${stepIdx !== steps.length - 1 ? 'pr-8 sm:pr-20' : ''}`}>
+          <li key={`${stepIdx}-${step.name}`} className={`relative ${stepIdx !== steps.length - 1 ? 'pr-8 sm:pr-20' : ''}`}>
             {stepIdx < currentStep ? (
               <>
                 <div className="absolute inset-0 flex items-center" aria-hidden="true">
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { DifferentialResult, isSignificant } from '../services/statistics';
+
+interface VolcanoPlotProps {
+  results: DifferentialResult[];
+  labelOf: (rowIndex: number) => string;
+  maxFdr: number;
+  minAbsLog2Fc: number;
+  selectedIndex: number | null;
+  onSelect: (rowIndex: number) => void;
+}
+
+const WIDTH = 640;
+const HEIGHT = 360;
+const PADDING = { top: 16, right: 16, bottom: 40, left: 52 };
+
+export const VolcanoPlot: React.FC<VolcanoPlotProps> = ({ results, labelOf, maxFdr, minAbsLog2Fc, selectedIndex, onSelect }) => {
+  const [hovered, setHovered] = useState<DifferentialResult | null>(null);
+  const points = results.filter(r => r.log2FoldChange !== null && r.pValue !== null && r.pValue > 0);
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-500 text-center">没有可绘制的特征。</p>;
+  }
+
+  const xs = points.map(r => r.log2FoldChange!);
+  const ys = points.map(r => -Math.log10(r.pValue!));
+  const maxAbsX = Math.max(1, ...xs.map(Math.abs)) * 1.05;
+  const maxY = Math.max(1, ...ys) * 1.05;
+  const x = (value: number) => PADDING.left + ((value + maxAbsX) / (2 * maxAbsX)) * (WIDTH - PADDING.left - PADDING.right);
+  const y = (value: number) => HEIGHT - PADDING.bottom - (value / maxY) * (HEIGHT - PADDING.top - PADDING.bottom);
+
+  const colorOf = (r: DifferentialResult) => {
+    if (!isSignificant(r, maxFdr, minAbsLog2Fc)) return 'fill-slate-300';
+    return r.log2FoldChange! > 0 ? 'fill-red-500' : 'fill-sky-600';
+  };
+
+  return (
+    <div className="relative">
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto bg-white border border-slate-200 rounded-md">
+        <line x1={PADDING.left} y1={HEIGHT - PADDING.bottom} x2={WIDTH - PADDING.right} y2={HEIGHT - PADDING.bottom} className="stroke-slate-300" />
+        <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={HEIGHT - PADDING.bottom} className="stroke-slate-300" />
+        {[-minAbsLog2Fc, minAbsLog2Fc].map(v => (
+          <line key={v} x1={x(v)} y1={PADDING.top} x2={x(v)} y2={HEIGHT - PADDING.bottom} className="stroke-slate-300" strokeDasharray="4 4" />
+        ))}
+        <text x={WIDTH / 2} y={HEIGHT - 8} textAnchor="middle" className="fill-slate-500 text-[11px]">log2 倍数变化</text>
+        <text x={14} y={HEIGHT / 2} textAnchor="middle" transform={`rotate(-90 14 ${HEIGHT / 2})`} className="fill-slate-500 text-[11px]">-log10 P 值</text>
+        <text x={PADDING.left} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{(-maxAbsX).toFixed(1)}</text>
+        <text x={x(0)} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">0</text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - PADDING.bottom + 14} textAnchor="middle" className="fill-slate-500 text-[10px]">{maxAbsX.toFixed(1)}</text>
+        <text x={PADDING.left - 6} y={PADDING.top + 4} textAnchor="end" className="fill-slate-500 text-[10px]">{maxY.toFixed(1)}</text>
+        {points.map(r => (
+          <circle
+            key={r.rowIndex}
+            cx={x(r.log2FoldChange!)}
+            cy={y(-Math.log10(r.pValue!))}
+            r={r.rowIndex === selectedIndex ? 6 : 3.5}
+            className={`${colorOf(r)} cursor-pointer ${r.rowIndex === selectedIndex ? 'stroke-slate-900' : ''}`}
+            strokeWidth={r.rowIndex === selectedIndex ? 1.5 : 0}
+            onMouseEnter={() => setHovered(r)}
+            onMouseLeave={() => setHovered(null)}
+            onClick={() => onSelect(r.rowIndex)}
+          />
+        ))}
+      </svg>
+      {hovered && (
+        <div className="absolute top-2 right-2 bg-white/95 border border-slate-200 rounded-md shadow px-3 py-2 text-xs text-slate-700 pointer-events-none">
+          <p className="font-semibold text-slate-800">{labelOf(hovered.rowIndex)}</p>
+          <p>log2FC: {hovered.log2FoldChange!.toFixed(3)}</p>
+          <p>P: {hovered.pValue!.toExponential(2)} · FDR: {hovered.fdr !== null ? hovered.fdr.toExponential(2) : '-'}</p>
+        </div>
+      )}
+      <div className="flex flex-wrap gap-4 mt-2 text-xs text-slate-600">
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-red-500 mr-1" />显著上调</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-sky-600 mr-1" />显著下调</span>
+        <span className="flex items-center"><span className="w-2 h-2 rounded-full bg-slate-300 mr-1" />不显著</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import { AnnotationRules, TableRow } from '../types';
+
+const STORAGE_KEY = 'metabolomics.annotationPresets';
+
+export const DEFAULT_ANNOTATION_RULES: AnnotationRules = {
+  minMqScore: 0.9,
+  libraryQualities: ['Gold'],
+  minSharedPeaks: 10,
+  maxAbsPpmError: 5,
+  minSiriusConfidence: 0.8,
+  preferWhenBothStrong: 'sirius',
+  fallback: 'fbmn',
+};
+
+export interface AnnotationDecision {
+  annotation: string;
+  source: 'FBMN' | 'SIRIUS' | 'agreement' | '';
+  reason: string;
+}
+
+const SOURCE_LABEL = { fbmn: 'FBMN', sirius: 'SIRIUS' } as const;
+
+export const describeFbmn = (row: TableRow, rules: AnnotationRules): { strong: boolean; detail: string } => {
+  const mqScore = parseFloat(String(row['MQScore']));
+  const libQuality = String(row['LibraryQualityString'] || '');
+  const sharedPeaks = parseInt(String(row['SharedPeaks']));
+  const mzError = parseFloat(String(row['MZErrorPPM']));
+
+  const failures: string[] = [];
+  if (isNaN(mqScore) || !(mqScore > rules.minMqScore)) failures.push(`MQScore ${isNaN(mqScore) ? '缺失' : mqScore} ≤ ${rules.minMqScore}`);
+  if (!rules.libraryQualities.includes(libQuality)) failures.push(`库质量 ${libQuality || '缺失'} 不在 [${rules.libraryQualities.join(', ')}] 中`);
+  if (isNaN(sharedPeaks) || !(sharedPeaks > rules.minSharedPeaks)) failures.push(`SharedPeaks ${isNaN(sharedPeaks) ? '缺失' : sharedPeaks} ≤ ${rules.minSharedPeaks}`);
+  if (isNaN(mzError) || !(Math.abs(mzError) < rules.maxAbsPpmError)) failures.push(`|ppm| ${isNaN(mzError) ? '缺失' : Math.abs(mzError)} ≥ ${rules.maxAbsPpmError}`);
+
+  return failures.length === 0
+    ? { strong: true, detail: `FBMN 强 (MQScore ${mqScore}, ${libQuality}, SharedPeaks ${sharedPeaks}, |ppm| ${Math.abs(mzError)})` }
+    : { strong: false, detail: `FBMN 弱 (${failures.join('; ')})` };
+};
+
+export const describeSirius = (row: TableRow, rules: AnnotationRules): { strong: boolean; detail: string } => {
+  const confidence = parseFloat(String(row['ConfidenceScoreExact']));
+  if (!isNaN(confidence) && confidence > rules.minSiriusConfidence) {
+    return { strong: true, detail: `SIRIUS 强 (置信度 ${confidence} > ${rules.minSiriusConfidence})` };
+  }
+  return { strong: false, detail: `SIRIUS 弱 (置信度 ${isNaN(confidence) ? '缺失' : confidence} ≤ ${rules.minSiriusConfidence})` };
+};
+
+export const determineFinalAnnotation = (row: TableRow, rules: AnnotationRules = DEFAULT_ANNOTATION_RULES): AnnotationDecision => {
+  const compoundName = String(row['Compound_Name'] || '').trim();
+  const siriusName = String(row['name'] || '').trim();
+
+  if (!compoundName && !siriusName) return { annotation: '', source: '', reason: 'FBMN 与 SIRIUS 均无注释' };
+  if (compoundName && !siriusName) return { annotation: compoundName, source: 'FBMN', reason: '仅 FBMN 有注释' };
+  if (!compoundName && siriusName) return { annotation: siriusName, source: 'SIRIUS', reason: '仅 SIRIUS 有注释' };
+
+  if (compoundName.toLowerCase() === siriusName.toLowerCase()) {
+    return { annotation: compoundName, source: 'agreement', reason: 'FBMN 与 SIRIUS 注释一致' };
+  }
+
+  const fbmn = describeFbmn(row, rules);
+  const sirius = describeSirius(row, rules);
+  const names = { fbmn: compoundName, sirius: siriusName };
+
+  let chosen: 'fbmn' | 'sirius';
+  let rule: string;
+  if (fbmn.strong && sirius.strong) {
+    chosen = rules.preferWhenBothStrong;
+    rule = `两者均强，优先 ${SOURCE_LABEL[chosen]}`;
+  } else if (fbmn.strong) {
+    chosen = 'fbmn';
+    rule = '仅 FBMN 达标';
+  } else if (sirius.strong) {
+    chosen = 'sirius';
+    rule = '仅 SIRIUS 达标';
+  } else {
+    chosen = rules.fallback;
+    rule = `均未达标，默认采用 ${SOURCE_LABEL[chosen]}`;
+  }
+
+  return { annotation: names[chosen], source: SOURCE_LABEL[chosen], reason: `${rule}: ${fbmn.detail}; ${sirius.detail}` };
+};
+
+export const loadAnnotationPresets = (): Record<string, AnnotationRules> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const saveAnnotationPresets = (presets: Record<string, AnnotationRules>) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+};
@@ -0,0 +1,269 @@
+import { MassTolerance, SampleInfo, TableData, TableRow } from '../types';
+import { buildMassCandidates, findCandidatesInWindow, findClosestMzRtMatch, toNumber } from './massMatcher';
+
+export type BatchAlignMode = 'id' | 'mzRt';
+export type BatchCorrectionMethod = 'none' | 'qc' | 'mean';
+
+export const BATCH_CORRECTION_LABELS: Record<BatchCorrectionMethod, string> = {
+  none: '不校正',
+  qc: 'QC 锚定校正',
+  mean: '按批次均值校正',
+};
+
+export const BATCH_COLUMN = 'Batch_Detected';
+
+export interface BatchTable {
+  name: string;
+  fileName: string;
+  data: TableData;
+  intensityCols: string[];
+  qcCols: string[];
+}
+
+export interface BatchMergeOutcome {
+  data: TableData;
+  columnBatches: Record<string, string>;
+  intensityCols: string[];
+  qcCols: string[];
+  newFeatures: Record<string, number>;
+  renamedIds: Record<string, number>;
+}
+
+// Accepts either a net table with ID/MZ/RT or an MZmine export whose Filename column reads "ID/mz/rt".
+export const prepareNetTable = (data: TableData): { data: TableData; parsedFilename: boolean } => {
+  const { headers, rows } = data;
+  let processedData: TableData;
+  let parsedFilename = false;
+
+  if (headers.includes('ID') && headers.includes('MZ') && headers.includes('RT')) {
+    processedData = data;
+  } else if (headers.includes('Filename')) {
+    const newRows = rows.map(row => {
+      const filename = String(row['Filename'] || '');
+      const parts = filename.split('/');
+      if (parts.length >= 3) {
+        const id = parts[0].trim();
+        const mz = parts[1].replace(/mz/i, '').trim();
+        const rt = parts[2].replace(/min/i, '').trim();
+        return { ...row, ID: id, MZ: mz, RT: rt };
+      }
+      return { ...row, ID: null, MZ: null, RT: null };
+    });
+
+    const originalHeaders = [...headers];
+    const newHeaders = ['ID', 'MZ', 'RT'].filter(h => !originalHeaders.includes(h));
+    const filenameIndex = originalHeaders.indexOf('Filename');
+    if (filenameIndex !== -1) {
+      originalHeaders.splice(filenameIndex + 1, 0, ...newHeaders);
+    } else {
+      originalHeaders.unshift(...newHeaders);
+    }
+
+    processedData = { headers: [...new Set<string>(originalHeaders)], rows: newRows };
+    parsedFilename = true;
+  } else {
+    throw new Error(`文件必须包含 'ID', 'MZ', 'RT' 列，或者包含 'Filename' 列以供解析。`);
+  }
+
+  const missingCols = ['ID', 'MZ'].filter(col => !processedData.headers.includes(col));
+  if (missingCols.length > 0) {
+    throw new Error(`处理后，文件仍缺少必需的列: ${missingCols.join(', ')}`);
+  }
+  return { data: processedData, parsedFilename };
+};
+
+const featureKey = (row: TableRow): string | null => row.ID != null && String(row.ID).trim() !== '' ? String(row.ID).trim() : null;
+
+// The first batch is the reference. Later batches are aligned to every feature merged so far; a feature already
+// claimed by another row of the same batch falls back to the next-closest one in the window, and features without a
+// partner are appended as new rows. Intensity columns and appended IDs whose names already exist get a batch suffix,
+// since each batch numbers its features on its own and a clashing ID would join the wrong annotations later.
+export const mergeBatches = (
+  batches: BatchTable[],
+  options: { alignBy: BatchAlignMode; tolerance: MassTolerance; rtWindow: number },
+): BatchMergeOutcome => {
+  if (batches.length < 2) throw new Error('至少需要两个批次才能合并。');
+  if (options.alignBy === 'mzRt') {
+    const missingRt = batches.filter(batch => !batch.data.headers.includes('RT')).map(batch => batch.name);
+    if (missingRt.length > 0) throw new Error(`按 m/z + RT 对齐时每个批次都需要 'RT' 列，缺少的批次: ${missingRt.join(', ')}`);
+  }
+
+  const annotationHeaders: string[] = [];
+  const intensityCols: string[] = [];
+  const qcCols: string[] = [];
+  const columnBatches: Record<string, string> = {};
+  const newFeatures: Record<string, number> = {};
+  const renamedIds: Record<string, number> = {};
+  const merged: TableRow[] = [];
+  const usedIds = new Set<string>();
+
+  batches.forEach((batch, batchIndex) => {
+    const rename = new Map<string, string>();
+    batch.intensityCols.forEach(col => {
+      const name = intensityCols.includes(col) ? `${col}_${batch.name}` : col;
+      rename.set(col, name);
+      intensityCols.push(name);
+      columnBatches[name] = batch.name;
+      if (batch.qcCols.includes(col)) qcCols.push(name);
+    });
+    batch.data.headers
+      .filter(h => !rename.has(h) && !annotationHeaders.includes(h))
+      .forEach(h => annotationHeaders.push(h));
+
+    const byId = new Map<string, number>();
+    merged.forEach((row, i) => {
+      const key = featureKey(row);
+      if (key !== null && !byId.has(key)) byId.set(key, i);
+    });
+    const candidates = options.alignBy === 'mzRt' ? buildMassCandidates(merged, 'MZ', 'RT') : [];
+    const indexOf = new Map<TableRow, number>(merged.map((row, i) => [row, i]));
+    const claimed = new Set<number>();
+
+    let added = 0;
+    let renamed = 0;
+    batch.data.rows.forEach(row => {
+      let target: number | undefined;
+      if (batchIndex > 0) {
+        if (options.alignBy === 'id') {
+          const key = featureKey(row);
+          target = key !== null ? byId.get(key) : undefined;
+        } else {
+          const mz = toNumber(row.MZ);
+          const rt = toNumber(row.RT);
+          if (mz !== null && rt !== null) {
+            const unclaimed = findCandidatesInWindow(candidates, mz, options.tolerance).filter(c => !claimed.has(indexOf.get(c.row)!));
+            const { match } = findClosestMzRtMatch(unclaimed, mz, rt, options.tolerance, options.rtWindow);
+            target = match ? indexOf.get(match) : undefined;
+          }
+        }
+        if (target !== undefined && claimed.has(target)) target = undefined;
+      }
+
+      const intensities: TableRow = {};
+      rename.forEach((name, col) => intensities[name] = row[col] ?? null);
+      if (target !== undefined) {
+        claimed.add(target);
+        const existing = merged[target];
+        merged[target] = { ...existing, ...intensities, [BATCH_COLUMN]: `${existing[BATCH_COLUMN]};${batch.name}` };
+        return;
+      }
+      const annotations: TableRow = {};
+      batch.data.headers.filter(h => !rename.has(h)).forEach(h => annotations[h] = row[h] ?? null);
+      const key = featureKey(row);
+      if (batchIndex > 0 && key !== null && usedIds.has(key)) {
+        let unique = `${key}_${batch.name}`;
+        for (let n = 2; usedIds.has(unique); n++) unique = `${key}_${batch.name}_${n}`;
+        annotations.ID = unique;
+        renamed++;
+      }
+      const id = featureKey(annotations);
+      if (id !== null) usedIds.add(id);
+      merged.push({ ...annotations, ...intensities, [BATCH_COLUMN]: batch.name });
+      if (batchIndex > 0) added++;
+    });
+    if (batchIndex > 0) {
+      newFeatures[batch.name] = added;
+      if (renamed > 0) renamedIds[batch.name] = renamed;
+    }
+  });
+
+  const headers = [...annotationHeaders, ...intensityCols, BATCH_COLUMN];
+  const rows = merged.map(row => {
+    const complete: TableRow = {};
+    headers.forEach(h => complete[h] = row[h] ?? null);
+    return complete;
+  });
+  return { data: { headers, rows }, columnBatches, intensityCols, qcCols, newFeatures, renamedIds };
+};
+
+// A sheet's batch label may be the batch name (B2), the file name or just the batch number.
+const isSameBatch = (label: string, batch: BatchTable): boolean => {
+  const text = label.trim().toLowerCase();
+  if (!text) return false;
+  const digits = text.replace(/\D/g, '');
+  return text === batch.name.toLowerCase() || text === batch.fileName.toLowerCase()
+    || (digits !== '' && digits === batch.name.replace(/\D/g, ''));
+};
+
+// Name a merged column had in its batch file: clashing names were given a _<batch> suffix.
+const originalColumn = (column: string, batchName: string): string =>
+  column.endsWith(`_${batchName}`) ? column.slice(0, -(batchName.length + 1)) : column;
+
+// Renamed columns (QC-1 -> QC-1_B2) no longer match the sample sheet by name. Each merged column takes the sheet row
+// listing it under its new name, else the row for its original name in its own batch, else the only row for that
+// name, and the sheet is rewritten with the merged names so every tool keeps classifying those columns.
+export const assignBatchMetadata = (metadata: SampleInfo[], batches: BatchTable[], columnBatches: Record<string, string>): SampleInfo[] => {
+  const batchByName = new Map<string, BatchTable>(batches.map(batch => [batch.name, batch]));
+  const originals = new Set<string>();
+  const assigned: SampleInfo[] = [];
+  Object.entries(columnBatches).forEach(([column, batchName]) => {
+    const original = originalColumn(column, batchName);
+    originals.add(original);
+    const batch = batchByName.get(batchName);
+    const candidates = metadata.filter(info => info.column === original);
+    const info = metadata.find(info => info.column === column && column !== original)
+      ?? candidates.find(info => batch && isSameBatch(info.batch, batch))
+      ?? (candidates.length === 1 ? candidates[0] : candidates.find(info => !info.batch.trim()));
+    if (info) assigned.push({ ...info, column, batch: info.batch || batchName });
+  });
+  const names = new Set<string>(assigned.map(info => info.column));
+  return [...assigned, ...metadata.filter(info => !names.has(info.column) && !originals.has(info.column))];
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+// QC-anchored: each batch is scaled so its QC median matches the QC median over all batches.
+// Mean: each batch is scaled so its mean matches the overall mean; this is the ratio form of
+// mean-centering, which keeps intensities positive for the downstream tools.
+export const correctBatchEffects = (
+  merged: BatchMergeOutcome,
+  method: BatchCorrectionMethod,
+): { data: TableData; skippedFeatures: number } => {
+  if (method === 'none') return { data: merged.data, skippedFeatures: 0 };
+  const batchNames = [...new Set<string>(Object.values(merged.columnBatches))];
+  const anchorCols = method === 'qc' ? merged.qcCols : merged.intensityCols;
+  const stat = method === 'qc' ? median : mean;
+  let skippedFeatures = 0;
+
+  const positives = (row: TableRow, cols: string[]) =>
+    cols.map(col => toNumber(row[col])).filter((v): v is number => v !== null && v > 0);
+
+  const rows = merged.data.rows.map(row => {
+    const overall = positives(row, anchorCols);
+    if (overall.length === 0) {
+      skippedFeatures++;
+      return row;
+    }
+    const target = stat(overall);
+    const newRow: TableRow = { ...row };
+    let skipped = false;
+    batchNames.forEach(batch => {
+      const batchCols = merged.intensityCols.filter(col => merged.columnBatches[col] === batch);
+      if (positives(row, batchCols).length === 0) return;
+      const anchors = positives(row, anchorCols.filter(col => merged.columnBatches[col] === batch));
+      if (anchors.length === 0) {
+        skipped = true;
+        return;
+      }
+      const factor = target / stat(anchors);
+      batchCols.forEach(col => {
+        const value = toNumber(row[col]);
+        if (value !== null && value > 0) newRow[col] = Number((value * factor).toPrecision(6));
+      });
+    });
+    if (skipped) skippedFeatures++;
+    return newRow;
+  });
+  return { data: { headers: merged.data.headers, rows }, skippedFeatures };
+};
+
+export const buildBatchSheet = (columnBatches: Record<string, string>): TableData => ({
+  headers: ['Column', 'Batch'],
+  rows: Object.entries(columnBatches).map(([column, batch]) => ({ Column: column, Batch: batch })),
+});
@@ -0,0 +1,45 @@
+import { CandidateHit, CandidateSet, ProcessingStep, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export const groupRowsByKey = (rows: TableRow[], keyColumn: string): Map<string, TableRow[]> => {
+  const groups = new Map<string, TableRow[]>();
+  rows.forEach(row => {
+    const value = row[keyColumn];
+    if (value == null || String(value).trim() === '') return;
+    const key = String(value).trim();
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(row);
+  });
+  return groups;
+};
+
+// Highest score first; rows without a numeric score keep their file order at the end.
+export const rankRows = (rows: TableRow[], rankColumn: string): TableRow[] => {
+  const score = (row: TableRow) => toNumber(row[rankColumn]) ?? -Infinity;
+  return [...rows].sort((a, b) => score(b) - score(a));
+};
+
+export const buildCandidateHits = (rankedRows: TableRow[], step: ProcessingStep, source: string): CandidateHit[] => {
+  const nameColumn = step.candidateNameColumn!;
+  return rankedRows
+    .filter(row => row[nameColumn] != null && String(row[nameColumn]).trim() !== '')
+    .map((row, index) => {
+      const values: TableRow = {};
+      step.appendColumns.forEach(col => values[col] = row[col] ?? null);
+      return {
+        source,
+        rank: index + 1,
+        name: String(row[nameColumn]).trim(),
+        score: step.rankColumn ? toNumber(row[step.rankColumn]) : null,
+        values,
+      };
+    });
+};
+
+export const formatCandidate = (hit: CandidateHit): string => hit.score !== null ? `${hit.name} (${hit.score})` : hit.name;
+
+export const candidateColumns = (source: string, topN: number): string[] =>
+  Array.from({ length: topN }, (_, i) => `${source}_Candidate_${i + 1}`);
+
+export const collectFeatureCandidates = (sets: Record<string, CandidateSet>, featureId: string): CandidateHit[] =>
+  Object.values(sets).flatMap(set => set.hits[featureId] ?? []);
@@ -0,0 +1,128 @@
+import { TableData } from '../types';
+import { toNumber } from './massMatcher';
+
+export type DistanceMetric = 'euclidean' | 'correlation';
+export type LinkageMethod = 'average' | 'complete';
+
+export const DISTANCE_LABELS: Record<DistanceMetric, string> = {
+  euclidean: '欧氏距离',
+  correlation: '相关距离 (1 - r)',
+};
+
+export const LINKAGE_LABELS: Record<LinkageMethod, string> = {
+  average: '平均连接',
+  complete: '完全连接',
+};
+
+export interface ClusterMerge {
+  left: number;
+  right: number;
+  height: number;
+}
+
+// Leaves are numbered 0..n-1 and the k-th merge creates node n + k.
+export interface ClusterTree {
+  order: number[];
+  merges: ClusterMerge[];
+}
+
+export interface HeatmapMatrix {
+  rowIndices: number[];
+  columns: string[];
+  groups: string[];
+  values: number[][];
+}
+
+const euclidean = (a: number[], b: number[]): number => Math.sqrt(a.reduce((sum, v, i) => sum + Math.pow(v - b[i], 2), 0));
+
+// A constant vector has no defined correlation; it is treated as unrelated to everything.
+const correlationDistance = (a: number[], b: number[]): number => {
+  const meanA = a.reduce((s, v) => s + v, 0) / a.length;
+  const meanB = b.reduce((s, v) => s + v, 0) / b.length;
+  let cov = 0, varA = 0, varB = 0;
+  a.forEach((v, i) => {
+    cov += (v - meanA) * (b[i] - meanB);
+    varA += Math.pow(v - meanA, 2);
+    varB += Math.pow(b[i] - meanB, 2);
+  });
+  return varA > 0 && varB > 0 ? 1 - cov / Math.sqrt(varA * varB) : 1;
+};
+
+export const distanceMatrix = (vectors: number[][], metric: DistanceMetric): number[][] => {
+  const distance = metric === 'euclidean' ? euclidean : correlationDistance;
+  const matrix = vectors.map(() => new Array<number>(vectors.length).fill(0));
+  for (let i = 0; i < vectors.length; i++) {
+    for (let j = i + 1; j < vectors.length; j++) {
+      matrix[i][j] = matrix[j][i] = distance(vectors[i], vectors[j]);
+    }
+  }
+  return matrix;
+};
+
+// Agglomerative clustering with Lance–Williams updates. O(n³), which is fine for a few hundred items.
+export const hierarchicalCluster = (vectors: number[][], metric: DistanceMetric, linkage: LinkageMethod): ClusterTree => {
+  const n = vectors.length;
+  if (n <= 1) return { order: vectors.map((_, i) => i), merges: [] };
+  const dist = distanceMatrix(vectors, metric);
+  const active = new Map<number, { node: number; size: number }>(vectors.map((_, i) => [i, { node: i, size: 1 }]));
+  const merges: ClusterMerge[] = [];
+
+  while (active.size > 1) {
+    let best = { i: -1, j: -1, d: Infinity };
+    const keys = [...active.keys()];
+    keys.forEach((i, a) => keys.slice(a + 1).forEach(j => {
+      if (dist[i][j] < best.d) best = { i, j, d: dist[i][j] };
+    }));
+    const left = active.get(best.i)!;
+    const right = active.get(best.j)!;
+    keys.filter(k => k !== best.i && k !== best.j).forEach(k => {
+      const merged = linkage === 'complete'
+        ? Math.max(dist[best.i][k], dist[best.j][k])
+        : (dist[best.i][k] * left.size + dist[best.j][k] * right.size) / (left.size + right.size);
+      dist[best.i][k] = dist[k][best.i] = merged;
+    });
+    merges.push({ left: left.node, right: right.node, height: best.d });
+    active.set(best.i, { node: n + merges.length - 1, size: left.size + right.size });
+    active.delete(best.j);
+  }
+
+  const order: number[] = [];
+  const visit = (node: number) => {
+    if (node < n) {
+      order.push(node);
+      return;
+    }
+    visit(merges[node - n].left);
+    visit(merges[node - n].right);
+  };
+  visit(n + merges.length - 1);
+  return { order, merges };
+};
+
+// Rows are features, columns are samples. Values are log2 intensities with 0 or empty cells filled by half the
+// row's smallest observed value; rows observed in no sample are dropped. z-scoring is applied per row.
+export const buildHeatmapMatrix = (
+  data: TableData,
+  rowIndices: number[],
+  samples: { column: string; group: string }[],
+  zScore: boolean,
+): HeatmapMatrix => {
+  const kept: number[] = [];
+  const values: number[][] = [];
+  rowIndices.forEach(rowIndex => {
+    const raw = samples.map(s => toNumber(data.rows[rowIndex]?.[s.column]));
+    const positives = raw.filter((v): v is number => v !== null && v > 0);
+    if (positives.length === 0) return;
+    const fill = Math.min(...positives) / 2;
+    let row = raw.map(v => Math.log2(v !== null && v > 0 ? v : fill));
+    if (zScore) {
+      const mean = row.reduce((a, b) => a + b, 0) / row.length;
+      const sd = Math.sqrt(row.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / Math.max(1, row.length - 1));
+      row = row.map(v => sd > 0 ? (v - mean) / sd : 0);
+    }
+    kept.push(rowIndex);
+    values.push(row);
+  });
+  if (kept.length === 0) throw new Error('所选特征在这些样本中均没有强度值。');
+  return { rowIndices: kept, columns: samples.map(s => s.column), groups: samples.map(s => s.group), values };
+};
@@ -0,0 +1,112 @@
+import { ColumnMapping, ProcessingStep, TableData } from '../types';
+
+const STORAGE_KEY = 'metabolomics.columnMappings';
+const SUGGESTION_THRESHOLD = 0.6;
+
+// Header names that common FBMN, SIRIUS and MZmine exports use for the same content.
+const HEADER_ALIASES: Record<string, string[]> = {
+  id: ['scan', 'rowid', 'featureid', 'mappingfeatureid', 'clusterindex', 'alignmentid'],
+  ionmass: ['mz', 'precursormz', 'rowmz', 'ionmz', 'exactmass'],
+  mz: ['ionmass', 'precursormz', 'rowmz', 'mass'],
+  rt: ['rowretentiontime', 'retentiontime', 'rtmin', 'rettime'],
+  name: ['compoundname', 'siriusname'],
+  compoundname: ['name', 'compound'],
+};
+
+export const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9一-龥]/g, '');
+
+const bigrams = (text: string): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < text.length - 1; i++) result.push(text.slice(i, i + 2));
+  return result;
+};
+
+// Dice coefficient on character bigrams of the normalized names, with known aliases scoring just below an exact match.
+export const headerSimilarity = (target: string, header: string): number => {
+  const a = normalizeHeader(target);
+  const b = normalizeHeader(header);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+  if (HEADER_ALIASES[a]?.includes(b)) return 0.95;
+
+  const aGrams = bigrams(a);
+  const bGrams = bigrams(b);
+  if (aGrams.length === 0 || bGrams.length === 0) return 0;
+  const remaining = [...bGrams];
+  let overlap = 0;
+  aGrams.forEach(gram => {
+    const idx = remaining.indexOf(gram);
+    if (idx !== -1) {
+      overlap++;
+      remaining.splice(idx, 1);
+    }
+  });
+  return (2 * overlap) / (aGrams.length + bGrams.length);
+};
+
+export const suggestColumn = (target: string, headers: string[]): string | null => {
+  if (headers.includes(target)) return target;
+  let best: string | null = null;
+  let bestScore = SUGGESTION_THRESHOLD;
+  headers.forEach(header => {
+    const score = headerSimilarity(target, header);
+    if (score >= bestScore) {
+      best = header;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+export const getMappingTargets = (step: ProcessingStep): string[] => [...new Set([...step.requiredColumns, ...step.appendColumns])];
+
+// A required column is satisfied by the file itself or by a saved source column the file contains, in which case the
+// saved mapping is applied without asking again. An empty source records that the user chose not to map a column.
+export const needsColumnMapping = (step: ProcessingStep, headers: string[], saved: ColumnMapping): boolean => {
+  if (step.requiredColumns.some(col => !headers.includes(col) && !(saved[col] && headers.includes(saved[col])))) return true;
+  return step.appendColumns.some(col => !headers.includes(col) && !(col in saved) && suggestColumn(col, headers) !== null);
+};
+
+export const buildInitialMapping = (step: ProcessingStep, headers: string[], saved: ColumnMapping): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  getMappingTargets(step).forEach(target => {
+    const savedSource = saved[target];
+    if (savedSource !== undefined && (savedSource === '' || headers.includes(savedSource))) {
+      mapping[target] = savedSource;
+    } else {
+      mapping[target] = suggestColumn(target, headers) ?? '';
+    }
+  });
+  return mapping;
+};
+
+export const applyColumnMapping = (data: TableData, mapping: ColumnMapping): TableData => {
+  const pairs = Object.entries(mapping).filter(([target, source]) => source && source !== target && data.headers.includes(source));
+  if (pairs.length === 0) return data;
+
+  const headers = [...data.headers, ...pairs.map(([target]) => target).filter(target => !data.headers.includes(target))];
+  const rows = data.rows.map(row => {
+    const newRow = { ...row };
+    pairs.forEach(([target, source]) => newRow[target] = row[source] ?? null);
+    return newRow;
+  });
+  return { headers, rows };
+};
+
+export const getMappingKey = (step: ProcessingStep): string => step.fileType === 'custom' ? `custom:${step.name}` : step.fileType;
+
+const readAllMappings = (): Record<string, ColumnMapping> => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+export const loadColumnMapping = (key: string): ColumnMapping => readAllMappings()[key] ?? {};
+
+export const saveColumnMapping = (key: string, mapping: ColumnMapping) => {
+  const all = readAllMappings();
+  all[key] = { ...all[key], ...mapping };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+};
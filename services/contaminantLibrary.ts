@@ -0,0 +1,217 @@
+import { TableData, TableRow } from '../types';
+import { computePpmError, toNumber } from './massMatcher';
+import { ION_TYPES, IonPolarity } from './ionGrouping';
+import { ContaminantMatch } from './contaminantMatching';
+
+export type ContaminantCategory = 'plasticizer' | 'peg' | 'ppg' | 'siloxane' | 'detergent' | 'solvent';
+
+export const CONTAMINANT_CATEGORY_LABELS: Record<ContaminantCategory, string> = {
+  plasticizer: '增塑剂与塑料添加剂',
+  peg: 'PEG 系列',
+  ppg: 'PPG 系列',
+  siloxane: '硅氧烷',
+  detergent: '表面活性剂',
+  solvent: '溶剂与缓冲液离子',
+};
+
+export interface LibraryIon {
+  family: string;
+  label: string;
+  category: ContaminantCategory;
+  polarity: IonPolarity;
+  mz: number;
+}
+
+export interface LibrarySettings {
+  enabled: boolean;
+  ppm: number;
+  polarity: IonPolarity;
+  categories: ContaminantCategory[];
+}
+
+export const DEFAULT_LIBRARY_SETTINGS: LibrarySettings = {
+  enabled: false,
+  ppm: 5,
+  polarity: 'positive',
+  categories: Object.keys(CONTAMINANT_CATEGORY_LABELS) as ContaminantCategory[],
+};
+
+export const LIBRARY_COLUMN = 'Library_Contaminant';
+
+const ELEMENT_MASSES: Record<string, number> = {
+  C: 12,
+  H: 1.00782503,
+  N: 14.00307401,
+  O: 15.99491462,
+  F: 18.99840322,
+  Na: 22.98976928,
+  Si: 27.97692653,
+  P: 30.97376199,
+  S: 31.97207117,
+  Cl: 34.96885268,
+};
+const ELECTRON = 0.00054858;
+const PROTON = 1.007276;
+const SODIUM_ION = ELEMENT_MASSES.Na - ELECTRON;
+const FORMATE_ION = 44.998201;
+
+export const monoisotopicMass = (formula: string): number => {
+  let mass = 0;
+  formula.replace(/([A-Z][a-z]?)(\d*)/g, (_, element: string, count: string) => {
+    if (!(element in ELEMENT_MASSES)) throw new Error(`未知元素: ${element}`);
+    mass += ELEMENT_MASSES[element] * (count ? Number(count) : 1);
+    return '';
+  });
+  return mass;
+};
+
+const POSITIVE_ADDUCTS = ['[M+H]+', '[M+Na]+', '[M+NH4]+', '[M+K]+'];
+
+// `ions` name entries of ION_TYPES; 'M+' marks a permanently charged cation measured as is.
+interface LibraryCompound {
+  family: string;
+  name: string;
+  category: ContaminantCategory;
+  formula: string;
+  ions: string[];
+}
+
+const series = (
+  family: string, prefix: string, category: ContaminantCategory, range: [number, number], formula: (n: number) => string, ions: string[],
+): LibraryCompound[] => {
+  const compounds: LibraryCompound[] = [];
+  for (let n = range[0]; n <= range[1]; n++) compounds.push({ family, name: `${prefix} n=${n}`, category, formula: formula(n), ions });
+  return compounds;
+};
+
+const COMPOUNDS: LibraryCompound[] = [
+  { family: '邻苯二甲酸二甲酯 (DMP)', name: 'DMP', category: 'plasticizer', formula: 'C10H10O4', ions: POSITIVE_ADDUCTS },
+  { family: '邻苯二甲酸二乙酯 (DEP)', name: 'DEP', category: 'plasticizer', formula: 'C12H14O4', ions: POSITIVE_ADDUCTS },
+  { family: '邻苯二甲酸二丁酯 (DBP/DiBP)', name: 'DBP', category: 'plasticizer', formula: 'C16H22O4', ions: POSITIVE_ADDUCTS },
+  { family: '邻苯二甲酸丁苄酯 (BBP)', name: 'BBP', category: 'plasticizer', formula: 'C19H20O4', ions: POSITIVE_ADDUCTS },
+  { family: '邻苯二甲酸二(2-乙基己基)酯 (DEHP/DnOP)', name: 'DEHP', category: 'plasticizer', formula: 'C24H38O4', ions: [...POSITIVE_ADDUCTS, '[2M+Na]+'] },
+  { family: '邻苯二甲酸二异壬酯 (DiNP)', name: 'DiNP', category: 'plasticizer', formula: 'C26H42O4', ions: POSITIVE_ADDUCTS },
+  { family: '邻苯二甲酸二异癸酯 (DiDP)', name: 'DiDP', category: 'plasticizer', formula: 'C28H46O4', ions: POSITIVE_ADDUCTS },
+  { family: '己二酸二(2-乙基己基)酯 (DEHA)', name: 'DEHA', category: 'plasticizer', formula: 'C22H42O4', ions: POSITIVE_ADDUCTS },
+  { family: '磷酸三苯酯 (TPP)', name: 'TPP', category: 'plasticizer', formula: 'C18H15O4P', ions: POSITIVE_ADDUCTS },
+  { family: '磷酸三丁酯 (TBP)', name: 'TBP', category: 'plasticizer', formula: 'C12H27O4P', ions: POSITIVE_ADDUCTS },
+  { family: '磷酸三(2-氯乙基)酯 (TCEP)', name: 'TCEP', category: 'plasticizer', formula: 'C6H12Cl3O4P', ions: POSITIVE_ADDUCTS },
+  { family: '芥酸酰胺', name: 'Erucamide', category: 'plasticizer', formula: 'C22H43NO', ions: POSITIVE_ADDUCTS },
+  { family: '油酸酰胺', name: 'Oleamide', category: 'plasticizer', formula: 'C18H35NO', ions: POSITIVE_ADDUCTS },
+  { family: '硬脂酸酰胺', name: 'Stearamide', category: 'plasticizer', formula: 'C18H37NO', ions: POSITIVE_ADDUCTS },
+  { family: '棕榈酸酰胺', name: 'Palmitamide', category: 'plasticizer', formula: 'C16H33NO', ions: POSITIVE_ADDUCTS },
+  { family: 'Irgafos 168', name: 'Irgafos 168', category: 'plasticizer', formula: 'C42H63O3P', ions: POSITIVE_ADDUCTS },
+  { family: 'Irgafos 168 氧化物', name: 'Irgafos 168 oxide', category: 'plasticizer', formula: 'C42H63O4P', ions: POSITIVE_ADDUCTS },
+  { family: 'Irganox 1076', name: 'Irganox 1076', category: 'plasticizer', formula: 'C35H62O3', ions: POSITIVE_ADDUCTS },
+  { family: '2,6-二叔丁基对甲酚 (BHT)', name: 'BHT', category: 'plasticizer', formula: 'C15H24O', ions: ['[M+H]+', '[M-H]-'] },
+  { family: '双酚 A (BPA)', name: 'BPA', category: 'plasticizer', formula: 'C15H16O2', ions: ['[M+H]+', '[M-H]-'] },
+  ...series('PEG (聚乙二醇)', 'PEG', 'peg', [3, 30], n => `C${2 * n}H${4 * n + 2}O${n + 1}`, [...POSITIVE_ADDUCTS, '[M+FA-H]-', '[M+Cl]-']),
+  ...series('PPG (聚丙二醇)', 'PPG', 'ppg', [3, 20], n => `C${3 * n}H${6 * n + 2}O${n + 1}`, [...POSITIVE_ADDUCTS, '[M+FA-H]-']),
+  ...series('环状聚二甲基硅氧烷 (Dn)', 'D', 'siloxane', [3, 12], n => `C${2 * n}H${6 * n}O${n}Si${n}`, ['[M+H]+', '[M+NH4]+', '[M+Na]+']),
+  ...series('Triton X-100', 'Triton X-100', 'detergent', [3, 16], n => `C${14 + 2 * n}H${22 + 4 * n}O${1 + n}`, POSITIVE_ADDUCTS),
+  { family: '十二烷基硫酸钠 (SDS)', name: 'Dodecyl sulfate', category: 'detergent', formula: 'C12H26O4S', ions: ['[M-H]-', '[M+Na]+'] },
+  { family: '苯扎氯铵 (BAC)', name: 'BAC C12', category: 'detergent', formula: 'C21H38N', ions: ['M+'] },
+  { family: '苯扎氯铵 (BAC)', name: 'BAC C14', category: 'detergent', formula: 'C23H42N', ions: ['M+'] },
+  { family: '苯扎氯铵 (BAC)', name: 'BAC C16', category: 'detergent', formula: 'C25H46N', ions: ['M+'] },
+  { family: '十六烷基三甲基铵 (CTAB)', name: 'CTAB', category: 'detergent', formula: 'C19H42N', ions: ['M+'] },
+  { family: '四丁基铵', name: 'Tetrabutylammonium', category: 'detergent', formula: 'C16H36N', ions: ['M+'] },
+  { family: '三乙胺', name: 'Triethylamine', category: 'solvent', formula: 'C6H15N', ions: ['[M+H]+'] },
+  { family: '二甲基亚砜 (DMSO)', name: 'DMSO', category: 'solvent', formula: 'C2H6OS', ions: ['[M+H]+', '[M+Na]+', '[2M+H]+', '[2M+Na]+'] },
+];
+
+interface ClusterSeries {
+  family: string;
+  unit: string;
+  label: (n: number) => string;
+  carrier: number;
+  polarity: IonPolarity;
+  range: [number, number];
+}
+
+// Solvent and buffer clusters are listed as ions because they never occur as a neutral molecule plus one adduct.
+const CLUSTERS: ClusterSeries[] = [
+  { family: '乙腈簇', unit: 'C2H3N', label: n => `[${n}ACN+H]+`, carrier: PROTON, polarity: 'positive', range: [2, 4] },
+  { family: '乙腈簇', unit: 'C2H3N', label: n => `[${n}ACN+Na]+`, carrier: SODIUM_ION, polarity: 'positive', range: [1, 3] },
+  { family: '甲酸钠簇', unit: 'CHO2Na', label: n => `[(HCOONa)${n}+Na]+`, carrier: SODIUM_ION, polarity: 'positive', range: [1, 12] },
+  { family: '甲酸钠簇', unit: 'CHO2Na', label: n => `[(HCOONa)${n}+HCOO]-`, carrier: FORMATE_ION, polarity: 'negative', range: [1, 12] },
+  { family: '三氟乙酸 (TFA) 簇', unit: 'C2HF3O2', label: n => `[${n}TFA-H]-`, carrier: -PROTON, polarity: 'negative', range: [1, 3] },
+  { family: '三氟乙酸钠簇', unit: 'C2F3O2Na', label: n => `[(CF3COONa)${n}+Na]+`, carrier: SODIUM_ION, polarity: 'positive', range: [1, 6] },
+];
+
+const buildLibrary = (): LibraryIon[] => {
+  const ions: LibraryIon[] = [];
+  const ionTypes = [...ION_TYPES.positive, ...ION_TYPES.negative];
+  COMPOUNDS.forEach(compound => {
+    const mass = monoisotopicMass(compound.formula);
+    compound.ions.forEach(name => {
+      if (name === 'M+') {
+        ions.push({ family: compound.family, label: `${compound.name} M+`, category: compound.category, polarity: 'positive', mz: mass - ELECTRON });
+        return;
+      }
+      const ion = ionTypes.find(type => type.name === name);
+      if (!ion) throw new Error(`未知离子类型: ${name}`);
+      ions.push({
+        family: compound.family,
+        label: `${compound.name} ${name}`,
+        category: compound.category,
+        polarity: name.endsWith('-') ? 'negative' : 'positive',
+        mz: mass * ion.multiplier + ion.massShift,
+      });
+    });
+  });
+  CLUSTERS.forEach(cluster => {
+    const unit = monoisotopicMass(cluster.unit);
+    for (let n = cluster.range[0]; n <= cluster.range[1]; n++) {
+      ions.push({ family: cluster.family, label: cluster.label(n), category: 'solvent', polarity: cluster.polarity, mz: n * unit + cluster.carrier });
+    }
+  });
+  return ions.sort((a, b) => a.mz - b.mz);
+};
+
+export const CONTAMINANT_LIBRARY: LibraryIon[] = buildLibrary();
+
+export interface LibraryHit {
+  ion: LibraryIon;
+  ppm: number;
+}
+
+// Each feature is matched to the closest library ion of the chosen polarity and categories within the ppm window.
+export const matchContaminantLibrary = (rows: TableRow[], settings: LibrarySettings): Map<number, LibraryHit> => {
+  const library = CONTAMINANT_LIBRARY.filter(ion => ion.polarity === settings.polarity && settings.categories.includes(ion.category));
+  const hits = new Map<number, LibraryHit>();
+  rows.forEach((row, index) => {
+    const mz = toNumber(row.MZ);
+    if (mz === null) return;
+    library.forEach(ion => {
+      const ppm = computePpmError(mz, ion.mz);
+      if (Math.abs(ppm) > settings.ppm) return;
+      const current = hits.get(index);
+      if (!current || Math.abs(ppm) < Math.abs(current.ppm)) hits.set(index, { ion, ppm });
+    });
+  });
+  return hits;
+};
+
+export const describeLibraryHit = (hit: LibraryHit) => `${hit.ion.label} (${hit.ppm.toFixed(1)} ppm)`;
+
+// One preview entry per compound family, so a whole PEG series can be switched off at once.
+export const summarizeLibraryHits = (hits: Map<number, LibraryHit>): ContaminantMatch[] => {
+  const byFamily = new Map<string, ContaminantMatch>();
+  [...hits.entries()].sort((a, b) => a[0] - b[0]).forEach(([index, hit]) => {
+    if (!byFamily.has(hit.ion.family)) byFamily.set(hit.ion.family, { entry: hit.ion.family, kind: 'library', rowIndices: [], details: [] });
+    const match = byFamily.get(hit.ion.family)!;
+    match.rowIndices.push(index);
+    match.details!.push(describeLibraryHit(hit));
+  });
+  return [...byFamily.values()].sort((a, b) => b.rowIndices.length - a.rowIndices.length);
+};
+
+// Writes the best library hit of each row into LIBRARY_COLUMN without removing anything.
+export const flagLibraryContaminants = (data: TableData, hits: Map<number, LibraryHit>): TableData => {
+  const headers = data.headers.includes(LIBRARY_COLUMN) ? data.headers : [...data.headers, LIBRARY_COLUMN];
+  const rows = data.rows.map((row, index) => {
+    const hit = hits.get(index);
+    return { ...row, [LIBRARY_COLUMN]: hit ? describeLibraryHit(hit) : null };
+  });
+  return { headers, rows };
+};
@@ -0,0 +1,123 @@
+import { TableData, TableRow } from '../types';
+
+export interface ContaminantMatchSettings {
+  caseInsensitive: boolean;
+  patterns: boolean;
+  inchiKey: boolean;
+}
+
+export const DEFAULT_CONTAMINANT_MATCH: ContaminantMatchSettings = {
+  caseInsensitive: true,
+  patterns: true,
+  inchiKey: true,
+};
+
+export type ContaminantEntryKind = 'name' | 'regex' | 'wildcard' | 'inchikey' | 'library';
+
+export const CONTAMINANT_KIND_LABELS: Record<ContaminantEntryKind, string> = {
+  name: '名称',
+  regex: '正则',
+  wildcard: '通配符',
+  inchikey: 'InChIKey',
+  library: '质量库',
+};
+
+export interface ContaminantMatch {
+  entry: string;
+  kind: ContaminantEntryKind;
+  rowIndices: number[];
+  // Per-row descriptions aligned with rowIndices, shown in the preview instead of the annotation.
+  details?: string[];
+  error?: string;
+}
+
+// Each synonym group lists every name of one compound; an entry matching any of them matches all of them.
+export type SynonymGroups = string[][];
+
+// A full InChIKey or just its 14-character first (connectivity) block, which is what InChIkey2D holds.
+const INCHIKEY_PATTERN = /^[A-Z]{14}(-[A-Z]{10}-[A-Z])?$/;
+const REGEX_PATTERN = /^\/(.+)\/([a-z]*)$/;
+
+export const classifyEntry = (entry: string, settings: ContaminantMatchSettings): ContaminantEntryKind => {
+  if (settings.inchiKey && INCHIKEY_PATTERN.test(entry)) return 'inchikey';
+  if (settings.patterns && REGEX_PATTERN.test(entry)) return 'regex';
+  if (settings.patterns && /[*?]/.test(entry)) return 'wildcard';
+  return 'name';
+};
+
+const normalizeName = (name: string, caseInsensitive: boolean) => {
+  const collapsed = name.trim().replace(/\s+/g, ' ');
+  return caseInsensitive ? collapsed.toLowerCase() : collapsed;
+};
+
+const wildcardToRegex = (pattern: string, caseInsensitive: boolean) => {
+  const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${escaped}$`, caseInsensitive ? 'i' : '');
+};
+
+// Expects a 'name' column and a 'synonyms' column whose values are separated by ';' or '|'.
+export const parseSynonymTable = (data: TableData): SynonymGroups => {
+  if (!data.headers.includes('name') || !data.headers.includes('synonyms')) {
+    throw new Error("同义词表必须包含 'name' 和 'synonyms' 列。");
+  }
+  return data.rows
+    .map(row => [row.name, ...String(row.synonyms ?? '').split(/[;|]/)]
+      .map(name => String(name ?? '').trim())
+      .filter(name => name !== '' && name !== 'null'))
+    .filter(names => names.length > 1);
+};
+
+const firstBlock = (value: TableRow[string]) => value === null || value === undefined ? '' : String(value).trim().toUpperCase().split('-')[0];
+
+// Works out, for every list entry, which rows it would remove. Names are compared with whitespace collapsed and,
+// optionally, case folded; synonyms are expanded the same way. Rows without an annotation are never matched by name.
+export const matchContaminants = (
+  rows: TableRow[],
+  entries: string[],
+  settings: ContaminantMatchSettings,
+  synonyms: SynonymGroups = [],
+): ContaminantMatch[] => {
+  const annotations = rows.map(row => {
+    const value = row.Final_Annotation;
+    return value === null || value === undefined ? '' : normalizeName(String(value), settings.caseInsensitive);
+  });
+  const rawAnnotations = rows.map(row => String(row.Final_Annotation ?? '').trim());
+  const inchiKeys = rows.map(row => firstBlock(row.InChIkey2D));
+
+  const synonymIndex = new Map<string, Set<string>>();
+  synonyms.forEach(group => {
+    const normalized = group.map(name => normalizeName(name, settings.caseInsensitive));
+    normalized.forEach(name => {
+      if (!synonymIndex.has(name)) synonymIndex.set(name, new Set<string>());
+      normalized.forEach(other => synonymIndex.get(name)!.add(other));
+    });
+  });
+
+  return entries.map(entry => {
+    const kind = classifyEntry(entry, settings);
+    let test: (index: number) => boolean;
+    try {
+      if (kind === 'inchikey') {
+        const block = entry.split('-')[0];
+        test = index => inchiKeys[index] === block;
+      } else if (kind === 'regex') {
+        const [, source, flags] = entry.match(REGEX_PATTERN)!;
+        // Global and sticky flags would make test() stateful across rows.
+        const safeFlags = flags.replace(/[gy]/g, '');
+        const regex = new RegExp(source, settings.caseInsensitive && !safeFlags.includes('i') ? `${safeFlags}i` : safeFlags);
+        test = index => rawAnnotations[index] !== '' && regex.test(rawAnnotations[index]);
+      } else if (kind === 'wildcard') {
+        const regex = wildcardToRegex(entry.trim(), settings.caseInsensitive);
+        test = index => rawAnnotations[index] !== '' && regex.test(rawAnnotations[index]);
+      } else {
+        const name = normalizeName(entry, settings.caseInsensitive);
+        const names = synonymIndex.get(name) ?? new Set<string>([name]);
+        test = index => annotations[index] !== '' && names.has(annotations[index]);
+      }
+    } catch (err: any) {
+      return { entry, kind, rowIndices: [], error: `无效的表达式: ${err.message}` };
+    }
+    const rowIndices = rows.map((_, index) => index).filter(test);
+    return { entry, kind, rowIndices };
+  });
+};
@@ -0,0 +1,98 @@
+import { TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export interface GridColumn {
+  key: string;
+  label: string;
+  numeric: boolean;
+}
+
+export type ColumnFilter =
+  | { kind: 'text'; contains: string }
+  | { kind: 'range'; min: string; max: string };
+
+export interface GridSort {
+  key: string;
+  direction: 'asc' | 'desc';
+}
+
+// Columns pinned to the left edge until the user says otherwise.
+export const DEFAULT_PINNED_COLUMNS = ['ID', 'Final_Annotation'];
+
+const SAMPLE_SIZE = 200;
+
+const isEmpty = (value: unknown): boolean => value === null || value === undefined || String(value).trim() === '';
+
+// A column is numeric when every non-empty value among the first rows parses as a number.
+export const isNumericColumn = (rows: TableRow[], key: string): boolean => {
+  let seen = 0;
+  for (const row of rows) {
+    const value = row[key];
+    if (isEmpty(value)) continue;
+    if (toNumber(value) === null) return false;
+    if (++seen >= SAMPLE_SIZE) break;
+  }
+  return seen > 0;
+};
+
+export const isFilterActive = (filter: ColumnFilter | undefined): boolean =>
+  !!filter && (filter.kind === 'text' ? filter.contains.trim() !== '' : filter.min.trim() !== '' || filter.max.trim() !== '');
+
+const matchesFilter = (value: unknown, filter: ColumnFilter): boolean => {
+  if (filter.kind === 'text') return String(value ?? '').toLowerCase().includes(filter.contains.trim().toLowerCase());
+  const num = toNumber(value);
+  const min = toNumber(filter.min);
+  const max = toNumber(filter.max);
+  if (num === null) return false;
+  return (min === null || num >= min) && (max === null || num <= max);
+};
+
+// Empty cells sort last whichever the direction.
+const compareValues = (a: unknown, b: unknown, numeric: boolean, sign: number): number => {
+  if (isEmpty(a) || isEmpty(b)) return isEmpty(a) === isEmpty(b) ? 0 : isEmpty(a) ? 1 : -1;
+  if (numeric) {
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (numA !== null && numB !== null) return sign * (numA - numB);
+  }
+  return sign * String(a).localeCompare(String(b), 'zh-CN', { numeric: true });
+};
+
+// Returns the indices of the rows to show, in display order; ties keep the table's own order.
+export const selectRows = (
+  rows: TableRow[],
+  columns: GridColumn[],
+  filters: Record<string, ColumnFilter>,
+  search: string,
+  sort: GridSort | null,
+): number[] => {
+  const activeFilters = columns.filter(col => isFilterActive(filters[col.key])).map(col => [col.key, filters[col.key]] as const);
+  const term = search.trim().toLowerCase();
+  const indices: number[] = [];
+  rows.forEach((row, index) => {
+    if (!activeFilters.every(([key, filter]) => matchesFilter(row[key], filter))) return;
+    if (term && !columns.some(col => String(row[col.key] ?? '').toLowerCase().includes(term))) return;
+    indices.push(index);
+  });
+  if (sort) {
+    const numeric = columns.find(col => col.key === sort.key)?.numeric ?? false;
+    const sign = sort.direction === 'asc' ? 1 : -1;
+    indices.sort((a, b) => compareValues(rows[a][sort.key], rows[b][sort.key], numeric, sign) || a - b);
+  }
+  return indices;
+};
+
+// Keeps the user's column order for columns that still exist and appends new ones; pinned columns come first.
+export const arrangeColumns = (keys: string[], order: string[], pinned: Set<string>): string[] => {
+  const ordered = [...order.filter(key => keys.includes(key)), ...keys.filter(key => !order.includes(key))];
+  return [...ordered.filter(key => pinned.has(key)), ...ordered.filter(key => !pinned.has(key))];
+};
+
+export const moveColumn = (keys: string[], key: string, offset: -1 | 1): string[] => {
+  const from = keys.indexOf(key);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= keys.length) return keys;
+  const next = [...keys];
+  [next[from], next[to]] = [next[to], next[from]];
+  return next;
+};
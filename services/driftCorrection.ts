@@ -0,0 +1,120 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+import { computeRsd } from './featureFilters';
+
+export const MIN_QC_POINTS = 4;
+
+export interface DriftPoint {
+  order: number;
+  value: number;
+}
+
+export interface DriftCorrectionOutcome {
+  data: TableData;
+  correctedFeatures: number;
+  skippedFeatures: number;
+  uncorrectedValues: number;
+}
+
+const positive = (value: unknown): number | null => {
+  const num = toNumber(value);
+  return num !== null && num > 0 ? num : null;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+// Locally weighted linear regression with tricube weights over the nearest span * n points.
+export const loess = (points: DriftPoint[], span: number): ((x: number) => number) => {
+  const n = points.length;
+  const q = Math.min(n, Math.max(2, Math.ceil(span * n)));
+  return (x: number) => {
+    const distances = points.map(p => Math.abs(p.order - x));
+    const h = [...distances].sort((a, b) => a - b)[q - 1] * 1.001 + 1e-9;
+    let sw = 0, swx = 0, swy = 0, swxx = 0, swxy = 0;
+    points.forEach((p, i) => {
+      const u = distances[i] / h;
+      if (u >= 1) return;
+      const w = Math.pow(1 - Math.pow(u, 3), 3);
+      sw += w;
+      swx += w * p.order;
+      swy += w * p.value;
+      swxx += w * p.order * p.order;
+      swxy += w * p.order * p.value;
+    });
+    const denom = sw * swxx - swx * swx;
+    if (Math.abs(denom) < 1e-12) return swy / sw;
+    const slope = (sw * swxy - swx * swy) / denom;
+    return (swy - slope * swx) / sw + slope * x;
+  };
+};
+
+export const getDriftPoints = (row: TableRow, cols: string[], injectionOrder: Record<string, number>): DriftPoint[] =>
+  cols
+    .map(col => ({ order: injectionOrder[col], value: positive(row[col]) }))
+    .filter((p): p is DriftPoint => p.value !== null && p.order !== undefined)
+    .sort((a, b) => a.order - b.order);
+
+// Outside the QC run the trend holds its value at the first or last QC instead of extrapolating the local line; where
+// the fit still falls to zero or below, the trend at the nearest QC is used.
+export const fitDriftCurve = (row: TableRow, qcCols: string[], injectionOrder: Record<string, number>, span: number): ((x: number) => number) | null => {
+  const qcPoints = getDriftPoints(row, qcCols, injectionOrder);
+  if (qcPoints.length < MIN_QC_POINTS) return null;
+  const curve = loess(qcPoints, span);
+  const first = qcPoints[0].order;
+  const last = qcPoints[qcPoints.length - 1].order;
+  return (x: number) => {
+    const held = Math.min(last, Math.max(first, x));
+    const trend = curve(held);
+    if (trend > 0) return trend;
+    const nearest = qcPoints.reduce((best, p) => Math.abs(p.order - held) < Math.abs(best.order - held) ? p : best, qcPoints[0]);
+    return curve(nearest.order);
+  };
+};
+
+export const missingInjectionOrder = (cols: string[], injectionOrder: Record<string, number>): string[] =>
+  cols.filter(col => injectionOrder[col] === undefined);
+
+// QC-RLSC: each value is divided by the QC trend at its injection order and rescaled to the QC median.
+// Features with fewer than MIN_QC_POINTS detected QCs are left unchanged, as are single values whose trend is not
+// positive even at the nearest QC; those are counted in uncorrectedValues.
+export const correctDrift = (
+  data: TableData,
+  intensityCols: string[],
+  qcCols: string[],
+  injectionOrder: Record<string, number>,
+  span: number,
+): DriftCorrectionOutcome => {
+  let correctedFeatures = 0;
+  let skippedFeatures = 0;
+  let uncorrectedValues = 0;
+  const rsdOf = (row: TableRow) => {
+    const rsd = computeRsd(qcCols.map(col => toNumber(row[col]) ?? NaN));
+    return rsd !== null ? Number(rsd.toFixed(2)) : null;
+  };
+
+  const rows = data.rows.map(row => {
+    const fit = fitDriftCurve(row, qcCols, injectionOrder, span);
+    const newRow: TableRow = { ...row, QC_RSD_Before_Correction: rsdOf(row) };
+    if (!fit) {
+      skippedFeatures++;
+      return { ...newRow, QC_RSD_After_Correction: newRow.QC_RSD_Before_Correction };
+    }
+    const qcMedian = median(getDriftPoints(row, qcCols, injectionOrder).map(p => p.value));
+    intensityCols.forEach(col => {
+      const value = positive(row[col]);
+      const trend = fit(injectionOrder[col]);
+      if (value === null) return;
+      if (trend > 0) newRow[col] = Number((value * qcMedian / trend).toPrecision(6));
+      else uncorrectedValues++;
+    });
+    correctedFeatures++;
+    return { ...newRow, QC_RSD_After_Correction: rsdOf(newRow) };
+  });
+
+  const headers = [...data.headers.filter(h => h !== 'QC_RSD_Before_Correction' && h !== 'QC_RSD_After_Correction'), 'QC_RSD_Before_Correction', 'QC_RSD_After_Correction'];
+  return { data: { headers, rows }, correctedFeatures, skippedFeatures, uncorrectedValues };
+};
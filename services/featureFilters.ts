@@ -0,0 +1,133 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export const FILTER_STATUS_COLUMN = '_filter_status';
+export const KEEP_STATUS = '保留';
+
+export interface FilterOutcome {
+  data: TableData;
+  removedCount: number;
+}
+
+export interface QualityFilterSettings {
+  maxQcRsd: number;
+  minDetectionRate: number;
+  detectionMode: 'group' | 'overall';
+}
+
+export const DEFAULT_QUALITY_FILTER: QualityFilterSettings = {
+  maxQcRsd: 30,
+  minDetectionRate: 80,
+  detectionMode: 'group',
+};
+
+export const meanIntensity = (row: TableRow, cols: string[]): number => {
+  if (cols.length === 0) return 0;
+  return cols.reduce((sum, col) => sum + (toNumber(row[col]) ?? 0), 0) / cols.length;
+};
+
+export const isRetained = (row: TableRow): boolean => {
+  const status = row[FILTER_STATUS_COLUMN];
+  return status === undefined || status === null || status === KEEP_STATUS;
+};
+
+// Missing blank signal counts as an infinite ratio, so features never seen in blanks are always kept.
+export const computeSampleBlankRatio = (row: TableRow, sampleCols: string[], blankCols: string[]): number => {
+  const blankMean = meanIntensity(row, blankCols);
+  const sampleMean = meanIntensity(row, sampleCols);
+  if (blankMean <= 0) return Infinity;
+  return sampleMean / blankMean;
+};
+
+export const applyBlankFilter = (data: TableData, sampleCols: string[], blankCols: string[], minFold: number): FilterOutcome => {
+  let removedCount = 0;
+  const rows = data.rows.map(row => {
+    const ratio = computeSampleBlankRatio(row, sampleCols, blankCols);
+    const newRow: TableRow = { ...row, Sample_Blank_Ratio: isFinite(ratio) ? Number(ratio.toFixed(2)) : null };
+    if (!isRetained(row)) return newRow;
+    if (ratio < minFold) {
+      removedCount++;
+      return { ...newRow, [FILTER_STATUS_COLUMN]: `因空白信号过高而剔除 (样本/空白 ${ratio.toFixed(2)} < ${minFold})` };
+    }
+    return { ...newRow, [FILTER_STATUS_COLUMN]: KEEP_STATUS };
+  });
+  const headers = data.headers.includes('Sample_Blank_Ratio') ? data.headers : [...data.headers, 'Sample_Blank_Ratio'];
+  return { data: { headers, rows }, removedCount };
+};
+
+// Returns null when fewer than two positive values are available, matching the dereplication QC check.
+export const computeRsd = (values: number[]): number | null => {
+  const positives = values.filter(v => !isNaN(v) && v > 0);
+  if (positives.length < 2) return null;
+  const mean = positives.reduce((a, b) => a + b, 0) / positives.length;
+  const stdDev = Math.sqrt(positives.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (positives.length - 1));
+  return (stdDev / mean) * 100;
+};
+
+export const detectionRate = (row: TableRow, cols: string[]): number => {
+  if (cols.length === 0) return 0;
+  return (cols.filter(col => (toNumber(row[col]) ?? 0) > 0).length / cols.length) * 100;
+};
+
+// In group mode a feature passes the "80% rule" when it is detected often enough in at least one group.
+// Returns null when there are no groups or sample columns to judge by, in which case the rule is skipped.
+const bestDetectionRate = (row: TableRow, groups: Record<string, string[]>, sampleCols: string[], mode: QualityFilterSettings['detectionMode']): number | null => {
+  if (mode === 'overall') return sampleCols.length > 0 ? detectionRate(row, sampleCols) : null;
+  const groupCols = Object.values(groups).filter(cols => cols.length > 0);
+  return groupCols.length > 0 ? Math.max(...groupCols.map(cols => detectionRate(row, cols))) : null;
+};
+
+export const applyQualityFilter = (
+  data: TableData,
+  sampleCols: string[],
+  groups: Record<string, string[]>,
+  qcCols: string[],
+  settings: QualityFilterSettings,
+): FilterOutcome => {
+  let removedCount = 0;
+  const rows = data.rows.map(row => {
+    const rsd = computeRsd(qcCols.map(col => toNumber(row[col]) ?? NaN));
+    const newRow: TableRow = { ...row, QC_RSD: rsd !== null ? Number(rsd.toFixed(2)) : null };
+    if (!isRetained(row)) return newRow;
+
+    const rate = bestDetectionRate(row, groups, sampleCols, settings.detectionMode);
+    if (rate !== null && rate < settings.minDetectionRate) {
+      removedCount++;
+      const scope = settings.detectionMode === 'group' ? '最高组检出率' : '检出率';
+      return { ...newRow, [FILTER_STATUS_COLUMN]: `因检出率过低而剔除 (${scope} ${rate.toFixed(0)}% < ${settings.minDetectionRate}%)` };
+    }
+    if (rsd !== null && rsd > settings.maxQcRsd) {
+      removedCount++;
+      return { ...newRow, [FILTER_STATUS_COLUMN]: `因QC不稳定而剔除 (RSD ${rsd.toFixed(1)}% > ${settings.maxQcRsd}%)` };
+    }
+    return { ...newRow, [FILTER_STATUS_COLUMN]: KEEP_STATUS };
+  });
+  const headers = data.headers.includes('QC_RSD') ? data.headers : [...data.headers, 'QC_RSD'];
+  return { data: { headers, rows }, removedCount };
+};
+
+// Groups removal reasons by the text before the detail in parentheses, e.g. "因QC不稳定而剔除".
+export const summarizeRemovalReasons = (data: TableData): Record<string, number> => {
+  const summary: Record<string, number> = {};
+  data.rows.filter(row => !isRetained(row)).forEach(row => {
+    const reason = String(row[FILTER_STATUS_COLUMN]).split(' (')[0];
+    summary[reason] = (summary[reason] ?? 0) + 1;
+  });
+  return summary;
+};
+
+const stripStatus = (row: TableRow): TableRow => {
+  const newRow = { ...row };
+  delete newRow[FILTER_STATUS_COLUMN];
+  return newRow;
+};
+
+export const getRetainedData = (data: TableData): TableData => ({
+  headers: data.headers,
+  rows: data.rows.filter(isRetained).map(stripStatus),
+});
+
+export const getRemovedData = (data: TableData): TableData => ({
+  headers: [...data.headers, 'Removal_Reason'],
+  rows: data.rows.filter(row => !isRetained(row)).map(row => ({ ...stripStatus(row), Removal_Reason: row[FILTER_STATUS_COLUMN] })),
+});
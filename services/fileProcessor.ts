@@ -31,15 +31,112 @@ export const parseFile = (file: File): Promise<TableData> => {
 };
 
 
-export const exportFile = (tableData: TableData, fileName: string) => {
+const toWorksheet = (tableData: TableData) => {
+  const dataToExport = [tableData.headers, ...tableData.rows.map(row => tableData.headers.map(header => row[header]))];
+  return XLSX.utils.aoa_to_sheet(dataToExport);
+};
+
+export const exportFile = (tableData: TableData, fileName: string, extraSheets: Record<string, TableData> = {}) => {
   try {
-    const dataToExport = [tableData.headers, ...tableData.rows.map(row => tableData.headers.map(header => row[header]))];
-    const worksheet = XLSX.utils.aoa_to_sheet(dataToExport);
     const workbook = XLSX.utils.book_new();
-    XLSX.utils.book_append_sheet(workbook, worksheet, 'Sheet1');
+    XLSX.utils.book_append_sheet(workbook, toWorksheet(tableData), 'Sheet1');
+    Object.entries(extraSheets).forEach(([sheetName, sheetData]) => {
+      XLSX.utils.book_append_sheet(workbook, toWorksheet(sheetData), sheetName);
+    });
     XLSX.writeFile(workbook, `${fileName}.xlsx`);
   } catch (error) {
     console.error("导出文件失败:", error);
     alert("导出文件失败。请检查控制台获取更多信息。");
   }
 };
+
+export const readTextFile = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(String(event.target?.result ?? ''));
+    reader.onerror = (error) => reject(error);
+    reader.readAsText(file);
+  });
+};
+
+export const exportJsonFile = (data: unknown, fileName: string) => {
+  try {
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  } catch (error) {
+    console.error("导出文件失败:", error);
+    alert("导出文件失败。请检查控制台获取更多信息。");
+  }
+};
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const exportHtmlFile = (html: string, fileName: string) => {
+  downloadBlob(new Blob([html], { type: 'text/html;charset=utf-8' }), `${fileName}.html`);
+};
+
+// Prints a standalone HTML document from a hidden frame, so the browser's print dialog can save it as PDF
+// without the app's own page around it.
+export const printHtml = (html: string) => {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.onload = () => {
+    const view = frame.contentWindow;
+    if (!view) return;
+    view.onafterprint = () => frame.remove();
+    view.focus();
+    view.print();
+  };
+  frame.srcdoc = html;
+  document.body.appendChild(frame);
+};
+
+const serializeSvg = (svg: SVGSVGElement): string => {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  return new XMLSerializer().serializeToString(clone);
+};
+
+// Charts meant for export use inline fill/stroke attributes, so the SVG renders the same outside the app.
+export const exportSvg = (svg: SVGSVGElement, fileName: string) => {
+  downloadBlob(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }), `${fileName}.svg`);
+};
+
+export const exportPng = (svg: SVGSVGElement, fileName: string, scale = 2) => {
+  const { width, height } = svg.viewBox.baseVal;
+  const image = new Image();
+  const url = URL.createObjectURL(new Blob([serializeSvg(svg)], { type: 'image/svg+xml;charset=utf-8' }));
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const context = canvas.getContext('2d')!;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => {
+      if (blob) downloadBlob(blob, `${fileName}.png`);
+    }, 'image/png');
+  };
+  image.onerror = () => {
+    URL.revokeObjectURL(url);
+    alert("导出图片失败。");
+  };
+  image.src = url;
+};
@@ -0,0 +1,158 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export type ImputationMethod = 'halfMin' | 'constant' | 'median' | 'knn';
+
+export interface ImputationSettings {
+  method: ImputationMethod;
+  constant: number;
+  k: number;
+}
+
+export const DEFAULT_IMPUTATION: ImputationSettings = {
+  method: 'halfMin',
+  constant: 1,
+  k: 5,
+};
+
+export const IMPUTATION_METHOD_LABELS: Record<ImputationMethod, string> = {
+  halfMin: '最小值的一半',
+  constant: '固定常数',
+  median: '中位数',
+  knn: 'KNN',
+};
+
+// Hidden row key holding a JSON array of the column names whose values were imputed.
+export const IMPUTED_COLUMN = '_imputed';
+
+export interface ImputationOutcome {
+  data: TableData;
+  imputedCount: number;
+  skippedFeatures: number;
+}
+
+// Zero and non-numeric intensities are treated as missing, as in dereplication.
+export const isMissing = (value: unknown): boolean => {
+  const num = toNumber(value);
+  return num === null || num <= 0;
+};
+
+export const getImputedColumns = (row: TableRow): string[] => {
+  const raw = row[IMPUTED_COLUMN];
+  if (typeof raw !== 'string' || raw === '') return [];
+  try {
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map(String) : [];
+  } catch {
+    return [];
+  }
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const observedValues = (row: TableRow, cols: string[]): number[] =>
+  cols.filter(col => !isMissing(row[col])).map(col => toNumber(row[col])!);
+
+// Mean squared difference of log2 intensities over the columns both features were observed in.
+const logDistance = (a: (number | null)[], b: (number | null)[]): number => {
+  let sum = 0;
+  let shared = 0;
+  for (let i = 0; i < a.length; i++) {
+    const value = a[i];
+    const other = b[i];
+    if (value === null || other === null) continue;
+    sum += (value - other) * (value - other);
+    shared++;
+  }
+  return shared === 0 ? Infinity : sum / shared;
+};
+
+// Each missing cell gets the geometric mean of the same column in the k most similar features
+// that were observed there; features without usable neighbours fall back to half the minimum.
+// One pass over the other features per row keeps only the k nearest donors of each missing column,
+// so memory stays at k donors per column however large the table is.
+const knnFill = (rows: TableRow[], cols: string[], k: number): ((rowIndex: number, missingCols: string[]) => Map<string, number | null>) => {
+  const logs = rows.map(row => cols.map(col => isMissing(row[col]) ? null : Math.log2(toNumber(row[col])!)));
+  return (rowIndex, missingCols) => {
+    const colIndices = missingCols.map(col => cols.indexOf(col));
+    const donors = colIndices.map(() => [] as { index: number; distance: number }[]);
+    logs.forEach((values, index) => {
+      if (index === rowIndex) return;
+      const distance = logDistance(logs[rowIndex], values);
+      if (!isFinite(distance)) return;
+      colIndices.forEach((colIndex, i) => {
+        if (values[colIndex] === null) return;
+        const nearest = donors[i];
+        if (nearest.length === k && distance >= nearest[k - 1].distance) return;
+        let at = nearest.length;
+        while (at > 0 && nearest[at - 1].distance > distance) at--;
+        nearest.splice(at, 0, { index, distance });
+        if (nearest.length > k) nearest.pop();
+      });
+    });
+    const observed = observedValues(rows[rowIndex], cols);
+    const fallback = observed.length > 0 ? Math.min(...observed) / 2 : null;
+    return new Map<string, number | null>(missingCols.map((col, i) => {
+      const nearest = donors[i];
+      if (nearest.length === 0) return [col, fallback];
+      return [col, Math.pow(2, nearest.reduce((sum, n) => sum + logs[n.index][colIndices[i]]!, 0) / nearest.length)];
+    }));
+  };
+};
+
+export const imputeMissingValues = (data: TableData, cols: string[], settings: ImputationSettings): ImputationOutcome => {
+  const knn = settings.method === 'knn' ? knnFill(data.rows, cols, settings.k) : null;
+  let imputedCount = 0;
+  let skippedFeatures = 0;
+
+  const rows = data.rows.map((row, rowIndex) => {
+    const missingCols = cols.filter(col => isMissing(row[col]));
+    if (missingCols.length === 0) return row;
+
+    const observed = observedValues(row, cols);
+    if (observed.length === 0 && settings.method !== 'constant') {
+      skippedFeatures++;
+      return row;
+    }
+
+    const knnValues = knn ? knn(rowIndex, missingCols) : null;
+    const fillFor = (col: string): number | null => {
+      switch (settings.method) {
+        case 'halfMin': return Math.min(...observed) / 2;
+        case 'constant': return settings.constant;
+        case 'median': return median(observed);
+        case 'knn': return knnValues!.get(col) ?? null;
+      }
+    };
+
+    const newRow: TableRow = { ...row };
+    const filled: string[] = [];
+    missingCols.forEach(col => {
+      const value = fillFor(col);
+      if (value === null) return;
+      newRow[col] = Number(value.toPrecision(6));
+      filled.push(col);
+    });
+    imputedCount += filled.length;
+    newRow[IMPUTED_COLUMN] = JSON.stringify([...new Set([...getImputedColumns(row), ...filled])]);
+    return newRow;
+  });
+
+  return { data: { headers: data.headers, rows }, imputedCount, skippedFeatures };
+};
+
+// One line per imputed cell, so the exported workbook flags them without altering the data sheet.
+export const buildImputationSheet = (data: TableData): TableData => {
+  const idColumn = data.headers.includes('ID') ? 'ID' : null;
+  const rows: TableRow[] = [];
+  data.rows.forEach((row, index) => {
+    getImputedColumns(row).forEach(col => {
+      rows.push({ Row: index + 2, ID: idColumn ? row[idColumn] : null, Column: col, Imputed_Value: row[col] });
+    });
+  });
+  return { headers: ['Row', 'ID', 'Column', 'Imputed_Value'], rows };
+};
@@ -0,0 +1,164 @@
+import { MassTolerance, TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+import { FILTER_STATUS_COLUMN, FilterOutcome, isRetained } from './featureFilters';
+import { areIonPartners, IonPolarity, isNeutralLossIon, isNeutralLossSpacing } from './ionGrouping';
+
+export type CorrelationMethod = 'pearson' | 'spearman';
+
+export const CORRELATION_LABELS: Record<CorrelationMethod, string> = {
+  pearson: 'Pearson',
+  spearman: 'Spearman',
+};
+
+export interface FragmentSettings {
+  method: CorrelationMethod;
+  minCorrelation: number;
+}
+
+export const DEFAULT_FRAGMENT_SETTINGS: FragmentSettings = {
+  method: 'pearson',
+  minCorrelation: 0.9,
+};
+
+export const FRAGMENT_COLUMNS = ['Fragment_Of', 'Fragment_Correlation', 'Likely_Fragment'];
+
+// Correlations over fewer samples than this are too noisy to call a fragment.
+export const MIN_PAIRED_SAMPLES = 5;
+
+export const pearson = (a: number[], b: number[]): number | null => {
+  const n = a.length;
+  if (n < 2) return null;
+  const meanA = a.reduce((s, v) => s + v, 0) / n;
+  const meanB = b.reduce((s, v) => s + v, 0) / n;
+  let cov = 0, varA = 0, varB = 0;
+  for (let i = 0; i < n; i++) {
+    cov += (a[i] - meanA) * (b[i] - meanB);
+    varA += Math.pow(a[i] - meanA, 2);
+    varB += Math.pow(b[i] - meanB, 2);
+  }
+  return varA > 0 && varB > 0 ? cov / Math.sqrt(varA * varB) : null;
+};
+
+// Average ranks for ties, as in the usual Spearman definition.
+const ranks = (values: number[]): number[] => {
+  const order = values.map((v, i) => ({ v, i })).sort((x, y) => x.v - y.v);
+  const result = new Array<number>(values.length);
+  for (let start = 0; start < order.length;) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    for (let k = start; k <= end; k++) result[order[k].i] = (start + end) / 2 + 1;
+    start = end + 1;
+  }
+  return result;
+};
+
+export const spearman = (a: number[], b: number[]): number | null => pearson(ranks(a), ranks(b));
+
+interface Feature {
+  index: number;
+  id: string;
+  mz: number;
+  rt: number;
+  group: string | null;
+  values: (number | null)[];
+  intensity: number;
+}
+
+export interface FragmentIonOptions {
+  polarity: IonPolarity;
+  tolerance: MassTolerance;
+}
+
+// Only samples where both features were detected take part, so shared zeros do not inflate the correlation.
+const correlate = (a: Feature, b: Feature, method: CorrelationMethod): number | null => {
+  const x: number[] = [];
+  const y: number[] = [];
+  a.values.forEach((v, i) => {
+    const w = b.values[i];
+    if (v !== null && w !== null) {
+      x.push(v);
+      y.push(w);
+    }
+  });
+  if (x.length < MIN_PAIRED_SAMPLES) return null;
+  return method === 'pearson' ? pearson(x, y) : spearman(x, y);
+};
+
+// A retained feature is flagged when a co-eluting retained feature with a higher m/z correlates with it across
+// samples at or above the threshold. The best-correlated such parent is recorded in Fragment_Of.
+// Isotopes and adducts of one compound co-elute and correlate just as well, so pairs whose m/z difference is a 13C
+// spacing or an intact adduct difference, or that already share a neutral-mass-consistent Feature_Group, are linked
+// into one ion family, and members of a family are never fragment and precursor of each other. Water and ammonia
+// losses never link a family, even inside a Feature_Group, since they are the fragments this detector looks for.
+export const detectInSourceFragments = (
+  data: TableData,
+  intensityCols: string[],
+  rtWindow: number,
+  settings: FragmentSettings,
+  ionOptions: FragmentIonOptions,
+): { data: TableData; fragmentCount: number } => {
+  if (!data.headers.includes('MZ') || !data.headers.includes('RT')) throw new Error("源内碎片检测需要 'MZ' 和 'RT' 列。");
+  const features: Feature[] = [];
+  data.rows.forEach((row, index) => {
+    const mz = toNumber(row.MZ);
+    const rt = toNumber(row.RT);
+    if (mz === null || rt === null || !isRetained(row)) return;
+    const values = intensityCols.map(col => {
+      const v = toNumber(row[col]);
+      return v !== null && v > 0 ? v : null;
+    });
+    const detected = values.filter((v): v is number => v !== null);
+    const intensity = detected.length > 0 ? detected.reduce((a, b) => a + b, 0) / detected.length : 0;
+    const ionType = row.Ion_Type != null ? String(row.Ion_Type) : '';
+    const inGroup = row.Feature_Group != null && String(row.Feature_Group).trim() !== '' && row.Neutral_Mass_Consistent === 'Yes';
+    const group = inGroup && !isNeutralLossIon(ionType, ionOptions.polarity) ? String(row.Feature_Group) : null;
+    features.push({ index, id: row.ID != null ? String(row.ID) : String(index + 1), mz, rt, group, values, intensity });
+  });
+  features.sort((a, b) => a.rt - b.rt);
+
+  // Ion partners are chained first, so the isotope of one adduct is not mistaken for a fragment of another adduct.
+  const ionFamily = features.map((_, i) => i);
+  const find = (i: number): number => ionFamily[i] === i ? i : (ionFamily[i] = find(ionFamily[i]));
+  for (let a = 0; a < features.length; a++) {
+    for (let b = a + 1; b < features.length && features[b].rt - features[a].rt <= rtWindow; b++) {
+      const sameGroup = features[a].group !== null && features[a].group === features[b].group
+        && !isNeutralLossSpacing(features[a].mz, features[b].mz, ionOptions.tolerance);
+      if (sameGroup || areIonPartners(features[a].mz, features[b].mz, ionOptions.polarity, ionOptions.tolerance)) ionFamily[find(a)] = find(b);
+    }
+  }
+
+  const parents = new Map<number, { parent: Feature; r: number }>();
+  for (let a = 0; a < features.length; a++) {
+    for (let b = a + 1; b < features.length && features[b].rt - features[a].rt <= rtWindow; b++) {
+      if (features[a].mz === features[b].mz || find(a) === find(b)) continue;
+      const [fragment, parent] = features[a].mz < features[b].mz ? [features[a], features[b]] : [features[b], features[a]];
+      const r = correlate(fragment, parent, settings.method);
+      if (r === null || r < settings.minCorrelation) continue;
+      const current = parents.get(fragment.index);
+      if (!current || r > current.r || (r === current.r && parent.intensity > current.parent.intensity)) {
+        parents.set(fragment.index, { parent, r });
+      }
+    }
+  }
+
+  const headers = [...data.headers.filter(h => !FRAGMENT_COLUMNS.includes(h)), ...FRAGMENT_COLUMNS];
+  const rows = data.rows.map((row, index) => {
+    const match = parents.get(index);
+    const newRow: TableRow = { ...row };
+    newRow.Fragment_Of = match ? match.parent.id : null;
+    newRow.Fragment_Correlation = match ? Number(match.r.toFixed(3)) : null;
+    newRow.Likely_Fragment = isRetained(row) ? (match ? 'Yes' : 'No') : null;
+    return newRow;
+  });
+  return { data: { headers, rows }, fragmentCount: parents.size };
+};
+
+export const applyFragmentFilter = (data: TableData): FilterOutcome => {
+  let removedCount = 0;
+  const rows = data.rows.map(row => {
+    if (!isRetained(row) || row.Likely_Fragment !== 'Yes') return row;
+    removedCount++;
+    return { ...row, [FILTER_STATUS_COLUMN]: `因疑似源内碎片而剔除 (母离子 ${row.Fragment_Of}, r = ${row.Fragment_Correlation})` };
+  });
+  return { data: { headers: data.headers, rows }, removedCount };
+};
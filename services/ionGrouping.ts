@@ -0,0 +1,239 @@
+import { MassTolerance, TableData, TableRow } from '../types';
+import { toleranceInDa, toNumber } from './massMatcher';
+
+export type IonPolarity = 'positive' | 'negative';
+
+export interface IonType {
+  name: string;
+  multiplier: number;
+  massShift: number;
+  // Ions that lose part of the molecule; in-source fragment detection must not treat them as intact adducts.
+  neutralLoss?: boolean;
+}
+
+const PROTON = 1.007276;
+const WATER = 18.010565;
+const AMMONIA = 17.026549;
+export const C13_SPACING = 1.003355;
+
+// The first entry of each list is the default ion assumed for features that only have isotope partners.
+export const ION_TYPES: Record<IonPolarity, IonType[]> = {
+  positive: [
+    { name: '[M+H]+', multiplier: 1, massShift: PROTON },
+    { name: '[M+Na]+', multiplier: 1, massShift: 22.989218 },
+    { name: '[M+NH4]+', multiplier: 1, massShift: 18.033823 },
+    { name: '[M+K]+', multiplier: 1, massShift: 38.963158 },
+    { name: '[M+H-H2O]+', multiplier: 1, massShift: PROTON - WATER, neutralLoss: true },
+    { name: '[2M+H]+', multiplier: 2, massShift: PROTON },
+    { name: '[2M+Na]+', multiplier: 2, massShift: 22.989218 },
+  ],
+  negative: [
+    { name: '[M-H]-', multiplier: 1, massShift: -PROTON },
+    { name: '[M+Cl]-', multiplier: 1, massShift: 34.969402 },
+    { name: '[M+FA-H]-', multiplier: 1, massShift: 44.998201 },
+    { name: '[M-H2O-H]-', multiplier: 1, massShift: -PROTON - WATER, neutralLoss: true },
+    { name: '[2M-H]-', multiplier: 2, massShift: -PROTON },
+  ],
+};
+
+export const ION_POLARITY_LABELS: Record<IonPolarity, string> = {
+  positive: '正离子模式',
+  negative: '负离子模式',
+};
+
+export const ION_GROUP_COLUMNS = ['Feature_Group', 'Ion_Type', 'Neutral_Mass', 'Neutral_Mass_Consistent'];
+
+export interface IonGroupingOptions {
+  polarity: IonPolarity;
+  tolerance: MassTolerance;
+  rtWindow: number;
+  intensityCols: string[];
+}
+
+export interface IonGroupingOutcome {
+  data: TableData;
+  groupCount: number;
+  consistentGroups: number;
+  groupedFeatures: number;
+}
+
+interface Feature {
+  index: number;
+  mz: number;
+  rt: number;
+  intensity: number | null;
+}
+
+const neutralMass = (mz: number, ion: IonType) => (mz - ion.massShift) / ion.multiplier;
+
+export const within = (a: number, b: number, tolerance: MassTolerance) => Math.abs(a - b) <= toleranceInDa(Math.max(a, b), tolerance);
+
+const isAdductPair = (mzA: number, mzB: number, ions: IonType[], tolerance: MassTolerance): boolean =>
+  ions.some((ionA, i) => ions.some((ionB, j) => i !== j && within(neutralMass(mzA, ionA), neutralMass(mzB, ionB), tolerance)));
+
+export const isNeutralLossIon = (ionType: string, polarity: IonPolarity): boolean =>
+  ION_TYPES[polarity].some(ion => ion.neutralLoss && ionType.startsWith(ion.name));
+
+// True when the m/z spacing equals a loss of water or ammonia, the most common in-source fragmentations.
+// [M+NH4]+ and [M+H]+ are spaced by exactly one ammonia, so such a pair is left to fragment detection as well.
+export const isNeutralLossSpacing = (mzA: number, mzB: number, tolerance: MassTolerance): boolean => {
+  const [light, heavy] = mzA <= mzB ? [mzA, mzB] : [mzB, mzA];
+  return [WATER, AMMONIA].some(loss => within(heavy, light + loss, tolerance));
+};
+
+// True when two m/z values are one or two 13C apart or are two intact adducts of the same neutral mass. Pairs that
+// could just as well be a water or ammonia loss are never partners.
+export const areIonPartners = (mzA: number, mzB: number, polarity: IonPolarity, tolerance: MassTolerance): boolean => {
+  if (isNeutralLossSpacing(mzA, mzB, tolerance)) return false;
+  const [light, heavy] = mzA <= mzB ? [mzA, mzB] : [mzB, mzA];
+  const intactIons = ION_TYPES[polarity].filter(ion => !ion.neutralLoss);
+  return [1, 2].some(count => within(heavy, light + count * C13_SPACING, tolerance)) || isAdductPair(mzA, mzB, intactIons, tolerance);
+};
+
+const meanIntensity = (row: TableRow, cols: string[]): number | null => {
+  const values = cols.map(col => toNumber(row[col])).filter((v): v is number => v !== null && v > 0);
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : null;
+};
+
+// Finds co-eluting features whose m/z spacing matches a 13C isotope or a pair of adducts of the same neutral mass.
+// Linked features form a Feature_Group; the neutral mass that explains the most members is then chosen and each
+// member gets its ion type. A group is tagged consistent when every member is explained by that one neutral mass.
+export const groupAdductsAndIsotopes = (data: TableData, options: IonGroupingOptions): IonGroupingOutcome => {
+  if (!data.headers.includes('MZ') || !data.headers.includes('RT')) throw new Error("离子分组需要 'MZ' 和 'RT' 列。");
+  const ions = ION_TYPES[options.polarity];
+  const features: Feature[] = [];
+  data.rows.forEach((row, index) => {
+    const mz = toNumber(row.MZ);
+    const rt = toNumber(row.RT);
+    if (mz !== null && rt !== null) features.push({ index, mz, rt, intensity: meanIntensity(row, options.intensityCols) });
+  });
+  features.sort((a, b) => a.rt - b.rt);
+
+  const parent = new Map<number, number>(features.map(f => [f.index, f.index]));
+  const find = (i: number): number => {
+    while (parent.get(i) !== i) i = parent.get(i)!;
+    return i;
+  };
+  const union = (a: number, b: number) => parent.set(find(a), find(b));
+
+  // isotopeOf[i] = { parent feature index, number of 13C }; the lightest co-eluting parent wins.
+  const isotopeOf = new Map<number, { parent: number; parentMz: number; count: number }>();
+
+  for (let a = 0; a < features.length; a++) {
+    for (let b = a + 1; b < features.length && features[b].rt - features[a].rt <= options.rtWindow; b++) {
+      const [light, heavy] = features[a].mz <= features[b].mz ? [features[a], features[b]] : [features[b], features[a]];
+      let linked = false;
+      [1, 2].forEach(count => {
+        if (!within(heavy.mz, light.mz + count * C13_SPACING, options.tolerance)) return;
+        if (light.intensity !== null && heavy.intensity !== null && heavy.intensity >= light.intensity) return;
+        const existing = isotopeOf.get(heavy.index);
+        if (!existing || existing.parentMz > light.mz) isotopeOf.set(heavy.index, { parent: light.index, parentMz: light.mz, count });
+        linked = true;
+      });
+      if (!linked) {
+        linked = isAdductPair(features[a].mz, features[b].mz, ions, options.tolerance);
+      }
+      if (linked) union(features[a].index, features[b].index);
+    }
+  }
+
+  const components = new Map<number, Feature[]>();
+  features.forEach(f => {
+    const root = find(f.index);
+    if (!components.has(root)) components.set(root, []);
+    components.get(root)!.push(f);
+  });
+
+  const annotations = new Map<number, TableRow>();
+  let groupCount = 0;
+  let consistentGroups = 0;
+  let groupedFeatures = 0;
+
+  [...components.values()]
+    .filter(members => members.length > 1)
+    .sort((a, b) => Math.min(...a.map(f => f.index)) - Math.min(...b.map(f => f.index)))
+    .forEach(members => {
+      groupCount++;
+      groupedFeatures += members.length;
+      const groupName = `G${groupCount}`;
+      const monos = members.filter(f => !isotopeOf.has(f.index));
+
+      // Try every mono feature under every ion type as the anchor; keep the neutral mass that explains the most
+      // mono features, preferring hypotheses that use earlier (more common) ion types on ties.
+      let best: { mass: number; assigned: Map<number, IonType>; score: number } | null = null;
+      monos.forEach(anchor => ions.forEach(anchorIon => {
+        const mass = neutralMass(anchor.mz, anchorIon);
+        const assigned = new Map<number, IonType>();
+        let score = 0;
+        monos.forEach(f => {
+          const ionIndex = ions.findIndex(ion => within(neutralMass(f.mz, ion), mass, options.tolerance));
+          if (ionIndex >= 0) {
+            assigned.set(f.index, ions[ionIndex]);
+            score += 1000 - ionIndex;
+          }
+        });
+        if (!best || score > best.score) best = { mass, assigned, score };
+      }));
+
+      const hypothesis = best as { mass: number; assigned: Map<number, IonType>; score: number } | null;
+      const ionTypeOf = (index: number): string | null => {
+        const isotope = isotopeOf.get(index);
+        if (isotope) {
+          const parentIon = ionTypeOf(isotope.parent);
+          return parentIon ? `${parentIon} M+${isotope.count}` : null;
+        }
+        return hypothesis?.assigned.get(index)?.name ?? null;
+      };
+      const labels = members.map(f => ({ f, ion: ionTypeOf(f.index) }));
+      const consistent = labels.every(item => item.ion !== null);
+      if (consistent) consistentGroups++;
+      labels.forEach(({ f, ion }) => annotations.set(f.index, {
+        Feature_Group: groupName,
+        Ion_Type: ion,
+        Neutral_Mass: hypothesis ? Number(hypothesis.mass.toFixed(5)) : null,
+        Neutral_Mass_Consistent: consistent ? 'Yes' : 'No',
+      }));
+    });
+
+  const headers = [...data.headers.filter(h => !ION_GROUP_COLUMNS.includes(h)), ...ION_GROUP_COLUMNS];
+  const rows = data.rows.map((row, index) => {
+    const newRow: TableRow = { ...row };
+    ION_GROUP_COLUMNS.forEach(col => newRow[col] = annotations.get(index)?.[col] ?? null);
+    return newRow;
+  });
+  return { data: { headers, rows }, groupCount, consistentGroups, groupedFeatures };
+};
+
+// Rows sharing a Final_Annotation belong together; with useIonGroups, so do rows in the same neutral-mass-consistent
+// Feature_Group, which also pulls unannotated adducts and isotopes into their compound's group.
+export const buildDereplicationGroups = (rows: TableRow[], useIonGroups: boolean): { groups: TableRow[][]; ungrouped: TableRow[] } => {
+  const parent = rows.map((_, i) => i);
+  const find = (i: number): number => parent[i] === i ? i : (parent[i] = find(parent[i]));
+  const linked = rows.map(() => false);
+  const firstByKey = new Map<string, number>();
+  const link = (key: string, i: number) => {
+    linked[i] = true;
+    const first = firstByKey.get(key);
+    if (first === undefined) firstByKey.set(key, i);
+    else parent[find(i)] = find(first);
+  };
+
+  rows.forEach((row, i) => {
+    const annotation = row.Final_Annotation;
+    if (annotation && String(annotation).trim() !== '') link(`annotation:${String(annotation).trim()}`, i);
+    if (useIonGroups && row.Neutral_Mass_Consistent === 'Yes' && row.Feature_Group) link(`ion:${row.Feature_Group}`, i);
+  });
+
+  const groups = new Map<number, TableRow[]>();
+  const ungrouped: TableRow[] = [];
+  rows.forEach((row, i) => {
+    if (!linked[i]) {
+      ungrouped.push(row);
+      return;
+    }
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(row);
+  });
+  return { groups: [...groups.values()], ungrouped };
+};
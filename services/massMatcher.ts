@@ -0,0 +1,85 @@
+import { MassTolerance, TableRow } from '../types';
+
+export interface MassCandidate {
+  mz: number;
+  rt?: number | null;
+  row: TableRow;
+}
+
+export interface MassMatchResult {
+  match: TableRow | null;
+  ppmError: number | null;
+  rtError?: number | null;
+  candidateCount: number;
+}
+
+export const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || String(value).trim() === '') return null;
+  const num = Number(value);
+  return isNaN(num) ? null : num;
+};
+
+export const computePpmError = (observed: number, reference: number): number => {
+  return ((observed - reference) / reference) * 1e6;
+};
+
+// Half-width of the tolerance window in Da, so candidates can be located by binary search.
+export const toleranceInDa = (mz: number, tolerance: MassTolerance): number => {
+  return tolerance.unit === 'ppm' ? (mz * tolerance.value) / 1e6 : tolerance.value / 1000;
+};
+
+export const buildMassCandidates = (rows: TableRow[], column: string, rtColumn?: string): MassCandidate[] => {
+  const candidates: MassCandidate[] = [];
+  rows.forEach(row => {
+    const mz = toNumber(row[column]);
+    const rt = rtColumn ? toNumber(row[rtColumn]) : null;
+    if (mz !== null && (!rtColumn || rt !== null)) {
+      candidates.push({ mz, rt, row });
+    }
+  });
+  return candidates.sort((a, b) => a.mz - b.mz);
+};
+
+const lowerBound = (candidates: MassCandidate[], mz: number): number => {
+  let lo = 0;
+  let hi = candidates.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (candidates[mid].mz < mz) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+};
+
+export const findCandidatesInWindow = (candidates: MassCandidate[], mz: number, tolerance: MassTolerance): MassCandidate[] => {
+  const window = toleranceInDa(mz, tolerance);
+  const result: MassCandidate[] = [];
+  for (let i = lowerBound(candidates, mz - window); i < candidates.length && candidates[i].mz <= mz + window; i++) {
+    result.push(candidates[i]);
+  }
+  return result;
+};
+
+export const findClosestMassMatch = (candidates: MassCandidate[], mz: number, tolerance: MassTolerance): MassMatchResult => {
+  const inWindow = findCandidatesInWindow(candidates, mz, tolerance);
+  if (inWindow.length === 0) {
+    return { match: null, ppmError: null, candidateCount: 0 };
+  }
+  const closest = inWindow.reduce((best, c) => Math.abs(c.mz - mz) < Math.abs(best.mz - mz) ? c : best, inWindow[0]);
+  return { match: closest.row, ppmError: computePpmError(mz, closest.mz), candidateCount: inWindow.length };
+};
+
+// Candidates must fall inside both windows; the closest one is chosen by the sum of
+// the m/z and RT deviations, each relative to its own window.
+export const findClosestMzRtMatch = (candidates: MassCandidate[], mz: number, rt: number, tolerance: MassTolerance, rtWindow: number): MassMatchResult => {
+  const massWindow = toleranceInDa(mz, tolerance);
+  const inWindow = findCandidatesInWindow(candidates, mz, tolerance)
+    .filter(c => c.rt != null && Math.abs(c.rt - rt) <= rtWindow);
+  if (inWindow.length === 0) {
+    return { match: null, ppmError: null, rtError: null, candidateCount: 0 };
+  }
+  const score = (c: MassCandidate) =>
+    (massWindow > 0 ? Math.abs(c.mz - mz) / massWindow : 0) + (rtWindow > 0 ? Math.abs(c.rt! - rt) / rtWindow : 0);
+  const closest = inWindow.reduce((best, c) => score(c) < score(best) ? c : best, inWindow[0]);
+  return { match: closest.row, ppmError: computePpmError(mz, closest.mz), rtError: rt - closest.rt!, candidateCount: inWindow.length };
+};
@@ -0,0 +1,40 @@
+import { AnnotationRules, TableRow } from '../types';
+import { DEFAULT_ANNOTATION_RULES, describeFbmn, describeSirius } from './annotationRules';
+
+export type MsiLevel = 1 | 2 | 3 | 4 | 5;
+
+export const MSI_LEVEL_LABELS: Record<MsiLevel, string> = {
+  1: 'Level 1: 结构确认',
+  2: 'Level 2: 可能结构',
+  3: 'Level 3: 暂定候选 / 化合物类别',
+  4: 'Level 4: 明确分子式',
+  5: 'Level 5: 仅精确质量',
+};
+
+const hasValue = (value: unknown): boolean => value !== null && value !== undefined && String(value).trim() !== '';
+
+// Optional column, e.g. appended by a custom pipeline step, marking features confirmed against a reference
+// standard (RT and MS/MS measured under the same conditions).
+export const STANDARD_CONFIRMATION_COLUMN = 'Standard_Confirmed';
+
+const CONFIRMED_VALUES = ['yes', 'y', 'true', '1', '是'];
+
+const isStandardConfirmed = (row: TableRow): boolean =>
+  CONFIRMED_VALUES.includes(String(row[STANDARD_CONFIRMATION_COLUMN] ?? '').trim().toLowerCase());
+
+// Levels follow Schymanski et al. (2014), using the same strength criteria as the annotation rules.
+// Level 1 needs a reference-standard confirmation, which only the Standard_Confirmed column can supply;
+// library and in-silico evidence, even when FBMN and SIRIUS agree, is at most a probable structure (2).
+// Any weaker name or a ClassyFire class is tentative (3), a formula alone is 4 and a bare m/z is 5.
+export const classifyMsiLevel = (row: TableRow, rules: AnnotationRules = DEFAULT_ANNOTATION_RULES): MsiLevel => {
+  const compoundName = String(row['Compound_Name'] || '').trim();
+  const siriusName = String(row['name'] || '').trim();
+  const fbmnStrong = !!compoundName && describeFbmn(row, rules).strong;
+  const siriusStrong = !!siriusName && describeSirius(row, rules).strong;
+
+  if ((compoundName || siriusName) && isStandardConfirmed(row)) return 1;
+  if (fbmnStrong || siriusStrong) return 2;
+  if (compoundName || siriusName || hasValue(row['ClassyFire#class'])) return 3;
+  if (hasValue(row['molecularFormula'])) return 4;
+  return 5;
+};
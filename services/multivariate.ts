@@ -0,0 +1,332 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+import { getAnnotationColumns } from './statistics';
+
+export type ScalingMethod = 'none' | 'pareto' | 'auto';
+
+export const SCALING_LABELS: Record<ScalingMethod, string> = {
+  none: '仅中心化',
+  pareto: 'Pareto 缩放',
+  auto: '自标度 (UV)',
+};
+
+export interface MultivariateOptions {
+  logTransform: boolean;
+  scaling: ScalingMethod;
+}
+
+export interface SampleMatrix {
+  samples: string[];
+  groups: string[];
+  featureRows: number[];
+  // values[sample][feature], centered and scaled.
+  values: number[][];
+}
+
+export interface PcaResult {
+  scores: number[][];
+  loadings: number[][];
+  explained: number[];
+}
+
+export interface PermutationResult {
+  r2y: number[];
+  q2: number[];
+  pR2y: number;
+  pQ2: number;
+}
+
+export interface PlsdaResult {
+  scores: number[][];
+  vip: number[];
+  r2x: number;
+  r2y: number;
+  q2: number;
+  folds: number;
+  permutation: PermutationResult | null;
+}
+
+const MAX_ITERATIONS = 500;
+const TOLERANCE = 1e-10;
+
+const dot = (a: number[], b: number[]): number => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+const sumOfSquares = (matrix: number[][]): number => matrix.reduce((sum, row) => sum + dot(row, row), 0);
+
+const columnMeans = (matrix: number[][]): number[] =>
+  matrix[0].map((_, j) => matrix.reduce((sum, row) => sum + row[j], 0) / matrix.length);
+
+const center = (matrix: number[][], means: number[]): number[][] => matrix.map(row => row.map((v, j) => v - means[j]));
+
+// X'v for X stored as rows.
+const transposeTimes = (matrix: number[][], v: number[]): number[] => {
+  const out = new Array<number>(matrix[0].length).fill(0);
+  matrix.forEach((row, i) => {
+    if (v[i] === 0) return;
+    for (let j = 0; j < row.length; j++) out[j] += row[j] * v[i];
+  });
+  return out;
+};
+
+const times = (matrix: number[][], v: number[]): number[] => matrix.map(row => dot(row, v));
+
+const deflate = (matrix: number[][], t: number[], p: number[]) => {
+  matrix.forEach((row, i) => {
+    for (let j = 0; j < row.length; j++) row[j] -= t[i] * p[j];
+  });
+};
+
+// Missing values (0 or empty) are filled with half the feature's smallest observed value before the
+// optional log2 transform. Features observed in no sample, or constant after transformation, are dropped.
+export const buildSampleMatrix = (
+  data: TableData,
+  samples: { column: string; group: string }[],
+  options: MultivariateOptions,
+): SampleMatrix => {
+  const featureRows: number[] = [];
+  const columns: number[][] = [];
+  data.rows.forEach((row: TableRow, rowIndex) => {
+    const raw = samples.map(s => toNumber(row[s.column]));
+    const positives = raw.filter((v): v is number => v !== null && v > 0);
+    if (positives.length === 0) return;
+    const fill = Math.min(...positives) / 2;
+    const values = raw.map(v => v !== null && v > 0 ? v : fill).map(v => options.logTransform ? Math.log2(v) : v);
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const sd = Math.sqrt(values.reduce((sum, v) => sum + Math.pow(v - mean, 2), 0) / (values.length - 1));
+    if (!(sd > 0)) return;
+    const divisor = options.scaling === 'auto' ? sd : options.scaling === 'pareto' ? Math.sqrt(sd) : 1;
+    featureRows.push(rowIndex);
+    columns.push(values.map(v => (v - mean) / divisor));
+  });
+  if (columns.length < 2) throw new Error('有效特征少于 2 个，无法进行多变量分析。');
+  return {
+    samples: samples.map(s => s.column),
+    groups: samples.map(s => s.group),
+    featureRows,
+    values: samples.map((_, i) => columns.map(col => col[i])),
+  };
+};
+
+// NIPALS PCA on an already centered matrix.
+export const runPca = (matrix: SampleMatrix, nComponents: number): PcaResult => {
+  const x = matrix.values.map(row => [...row]);
+  const total = sumOfSquares(x);
+  const components = Math.min(nComponents, x.length - 1, x[0].length);
+  const scores: number[][] = x.map(() => []);
+  const loadings: number[][] = x[0].map(() => []);
+  const explained: number[] = [];
+
+  for (let a = 0; a < components; a++) {
+    const variances = x[0].map((_, j) => x.reduce((sum, row) => sum + row[j] * row[j], 0));
+    const start = variances.indexOf(Math.max(...variances));
+    let t = x.map(row => row[start]);
+    let p: number[] = [];
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+      p = transposeTimes(x, t);
+      const norm = Math.sqrt(dot(p, p));
+      p = p.map(v => v / norm);
+      const next = times(x, p);
+      const change = next.reduce((sum, v, i) => sum + Math.pow(v - t[i], 2), 0);
+      t = next;
+      if (change < TOLERANCE * dot(t, t)) break;
+    }
+    explained.push(dot(t, t) / total);
+    t.forEach((v, i) => scores[i].push(v));
+    p.forEach((v, j) => loadings[j].push(v));
+    deflate(x, t, p);
+  }
+  return { scores, loadings, explained };
+};
+
+interface PlsModel {
+  weights: number[][];
+  xLoadings: number[][];
+  yLoadings: number[][];
+  scores: number[][];
+  ssY: number[];
+  ssX: number[];
+}
+
+// NIPALS PLS2 on centered X and Y. With a single response the inner loop converges immediately.
+const fitPls = (xIn: number[][], yIn: number[][], nComponents: number): PlsModel => {
+  const x = xIn.map(row => [...row]);
+  const y = yIn.map(row => [...row]);
+  const model: PlsModel = { weights: [], xLoadings: [], yLoadings: [], scores: [], ssY: [], ssX: [] };
+
+  for (let a = 0; a < nComponents; a++) {
+    const yVariances = y[0].map((_, k) => y.reduce((sum, row) => sum + row[k] * row[k], 0));
+    let u = y.map(row => row[yVariances.indexOf(Math.max(...yVariances))]);
+    let w: number[] = [];
+    let t: number[] = x.map(() => 0);
+    let q: number[] = [];
+    for (let iter = 0; iter < MAX_ITERATIONS; iter++) {
+      w = transposeTimes(x, u);
+      const norm = Math.sqrt(dot(w, w));
+      if (norm === 0) break;
+      w = w.map(v => v / norm);
+      const next = times(x, w);
+      const tt = dot(next, next);
+      q = transposeTimes(y, next).map(v => v / tt);
+      u = times(y, q).map(v => v / dot(q, q));
+      const change = next.reduce((sum, v, i) => sum + Math.pow(v - t[i], 2), 0);
+      t = next;
+      if (y[0].length === 1 || change < TOLERANCE * tt) break;
+    }
+    const tt = dot(t, t);
+    if (!(tt > 0)) break;
+    const p = transposeTimes(x, t).map(v => v / tt);
+    model.weights.push(w);
+    model.xLoadings.push(p);
+    model.yLoadings.push(q);
+    model.scores.push(t);
+    model.ssY.push(tt * dot(q, q));
+    model.ssX.push(tt * dot(p, p));
+    deflate(x, t, p);
+    deflate(y, t, q);
+  }
+  return model;
+};
+
+const predictPls = (model: PlsModel, xRow: number[]): number[] => {
+  const x = [...xRow];
+  const prediction = model.yLoadings[0].map(() => 0);
+  model.weights.forEach((w, a) => {
+    const t = dot(x, w);
+    model.yLoadings[a].forEach((q, k) => prediction[k] += t * q);
+    model.xLoadings[a].forEach((p, j) => x[j] -= t * p);
+  });
+  return prediction;
+};
+
+// One dummy column per group; two groups need only one.
+const dummyMatrix = (groups: string[]): number[][] => {
+  const levels = [...new Set<string>(groups)];
+  const used = levels.length === 2 ? levels.slice(0, 1) : levels;
+  return groups.map(g => used.map(level => g === level ? 1 : 0));
+};
+
+// Samples are sorted by group and dealt round-robin so every fold sees every group.
+const assignFolds = (groups: string[], folds: number): number[] => {
+  const order = groups.map((g, i) => ({ g, i })).sort((a, b) => a.g.localeCompare(b.g) || a.i - b.i);
+  const fold = new Array<number>(groups.length);
+  order.forEach((item, position) => fold[item.i] = position % folds);
+  return fold;
+};
+
+// X is scaled once on all samples; each fold re-centers X and Y on its training samples only.
+const crossValidatedQ2 = (x: number[][], y: number[][], nComponents: number, folds: number): number => {
+  const assignment = assignFolds(y.map(row => row.join(',')), folds);
+  const yMeans = columnMeans(y);
+  const ssTotal = sumOfSquares(center(y, yMeans));
+  let press = 0;
+  for (let f = 0; f < folds; f++) {
+    const train = assignment.map((a, i) => a !== f ? i : -1).filter(i => i >= 0);
+    const test = assignment.map((a, i) => a === f ? i : -1).filter(i => i >= 0);
+    if (test.length === 0) continue;
+    const xTrain = train.map(i => x[i]);
+    const yTrain = train.map(i => y[i]);
+    const xMeans = columnMeans(xTrain);
+    const yTrainMeans = columnMeans(yTrain);
+    const model = fitPls(center(xTrain, xMeans), center(yTrain, yTrainMeans), nComponents);
+    test.forEach(i => {
+      const predicted = predictPls(model, x[i].map((v, j) => v - xMeans[j]));
+      y[i].forEach((v, k) => press += Math.pow(v - (predicted[k] + yTrainMeans[k]), 2));
+    });
+  }
+  return 1 - press / ssTotal;
+};
+
+const fitStatistics = (x: number[][], groups: string[], nComponents: number, folds: number) => {
+  const y = dummyMatrix(groups);
+  const yCentered = center(y, columnMeans(y));
+  const model = fitPls(x, yCentered, nComponents);
+  const r2y = model.ssY.reduce((a, b) => a + b, 0) / sumOfSquares(yCentered);
+  return { model, y, r2y, q2: crossValidatedQ2(x, y, nComponents, folds) };
+};
+
+// Deterministic shuffle so a permutation test gives the same answer on every run.
+const seededShuffle = <T>(items: T[], seed: number): T[] => {
+  const out = [...items];
+  let state = seed;
+  const random = () => {
+    state = (state * 1664525 + 1013904223) % 4294967296;
+    return state / 4294967296;
+  };
+  for (let i = out.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [out[i], out[j]] = [out[j], out[i]];
+  }
+  return out;
+};
+
+export const runPlsda = (matrix: SampleMatrix, nComponents: number, permutations: number): PlsdaResult => {
+  const groupCounts = matrix.groups.reduce<Record<string, number>>((acc, g) => ({ ...acc, [g]: (acc[g] ?? 0) + 1 }), {});
+  if (Object.keys(groupCounts).length < 2) throw new Error('PLS-DA 至少需要两个分组。');
+  const small = Object.entries(groupCounts).filter(([, count]) => count < 2).map(([g]) => g);
+  if (small.length > 0) throw new Error(`每个分组至少需要 2 个样本，样本不足的分组: ${small.join(', ')}`);
+  const components = Math.min(nComponents, matrix.samples.length - 2, matrix.featureRows.length);
+  if (components < 1) throw new Error('样本数量不足，无法建立 PLS-DA 模型。');
+
+  const folds = Math.min(7, matrix.samples.length);
+  const { model, r2y, q2 } = fitStatistics(matrix.values, matrix.groups, components, folds);
+  const r2x = model.ssX.reduce((a, b) => a + b, 0) / sumOfSquares(matrix.values);
+
+  const totalSsY = model.ssY.reduce((a, b) => a + b, 0);
+  const featureCount = matrix.featureRows.length;
+  const vip = matrix.featureRows.map((_, j) =>
+    Math.sqrt(featureCount * model.weights.reduce((sum, w, a) => sum + model.ssY[a] * w[j] * w[j], 0) / totalSsY));
+
+  let permutation: PermutationResult | null = null;
+  if (permutations > 0) {
+    const r2yValues: number[] = [];
+    const q2Values: number[] = [];
+    for (let i = 0; i < permutations; i++) {
+      const shuffled = seededShuffle(matrix.groups, i + 1);
+      const result = fitStatistics(matrix.values, shuffled, components, folds);
+      r2yValues.push(result.r2y);
+      q2Values.push(result.q2);
+    }
+    permutation = {
+      r2y: r2yValues,
+      q2: q2Values,
+      pR2y: (r2yValues.filter(v => v >= r2y).length + 1) / (permutations + 1),
+      pQ2: (q2Values.filter(v => v >= q2).length + 1) / (permutations + 1),
+    };
+  }
+
+  return {
+    scores: matrix.samples.map((_, i) => model.scores.map(t => t[i])),
+    vip,
+    r2x,
+    r2y,
+    q2,
+    folds,
+    permutation,
+  };
+};
+
+export const buildVipTable = (data: TableData, matrix: SampleMatrix, result: PlsdaResult): TableData => {
+  const infoColumns = getAnnotationColumns(data.headers);
+  const rows = matrix.featureRows
+    .map((rowIndex, j) => {
+      const row: TableRow = {};
+      infoColumns.forEach(col => row[col] = data.rows[rowIndex][col] ?? null);
+      row.VIP = Number(result.vip[j].toPrecision(4));
+      return row;
+    })
+    .sort((a, b) => (b.VIP as number) - (a.VIP as number));
+  return { headers: [...infoColumns, 'VIP'], rows };
+};
+
+export const buildScoresTable = (matrix: SampleMatrix, scores: number[][], prefix: string): TableData => {
+  const components = scores[0]?.length ?? 0;
+  const componentHeaders = Array.from({ length: components }, (_, a) => `${prefix}${a + 1}`);
+  return {
+    headers: ['Sample', 'Group', ...componentHeaders],
+    rows: matrix.samples.map((sample, i) => {
+      const row: TableRow = { Sample: sample, Group: matrix.groups[i] };
+      componentHeaders.forEach((h, a) => row[h] = Number(scores[i][a].toPrecision(6)));
+      return row;
+    }),
+  };
+};
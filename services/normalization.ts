@@ -0,0 +1,137 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export type NormalizationMethod = 'tic' | 'median' | 'pqn' | 'internalStandard';
+
+export const NORMALIZATION_METHOD_LABELS: Record<NormalizationMethod, string> = {
+  tic: '总离子流 (TIC)',
+  median: '中位数',
+  pqn: '概率商 (PQN)',
+  internalStandard: '内标',
+};
+
+export interface SampleSummary {
+  column: string;
+  total: number;
+  median: number;
+  detected: number;
+}
+
+export interface NormalizationOutcome {
+  data: TableData;
+  factors: Record<string, number>;
+}
+
+const positive = (value: unknown): number | null => {
+  const num = toNumber(value);
+  return num !== null && num > 0 ? num : null;
+};
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return NaN;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+};
+
+const columnValues = (rows: TableRow[], col: string): number[] =>
+  rows.map(row => positive(row[col])).filter((v): v is number => v !== null);
+
+export const summarizeSamples = (data: TableData, cols: string[]): SampleSummary[] =>
+  cols.map(col => {
+    const values = columnValues(data.rows, col);
+    return {
+      column: col,
+      total: values.reduce((a, b) => a + b, 0),
+      median: values.length > 0 ? median(values) : 0,
+      detected: values.length,
+    };
+  });
+
+// Raw per-column factors are rescaled by their median so normalized values stay in the original range.
+const scaleFactors = (raw: Record<string, number>): Record<string, number> => {
+  const center = median(Object.values(raw).filter(v => isFinite(v) && v > 0));
+  const factors: Record<string, number> = {};
+  Object.entries(raw).forEach(([col, value]) => factors[col] = value / center);
+  return factors;
+};
+
+// PQN: the reference spectrum is the per-feature median of the QC columns (or all columns when there
+// are no QCs), and each column's factor is its median quotient against that reference.
+const pqnFactors = (rows: TableRow[], cols: string[], referenceCols: string[]): Record<string, number> => {
+  const reference = rows.map(row => median(referenceCols.map(col => positive(row[col])).filter((v): v is number => v !== null)));
+  const raw: Record<string, number> = {};
+  cols.forEach(col => {
+    const quotients = rows
+      .map((row, i) => {
+        const value = positive(row[col]);
+        return value !== null && reference[i] > 0 ? value / reference[i] : null;
+      })
+      .filter((v): v is number => v !== null);
+    raw[col] = median(quotients);
+  });
+  return raw;
+};
+
+// Each standard is scaled to its own mean across columns so standards of different abundance weigh equally.
+const internalStandardFactors = (rows: TableRow[], cols: string[]): Record<string, number> => {
+  const ratios = rows.map(row => {
+    const values = cols.map(col => positive(row[col]));
+    const observed = values.filter((v): v is number => v !== null);
+    const mean = observed.reduce((a, b) => a + b, 0) / observed.length;
+    return values.map(v => v !== null ? v / mean : null);
+  });
+  const raw: Record<string, number> = {};
+  cols.forEach((col, j) => {
+    const colRatios = ratios.map(r => r[j]).filter((v): v is number => v !== null);
+    raw[col] = colRatios.length > 0 ? colRatios.reduce((a, b) => a + b, 0) / colRatios.length : NaN;
+  });
+  return raw;
+};
+
+export const findInternalStandards = (data: TableData, ids: string[]): TableRow[] => {
+  if (!data.headers.includes('ID')) throw new Error("数据必须包含 'ID' 列才能按内标归一化。");
+  const wanted = new Set(ids);
+  const rows = data.rows.filter(row => row.ID != null && wanted.has(String(row.ID).trim()));
+  const found = new Set(rows.map(row => String(row.ID).trim()));
+  const missing = ids.filter(id => !found.has(id));
+  if (missing.length > 0) throw new Error(`未在数据中找到以下内标 ID: ${missing.join(', ')}`);
+  return rows;
+};
+
+export const normalizeSamples = (
+  data: TableData,
+  cols: string[],
+  method: NormalizationMethod,
+  options: { referenceCols?: string[]; internalStandardIds?: string[] } = {},
+): NormalizationOutcome => {
+  let raw: Record<string, number> = {};
+  switch (method) {
+    case 'tic':
+      cols.forEach(col => raw[col] = columnValues(data.rows, col).reduce((a, b) => a + b, 0));
+      break;
+    case 'median':
+      cols.forEach(col => raw[col] = median(columnValues(data.rows, col)));
+      break;
+    case 'pqn':
+      raw = pqnFactors(data.rows, cols, options.referenceCols?.length ? options.referenceCols : cols);
+      break;
+    case 'internalStandard':
+      raw = internalStandardFactors(findInternalStandards(data, options.internalStandardIds ?? []), cols);
+      break;
+  }
+
+  const invalid = cols.filter(col => !(isFinite(raw[col]) && raw[col] > 0));
+  if (invalid.length > 0) throw new Error(`以下列无法计算归一化因子 (没有有效强度): ${invalid.join(', ')}`);
+
+  const factors = scaleFactors(raw);
+  const rows = data.rows.map(row => {
+    const newRow: TableRow = { ...row };
+    cols.forEach(col => {
+      const value = positive(row[col]);
+      if (value !== null) newRow[col] = Number((value / factors[col]).toPrecision(6));
+    });
+    return newRow;
+  });
+  return { data: { headers: data.headers, rows }, factors };
+};
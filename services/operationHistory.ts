@@ -0,0 +1,124 @@
+import { TableData } from '../types';
+import { ProjectState } from './projectStore';
+
+// The fields that hold data or a tool's progress. A change to any of them is one undoable operation; parameter
+// fields (tolerances, text boxes, chart options) are not tracked, so typing does not fill the history.
+export const HISTORY_KEYS: (keyof ProjectState)[] = [
+  'currentStep', 'netTable', 'mergedData', 'dataHistory', 'allUnmatched', 'ambiguousMatches', 'featureCandidates',
+  'batches', 'columnBatches', 'sampleMetadata',
+  'dereplicationData', 'dataBeforeDereplication', 'isDereplicated',
+  'featureFilterData', 'featureFilterHistory',
+  'preprocessData', 'preprocessHistory', 'runListOrder',
+  'statsData', 'statsResults',
+  'filterToolData', 'dataBeforeFilter', 'isFiltered', 'contaminantList',
+];
+
+export type HistorySnapshot = Partial<ProjectState>;
+
+// Tool each tracked field belongs to, used to label changes nobody described explicitly.
+const KEY_TOOLS: Partial<Record<keyof ProjectState, string>> = {
+  currentStep: '主流程', netTable: '主流程', mergedData: '主流程', dataHistory: '主流程', allUnmatched: '主流程',
+  ambiguousMatches: '主流程', featureCandidates: '主流程', batches: '主流程', columnBatches: '主流程',
+  sampleMetadata: '样本信息',
+  dereplicationData: '去重', dataBeforeDereplication: '去重', isDereplicated: '去重',
+  featureFilterData: '特征过滤', featureFilterHistory: '特征过滤',
+  preprocessData: '预处理', preprocessHistory: '预处理', runListOrder: '预处理',
+  statsData: '统计分析', statsResults: '统计分析',
+  filterToolData: '污染物过滤', dataBeforeFilter: '污染物过滤', isFiltered: '污染物过滤', contaminantList: '污染物过滤',
+};
+
+// Tables whose row counts are reported in the log.
+const TABLE_KEYS: [keyof ProjectState, string][] = [
+  ['mergedData', '主流程'],
+  ['dereplicationData', '去重'],
+  ['featureFilterData', '特征过滤'],
+  ['preprocessData', '预处理'],
+  ['statsData', '统计分析'],
+  ['filterToolData', '污染物过滤'],
+];
+
+export type OperationParams = Record<string, string | number | boolean | null>;
+
+export interface OperationNote {
+  tool: string;
+  action: string;
+  params?: OperationParams;
+}
+
+export interface HistoryEntry {
+  note: OperationNote;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+  changes: string;
+}
+
+export interface OperationLogEntry {
+  timestamp: string;
+  kind: 'operation' | 'undo' | 'redo';
+  tool: string;
+  action: string;
+  params: string;
+  changes: string;
+}
+
+export const LOG_KIND_LABELS: Record<OperationLogEntry['kind'], string> = {
+  operation: '操作',
+  undo: '撤销',
+  redo: '重做',
+};
+
+export const takeSnapshot = (state: ProjectState): HistorySnapshot =>
+  Object.fromEntries(HISTORY_KEYS.map(key => [key, state[key]])) as HistorySnapshot;
+
+// Data is never mutated in place, so reference equality tells whether a field changed.
+export const changedKeys = (before: HistorySnapshot, after: HistorySnapshot): (keyof ProjectState)[] =>
+  HISTORY_KEYS.filter(key => before[key] !== after[key]);
+
+const rowCount = (value: unknown): number | null => {
+  const table = value as TableData | null | undefined;
+  return table && Array.isArray(table.rows) ? table.rows.length : null;
+};
+
+export const defaultNote = (before: HistorySnapshot, after: HistorySnapshot, keys: (keyof ProjectState)[]): OperationNote => {
+  const loaded = TABLE_KEYS.some(([key]) => keys.includes(key) && rowCount(before[key]) === null && rowCount(after[key]) !== null);
+  return { tool: KEY_TOOLS[keys[0]] ?? '其他', action: loaded ? '载入数据' : '数据更新' };
+};
+
+export const describeChanges = (before: HistorySnapshot, after: HistorySnapshot): string => {
+  const parts: string[] = [];
+  TABLE_KEYS.forEach(([key, label]) => {
+    if (before[key] === after[key]) return;
+    const from = rowCount(before[key]);
+    const to = rowCount(after[key]);
+    if (from === null && to === null) return;
+    if (from === null) parts.push(`${label}: 载入 ${to} 行`);
+    else if (to === null) parts.push(`${label}: 清空 (原 ${from} 行)`);
+    else parts.push(`${label}: ${from} → ${to} 行 (${to - from >= 0 ? '+' : ''}${to - from})`);
+  });
+  if (before.currentStep !== after.currentStep) parts.push(`主流程步骤: ${(before.currentStep ?? 0) + 1} → ${(after.currentStep ?? 0) + 1}`);
+  return parts.join('; ') || '行数无变化';
+};
+
+export const formatParams = (params?: OperationParams): string =>
+  params ? Object.entries(params).filter(([, value]) => value !== null && value !== '').map(([key, value]) => `${key}=${value}`).join('; ') : '';
+
+export const createLogEntry = (kind: OperationLogEntry['kind'], note: OperationNote, changes: string): OperationLogEntry => ({
+  timestamp: new Date().toISOString(),
+  kind,
+  tool: note.tool,
+  action: note.action,
+  params: formatParams(note.params),
+  changes,
+});
+
+export const buildLogTable = (log: OperationLogEntry[]): TableData => ({
+  headers: ['时间', '类型', '功能区', '操作', '参数', '行数变化'],
+  rows: log.map(entry => ({
+    '时间': new Date(entry.timestamp).toLocaleString('zh-CN', { hour12: false }),
+    '类型': LOG_KIND_LABELS[entry.kind],
+    '功能区': entry.tool,
+    '操作': entry.action,
+    '参数': entry.params,
+    '行数变化': entry.changes,
+  })),
+});
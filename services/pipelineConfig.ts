@@ -0,0 +1,131 @@
+import { ProcessingStep } from '../types';
+
+const STORAGE_KEY = 'metabolomics.pipeline';
+
+export const DEFAULT_PIPELINE: ProcessingStep[] = [
+  { name: 'Mzmine导出数据增列', description: '上传 Mzmine 导出文件或已处理的净表。', fileType: 'mzmine', requiredColumns: [], matchColumn: '', appendColumns: [] },
+  { name: '上传净表', description: '确认基础数据已加载并符合要求。', fileType: 'netTable', requiredColumns: ['ID', 'MZ'], matchColumn: '', appendColumns: [] },
+  { name: '匹配FBMN', description: '上传FBMN特征文件以匹配ID并追加信息。', fileType: 'fbmn', requiredColumns: ['ID'], matchMode: 'id', matchColumn: 'ID', appendColumns: ['Compound_Name', 'NAME (中文翻译)', 'Adduct', 'LibraryQualityString', 'MQScore', 'MZErrorPPM', 'SharedPeaks'], rankColumn: 'MQScore', candidateNameColumn: 'Compound_Name', candidatePrefix: 'FBMN' },
+  { name: '匹配Sirius', description: '上传Sirius匹配结果以匹配ID并追加信息。', fileType: 'sirius', requiredColumns: ['ID'], matchMode: 'id', matchColumn: 'ID', appendColumns: ['name', 'molecularFormula', 'ConfidenceScoreExact', 'smiles', 'ConfidenceScoreApproximate', 'InChIkey2D'], rankColumn: 'ConfidenceScoreExact', candidateNameColumn: 'name', candidatePrefix: 'SIRIUS' },
+  { name: '匹配补充列', description: '上传补充列文件，按 ppm/mDa 容差匹配MZ并追加信息。', fileType: 'supplementary', requiredColumns: ['ionMass'], matchMode: 'mz', matchColumn: 'ionMass', matchColumnBase: 'MZ', appendColumns: ['molecularFormula', 'NPC#superclass', 'ClassyFire#superclass', 'ClassyFire#class', 'InChI'] },
+  { name: '匹配外部特征表', description: '(可选) 上传其他仪器或软件的特征表，按 m/z 与 RT 窗口匹配。', fileType: 'external', requiredColumns: ['mz', 'rt'], matchMode: 'mzRt', matchColumn: 'mz', matchColumnBase: 'MZ', rtColumn: 'rt', rtColumnBase: 'RT', appendColumns: ['External_ID', 'External_Annotation'], optional: true },
+  { name: '生成最终注释', description: '基于FBMN和Sirius的结果生成最终注释列。', fileType: 'annotation', requiredColumns: [], matchColumn: '', appendColumns: ['Final_Annotation', 'Annotation_Source', 'Annotation_Reason', 'MSI_Level'] },
+];
+
+const FILE_TYPES: ProcessingStep['fileType'][] = ['mzmine', 'netTable', 'fbmn', 'sirius', 'supplementary', 'external', 'custom', 'annotation'];
+const MATCH_MODES: NonNullable<ProcessingStep['matchMode']>[] = ['id', 'mz', 'mzRt'];
+
+export const isJoinStep = (step: ProcessingStep): boolean => step.matchMode !== undefined;
+
+export const createJoinStep = (): ProcessingStep => ({
+  name: '新匹配步骤',
+  description: '上传文件以匹配ID并追加信息。',
+  fileType: 'custom',
+  requiredColumns: ['ID'],
+  matchMode: 'id',
+  matchColumn: 'ID',
+  appendColumns: [],
+  optional: true,
+});
+
+// The uploaded file must at least carry the columns used for matching.
+export const deriveRequiredColumns = (step: ProcessingStep): string[] => {
+  if (!isJoinStep(step)) return step.requiredColumns;
+  const cols = [step.matchColumn];
+  if (step.matchMode === 'mzRt' && step.rtColumn) cols.push(step.rtColumn);
+  return cols.filter(Boolean);
+};
+
+export const validatePipeline = (value: unknown): ProcessingStep[] => {
+  if (!Array.isArray(value) || value.length < 3) {
+    throw new Error('流程配置必须是至少包含 3 个步骤的数组。');
+  }
+
+  const steps = value.map((raw: any, index: number): ProcessingStep => {
+    const label = `第 ${index + 1} 步`;
+    if (!raw || typeof raw !== 'object') throw new Error(`${label} 不是有效的对象。`);
+    if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`${label} 缺少名称。`);
+    if (!FILE_TYPES.includes(raw.fileType)) throw new Error(`${label} 的 fileType 无效: ${raw.fileType}`);
+    if (raw.matchMode !== undefined && !MATCH_MODES.includes(raw.matchMode)) throw new Error(`${label} 的 matchMode 无效: ${raw.matchMode}`);
+
+    const stringList = (list: unknown, field: string): string[] => {
+      if (list === undefined) return [];
+      if (!Array.isArray(list) || list.some(item => typeof item !== 'string')) throw new Error(`${label} 的 ${field} 必须是字符串数组。`);
+      return list;
+    };
+
+    const step: ProcessingStep = {
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : '',
+      fileType: raw.fileType,
+      requiredColumns: stringList(raw.requiredColumns, 'requiredColumns'),
+      matchColumn: typeof raw.matchColumn === 'string' ? raw.matchColumn : '',
+      appendColumns: stringList(raw.appendColumns, 'appendColumns'),
+    };
+    if (raw.matchMode !== undefined) step.matchMode = raw.matchMode;
+    if (typeof raw.matchColumnBase === 'string' && raw.matchColumnBase) step.matchColumnBase = raw.matchColumnBase;
+    if (typeof raw.rtColumn === 'string' && raw.rtColumn) step.rtColumn = raw.rtColumn;
+    if (typeof raw.rtColumnBase === 'string' && raw.rtColumnBase) step.rtColumnBase = raw.rtColumnBase;
+    if (typeof raw.rankColumn === 'string' && raw.rankColumn) step.rankColumn = raw.rankColumn;
+    if (typeof raw.candidateNameColumn === 'string' && raw.candidateNameColumn) step.candidateNameColumn = raw.candidateNameColumn;
+    if (typeof raw.candidatePrefix === 'string' && raw.candidatePrefix) step.candidatePrefix = raw.candidatePrefix;
+    if (raw.optional === true) step.optional = true;
+
+    if (isJoinStep(step)) {
+      if (!step.matchColumn) throw new Error(`${label} (${step.name}) 未指定匹配列。`);
+      if (step.matchMode !== 'id' && !step.matchColumnBase) throw new Error(`${label} (${step.name}) 未指定基础表的 m/z 列。`);
+      if (step.matchMode === 'mzRt' && (!step.rtColumn || !step.rtColumnBase)) throw new Error(`${label} (${step.name}) 未指定 RT 列。`);
+      if (step.candidateNameColumn && step.matchMode !== 'id') throw new Error(`${label} (${step.name}) 仅按 ID 匹配的步骤可以保留多个候选。`);
+      step.requiredColumns = deriveRequiredColumns(step);
+    }
+    return step;
+  });
+
+  if (steps[0].fileType !== 'mzmine' || steps[1].fileType !== 'netTable') {
+    throw new Error('流程的前两步必须是 Mzmine 数据增列与上传净表。');
+  }
+  if (steps[steps.length - 1].fileType !== 'annotation') {
+    throw new Error('流程的最后一步必须是生成最终注释。');
+  }
+  if (steps.slice(2, -1).some(step => !isJoinStep(step))) {
+    throw new Error('中间步骤必须是带有匹配方式的匹配步骤。');
+  }
+  const names = steps.map(step => step.name);
+  if (new Set(names).size !== names.length) {
+    throw new Error('步骤名称不能重复。');
+  }
+  return steps;
+};
+
+export const parsePipelineJson = (text: string): ProcessingStep[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('流程配置文件不是有效的 JSON。');
+  }
+  return validatePipeline(parsed);
+};
+
+export const loadPipeline = (): ProcessingStep[] => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? parsePipelineJson(stored) : DEFAULT_PIPELINE;
+  } catch (error) {
+    console.error("读取已保存的流程配置失败，使用默认流程:", error);
+    return DEFAULT_PIPELINE;
+  }
+};
+
+export const savePipeline = (steps: ProcessingStep[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(steps));
+};
+
+export const clearSavedPipeline = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+export const getCandidatePrefix = (step: ProcessingStep): string => step.candidatePrefix || step.name;
+
+// Steps that keep every library hit per feature instead of a single row.
+export const keepsCandidates = (step: ProcessingStep): boolean => step.matchMode === 'id' && !!step.candidateNameColumn;
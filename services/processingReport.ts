@@ -0,0 +1,304 @@
+import { ProcessingStep, TableData, TableRow } from '../types';
+import { ProjectState } from './projectStore';
+import { summarizeRemovalReasons } from './featureFilters';
+import { LIBRARY_COLUMN } from './contaminantLibrary';
+import { ION_POLARITY_LABELS } from './ionGrouping';
+import { MSI_LEVEL_LABELS, MsiLevel } from './msiLevel';
+import { LOG_KIND_LABELS } from './operationHistory';
+
+export interface ReportBar {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+const STEP_TYPE_LABELS: Record<ProcessingStep['fileType'], string> = {
+  mzmine: 'Mzmine 导出',
+  netTable: '净表',
+  fbmn: 'FBMN',
+  sirius: 'SIRIUS',
+  supplementary: '补充列',
+  external: '外部特征表',
+  custom: '自定义',
+  annotation: '最终注释',
+};
+
+const MATCH_MODE_LABELS: Record<NonNullable<ProcessingStep['matchMode']>, string> = {
+  id: '按 ID',
+  mz: '按 m/z',
+  mzRt: '按 m/z + RT',
+};
+
+const COLORS = ['#0284c7', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#0d9488', '#db2777', '#64748b'];
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const hasValue = (value: unknown): boolean => value !== null && value !== undefined && String(value).trim() !== '';
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / 1024 / 1024).toFixed(2)} MB`;
+};
+
+const formatTime = (iso: string): string => new Date(iso).toLocaleString('zh-CN', { hour12: false });
+
+const countBy = (rows: TableRow[], key: string): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  rows.forEach(row => {
+    const value = hasValue(row[key]) ? String(row[key]) : '(空)';
+    counts[value] = (counts[value] ?? 0) + 1;
+  });
+  return counts;
+};
+
+const toBars = (counts: Record<string, number>): ReportBar[] =>
+  Object.entries(counts).sort((a, b) => b[1] - a[1]).map(([label, value], i) => ({ label, value, color: COLORS[i % COLORS.length] }));
+
+// Charts are plain SVG strings with inline styling so the report needs no scripts or external files.
+export const barChartSvg = (bars: ReportBar[]): string => {
+  if (bars.length === 0) return '';
+  const labelWidth = 200;
+  const barArea = 380;
+  const rowHeight = 26;
+  const width = labelWidth + barArea + 80;
+  const height = bars.length * rowHeight + 10;
+  const max = Math.max(...bars.map(bar => bar.value), 1);
+  const rows = bars.map((bar, i) => {
+    const y = 5 + i * rowHeight;
+    const length = (bar.value / max) * barArea;
+    const label = bar.label.length > 24 ? `${bar.label.slice(0, 23)}…` : bar.label;
+    return `<text x="${labelWidth - 8}" y="${y + 16}" text-anchor="end" font-size="12" fill="#334155">${escapeHtml(label)}</text>`
+      + `<rect x="${labelWidth}" y="${y + 3}" width="${length.toFixed(1)}" height="${rowHeight - 8}" rx="3" fill="${bar.color ?? COLORS[0]}"></rect>`
+      + `<text x="${labelWidth + length + 6}" y="${y + 16}" font-size="12" fill="#0f172a">${bar.value}</text>`;
+  });
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" role="img">${rows.join('')}</svg>`;
+};
+
+const table = (headers: string[], rows: unknown[][]): string =>
+  `<table><thead><tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join('')}</tr></thead>`
+  + `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('')}</tbody></table>`;
+
+const section = (title: string, body: string): string => `<section><h2>${escapeHtml(title)}</h2>${body}</section>`;
+
+const empty = (text: string): string => `<p class="muted">${escapeHtml(text)}</p>`;
+
+export interface StepSummary {
+  index: number;
+  step: ProcessingStep;
+  status: '已完成' | '已跳过' | '未完成';
+  features: number | null;
+  matched: number | null;
+  unmatched: number;
+  ambiguous: number;
+}
+
+// dataHistory[i] is the table after step i. A skipped optional step stores the previous table unchanged.
+export const summarizeSteps = (state: ProjectState): StepSummary[] => state.pipeline.map((step, index) => {
+  const data: TableData | undefined = state.dataHistory[index];
+  const done = index < state.currentStep && !!data;
+  const skipped = done && index > 0 && !!step.optional && data === state.dataHistory[index - 1];
+  const isMatchStep = !!step.matchMode && step.appendColumns.length > 0;
+  return {
+    index,
+    step,
+    status: skipped ? '已跳过' : done ? '已完成' : '未完成',
+    features: done ? data.rows.length : null,
+    matched: done && !skipped && isMatchStep ? data.rows.filter(row => step.appendColumns.some(col => hasValue(row[col]))).length : null,
+    unmatched: state.allUnmatched[index]?.length ?? 0,
+    ambiguous: state.ambiguousMatches[index]?.length ?? 0,
+  };
+});
+
+// The derep tool keeps every row and labels it; anything not kept counts as removed under its label.
+export const summarizeDereplication = (data: TableData | null): Record<string, number> => {
+  const summary: Record<string, number> = {};
+  data?.rows.forEach(row => {
+    const status = String(row._derep_status ?? '保留');
+    if (status !== '保留') summary[status] = (summary[status] ?? 0) + 1;
+  });
+  return summary;
+};
+
+const inputSection = (state: ProjectState): string => {
+  if (state.inputFiles.length === 0) return section('输入文件', empty('本项目没有记录上传的文件。'));
+  const total = state.inputFiles.reduce((sum, file) => sum + file.size, 0);
+  return section('输入文件', table(
+    ['功能区', '用途', '文件名', '大小', '行数', '列数', '载入时间'],
+    state.inputFiles.map(file => [file.tool, file.purpose, file.name, formatFileSize(file.size), file.rows, file.columns, formatTime(file.loadedAt)]),
+  ) + `<p class="muted">共 ${state.inputFiles.length} 个文件，合计 ${formatFileSize(total)}。</p>`);
+};
+
+const pipelineSection = (state: ProjectState, steps: StepSummary[]): string => {
+  if (!state.netTable) return section('主流程匹配', empty('主流程尚未载入数据。'));
+  const params = `<p>质量容差 ${state.massTolerance.value} ${state.massTolerance.unit}；RT 窗口 ${state.rtWindow} min；每个来源保留前 ${state.candidateTopN} 个候选。`
+    + `${state.isMultiBatch ? ` 多批次模式，共 ${state.batches.length} 个批次。` : ''}</p>`;
+  const rows = steps.map(s => [
+    s.index + 1,
+    s.step.name,
+    STEP_TYPE_LABELS[s.step.fileType],
+    s.step.matchMode ? MATCH_MODE_LABELS[s.step.matchMode] : '-',
+    s.status,
+    s.features ?? '-',
+    s.matched ?? '-',
+    s.step.matchMode && s.status === '已完成' ? s.unmatched : '-',
+    s.step.matchMode && s.status === '已完成' ? s.ambiguous : '-',
+  ]);
+  const matchBars = steps.filter(s => s.matched !== null).map(s => ({ label: s.step.name, value: s.matched!, color: COLORS[1] }));
+  const unmatchedBars = steps.filter(s => s.matched !== null).map(s => ({ label: s.step.name, value: s.unmatched, color: COLORS[3] }));
+  const charts = matchBars.length > 0
+    ? `<div class="charts"><figure>${barChartSvg(matchBars)}<figcaption>各步骤已匹配的特征数</figcaption></figure>`
+      + `<figure>${barChartSvg(unmatchedBars)}<figcaption>各步骤上传文件中未匹配的条目数</figcaption></figure></div>`
+    : '';
+  return section('主流程匹配', params
+    + table(['#', '步骤', '类型', '匹配方式', '状态', '特征数', '已匹配特征', '未匹配条目', '多重匹配'], rows)
+    + '<p class="muted">“已匹配特征”为获得该步骤追加列的特征数；“未匹配条目”为上传文件中未找到对应特征的 ID 或 m/z；“多重匹配”为容差内存在多个候选的特征数。</p>'
+    + charts);
+};
+
+const annotationSection = (state: ProjectState): string => {
+  const rules = state.annotationRules;
+  const settings = table(['规则', '设置'], [
+    ['FBMN MQScore >', rules.minMqScore],
+    ['FBMN 接受的库质量', rules.libraryQualities.join(', ') || '(任意)'],
+    ['FBMN SharedPeaks >', rules.minSharedPeaks],
+    ['FBMN |MZErrorPPM| <', rules.maxAbsPpmError],
+    ['SIRIUS 置信度 >', rules.minSiriusConfidence],
+    ['两者均达标时优先', rules.preferWhenBothStrong === 'fbmn' ? 'FBMN' : 'SIRIUS'],
+    ['均未达标时采用', rules.fallback === 'fbmn' ? 'FBMN' : 'SIRIUS'],
+  ]);
+  const annotated = state.mergedData?.headers.includes('Annotation_Source') ? state.mergedData : null;
+  if (!annotated) return section('注释规则', settings + empty('尚未生成最终注释。'));
+  const levelCounts: Record<string, number> = {};
+  Object.entries(countBy(annotated.rows, 'MSI_Level')).forEach(([level, count]) => {
+    levelCounts[MSI_LEVEL_LABELS[Number(level) as MsiLevel] ?? level] = count;
+  });
+  return section('注释规则', settings + '<div class="charts">'
+    + `<figure>${barChartSvg(toBars(countBy(annotated.rows, 'Annotation_Source')))}<figcaption>最终注释来源</figcaption></figure>`
+    + `<figure>${barChartSvg(toBars(levelCounts))}<figcaption>MSI 鉴定等级分布</figcaption></figure></div>`);
+};
+
+const dereplicationSection = (state: ProjectState): string => {
+  if (!state.dereplicationData) return section('去重', empty('未使用去重功能。'));
+  if (!state.isDereplicated) return section('去重', empty(`已载入 ${state.dereplicationData.rows.length} 个特征，尚未执行去重。`));
+  const reasons = summarizeDereplication(state.dereplicationData);
+  const removed = Object.values(reasons).reduce((sum, n) => sum + n, 0);
+  const total = state.dereplicationData.rows.length;
+  return section('去重', `<p>${state.useIonGroups && state.dereplicationData.headers.includes('Feature_Group') ? `按加合物/同位素离子组合并 (${ION_POLARITY_LABELS[state.ionPolarity]})。` : '按注释名称合并。'}`
+    + `共 ${total} 个特征，保留 ${total - removed} 个，移除 ${removed} 个。</p>`
+    + (removed > 0 ? table(['移除原因', '特征数'], Object.entries(reasons)) + `<figure>${barChartSvg(toBars(reasons))}<figcaption>去重移除原因</figcaption></figure>` : ''));
+};
+
+const filterSection = (state: ProjectState): string => {
+  const parts: string[] = [];
+  if (state.featureFilterData) {
+    const reasons = summarizeRemovalReasons(state.featureFilterData);
+    const removed = Object.values(reasons).reduce((sum, n) => sum + n, 0);
+    const total = state.featureFilterData.rows.length;
+    parts.push(`<h3>特征过滤</h3><p>空白倍数阈值 ${state.minBlankFold}；QC RSD ≤ ${state.qualityFilterSettings.maxQcRsd}%；检出率 ≥ ${state.qualityFilterSettings.minDetectionRate}% (${state.qualityFilterSettings.detectionMode === 'group' ? '任一组内' : '全部样本'})。`
+      + `共 ${total} 个特征，保留 ${total - removed} 个，移除 ${removed} 个。</p>`
+      + (removed > 0 ? table(['移除原因', '特征数'], Object.entries(reasons)) + `<figure>${barChartSvg(toBars(reasons))}<figcaption>特征过滤移除原因</figcaption></figure>` : ''));
+  }
+  if (state.filterToolData) {
+    const flagged = state.filterToolData.rows.filter(row => hasValue(row[LIBRARY_COLUMN])).length;
+    const before = state.isFiltered && state.dataBeforeFilter ? state.dataBeforeFilter.rows.length : state.filterToolData.rows.length;
+    const after = state.filterToolData.rows.length;
+    parts.push(`<h3>污染物过滤</h3><p>${state.isFiltered ? `过滤前 ${before} 个特征，过滤后 ${after} 个，移除 ${before - after} 个。` : `已载入 ${after} 个特征，尚未执行过滤。`}`
+      + `${state.contaminantList ? ` 污染物列表共 ${state.contaminantList.size} 个条目。` : ''}`
+      + `${state.librarySettings.enabled ? ` 内置污染物质量库 (${state.librarySettings.ppm} ppm, ${ION_POLARITY_LABELS[state.librarySettings.polarity]}) 已启用。` : ''}`
+      + `${state.maxMsiLevel ? ` 仅保留 MSI 等级 ≤ ${state.maxMsiLevel} 的特征。` : ''}`
+      + `${flagged > 0 ? ` 另有 ${flagged} 个特征被标记为疑似污染物但未移除。` : ''}</p>`);
+  }
+  return section('过滤', parts.join('') || empty('未使用特征过滤或污染物过滤功能。'));
+};
+
+const preprocessSection = (state: ProjectState): string => {
+  if (!state.preprocessData) return section('预处理', empty('未使用预处理功能。'));
+  if (state.preprocessHistory.length === 0) return section('预处理', empty('已载入数据，尚未执行预处理步骤。'));
+  return section('预处理', `<ol>${state.preprocessHistory.map(entry => `<li>${escapeHtml(entry.label)}</li>`).join('')}</ol>`);
+};
+
+const finalCountBars = (state: ProjectState): ReportBar[] => {
+  const bars: ReportBar[] = [];
+  const add = (label: string, data: TableData | null, count?: number) => {
+    if (data) bars.push({ label, value: count ?? data.rows.length, color: COLORS[bars.length % COLORS.length] });
+  };
+  add('主流程', state.mergedData);
+  add('去重后', state.dereplicationData, state.dereplicationData && state.isDereplicated
+    ? state.dereplicationData.rows.length - Object.values(summarizeDereplication(state.dereplicationData)).reduce((sum, n) => sum + n, 0)
+    : undefined);
+  add('特征过滤后', state.featureFilterData, state.featureFilterData
+    ? state.featureFilterData.rows.length - Object.values(summarizeRemovalReasons(state.featureFilterData)).reduce((sum, n) => sum + n, 0)
+    : undefined);
+  add('污染物过滤后', state.filterToolData);
+  add('预处理', state.preprocessData);
+  add('统计分析', state.statsData);
+  return bars;
+};
+
+const logSection = (state: ProjectState): string => {
+  if (state.operationLog.length === 0) return '';
+  return section('附录: 操作日志', table(
+    ['时间', '类型', '功能区', '操作', '参数', '行数变化'],
+    state.operationLog.map(entry => [formatTime(entry.timestamp), LOG_KIND_LABELS[entry.kind], entry.tool, entry.action, entry.params, entry.changes]),
+  ));
+};
+
+const REPORT_STYLE = `
+  body { font-family: -apple-system, "Segoe UI", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; max-width: 960px; margin: 0 auto; padding: 32px; line-height: 1.6; }
+  h1 { font-size: 26px; margin-bottom: 4px; }
+  h2 { font-size: 19px; border-bottom: 2px solid #e2e8f0; padding-bottom: 4px; margin-top: 32px; }
+  h3 { font-size: 15px; margin-bottom: 4px; }
+  table { border-collapse: collapse; width: 100%; font-size: 13px; margin: 8px 0; }
+  th, td { border: 1px solid #e2e8f0; padding: 4px 8px; text-align: left; vertical-align: top; }
+  th { background: #f1f5f9; }
+  figure { margin: 12px 0; }
+  figcaption { font-size: 12px; color: #64748b; text-align: center; }
+  svg { max-width: 100%; height: auto; }
+  .muted { color: #64748b; font-size: 13px; }
+  .cards { display: flex; gap: 12px; flex-wrap: wrap; }
+  .card { flex: 1; min-width: 140px; background: #f8fafc; border: 1px solid #e2e8f0; border-radius: 8px; padding: 12px; }
+  .card strong { display: block; font-size: 22px; color: #0369a1; }
+  @page { size: A4; margin: 15mm; }
+  @media print { body { padding: 0; max-width: none; } section, figure, tr { break-inside: avoid; } }
+`;
+
+// A standalone HTML document covering what a methods section needs: inputs, parameters and how many features
+// each step kept or removed. Everything, charts included, is inline so the file can be archived or printed as is.
+export const buildProcessingReport = (state: ProjectState, projectName: string): string => {
+  const steps = summarizeSteps(state);
+  const finalBars = finalCountBars(state);
+  const finalCount = finalBars.length > 0 ? finalBars[finalBars.length - 1].value : null;
+  const cards = [
+    ['输入文件', state.inputFiles.length],
+    ['主流程步骤', `${Math.min(state.currentStep, state.pipeline.length)}/${state.pipeline.length}`],
+    ['初始特征数', state.netTable?.rows.length ?? '-'],
+    ['最终特征数', finalCount ?? '-'],
+  ].map(([label, value]) => `<div class="card">${escapeHtml(label)}<strong>${escapeHtml(value)}</strong></div>`).join('');
+  const finalSection = section('最终特征数', finalBars.length > 0
+    ? table(['数据表', '特征数'], finalBars.map(bar => [bar.label, bar.value])) + `<figure>${barChartSvg(finalBars)}<figcaption>各功能区当前保留的特征数</figcaption></figure>`
+    : empty('尚无数据。'));
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="UTF-8">
+<title>${escapeHtml(projectName)} - 数据处理报告</title>
+<style>${REPORT_STYLE}</style>
+</head>
+<body>
+<h1>代谢组学数据处理报告</h1>
+<p class="muted">项目: ${escapeHtml(projectName)} · 生成时间: ${escapeHtml(formatTime(new Date().toISOString()))}</p>
+<div class="cards">${cards}</div>
+${inputSection(state)}
+${pipelineSection(state, steps)}
+${annotationSection(state)}
+${dereplicationSection(state)}
+${filterSection(state)}
+${preprocessSection(state)}
+${finalSection}
+${logSection(state)}
+</body>
+</html>`;
+};
@@ -0,0 +1,343 @@
+import { AnnotationRules, CandidateSet, InputFileRecord, MassTolerance, ProcessingStep, SampleInfo, TableData } from '../types';
+import { BATCH_CORRECTION_LABELS, BatchAlignMode, BatchCorrectionMethod, BatchTable } from './batchMerge';
+import { ION_POLARITY_LABELS, IonPolarity } from './ionGrouping';
+import { DEFAULT_QUALITY_FILTER, QualityFilterSettings } from './featureFilters';
+import { DEFAULT_FRAGMENT_SETTINGS, FragmentSettings } from './inSourceFragments';
+import { DEFAULT_IMPUTATION, ImputationSettings } from './imputation';
+import { NORMALIZATION_METHOD_LABELS, NormalizationMethod } from './normalization';
+import { DIFFERENTIAL_TEST_LABELS, DifferentialResult, DifferentialTest } from './statistics';
+import { SCALING_LABELS, ScalingMethod } from './multivariate';
+import { DISTANCE_LABELS, DistanceMetric, LINKAGE_LABELS, LinkageMethod } from './clustering';
+import { ContaminantMatchSettings, DEFAULT_CONTAMINANT_MATCH, SynonymGroups } from './contaminantMatching';
+import { DEFAULT_LIBRARY_SETTINGS, LibrarySettings } from './contaminantLibrary';
+import { MSI_LEVEL_LABELS, MsiLevel } from './msiLevel';
+import { DEFAULT_ANNOTATION_RULES } from './annotationRules';
+import { exportJsonFile } from './fileProcessor';
+import { validatePipeline } from './pipelineConfig';
+import { OperationLogEntry } from './operationHistory';
+
+// Everything needed to continue an analysis: each tool's data, its undo snapshots, its parameters, the unmatched
+// lists, the record of uploaded files and the operation log. Chart results (PCA, PLS-DA, heatmap, drift report) are
+// not kept; they are quick to recompute. Neither is the undo/redo stack, which only covers the current session.
+// The API key is deliberately left out so that exported project files can be shared.
+export interface ProjectState {
+  pipeline: ProcessingStep[];
+  inputFiles: InputFileRecord[];
+  currentStep: number;
+  netTable: TableData | null;
+  mergedData: TableData | null;
+  dataHistory: TableData[];
+  allUnmatched: Record<number, (string | number)[]>;
+  massTolerance: MassTolerance;
+  rtWindow: number;
+  ambiguousMatches: Record<number, string[]>;
+  candidateTopN: number;
+  featureCandidates: Record<string, CandidateSet>;
+  annotationRules: AnnotationRules;
+  isMultiBatch: boolean;
+  batches: BatchTable[];
+  batchAlignMode: BatchAlignMode;
+  batchCorrection: BatchCorrectionMethod;
+  columnBatches: Record<string, string> | null;
+  sampleMetadata: SampleInfo[] | null;
+  dereplicationData: TableData | null;
+  dataBeforeDereplication: TableData | null;
+  isDereplicated: boolean;
+  ionPolarity: IonPolarity;
+  useIonGroups: boolean;
+  featureFilterData: TableData | null;
+  featureFilterHistory: TableData[];
+  minBlankFold: number;
+  qualityFilterSettings: QualityFilterSettings;
+  fragmentSettings: FragmentSettings;
+  excludeFragments: boolean;
+  preprocessData: TableData | null;
+  preprocessHistory: { data: TableData; label: string }[];
+  imputationSettings: ImputationSettings;
+  normalizationMethod: NormalizationMethod;
+  internalStandardText: string;
+  runListOrder: Record<string, number> | null;
+  driftSpan: number;
+  statsData: TableData | null;
+  statsGroupA: string;
+  statsGroupB: string;
+  statsTest: DifferentialTest;
+  statsLogTransform: boolean;
+  statsMaxFdr: number;
+  statsMinLog2Fc: number;
+  statsResults: { results: DifferentialResult[]; groupA: string; groupB: string } | null;
+  multivariateSource: string;
+  multivariateIncludeQc: boolean;
+  multivariateLogTransform: boolean;
+  multivariateScaling: ScalingMethod;
+  plsdaComponents: number;
+  plsdaPermutations: number;
+  heatmapSelection: 'pValue' | 'vip' | 'manual';
+  heatmapTopN: number;
+  heatmapIdsText: string;
+  heatmapDistance: DistanceMetric;
+  heatmapLinkage: LinkageMethod;
+  heatmapClusterRows: boolean;
+  heatmapClusterCols: boolean;
+  heatmapZScore: boolean;
+  filterToolData: TableData | null;
+  dataBeforeFilter: TableData | null;
+  contaminantList: Set<string> | null;
+  contaminantText: string;
+  contaminantMatchSettings: ContaminantMatchSettings;
+  synonymGroups: SynonymGroups;
+  disabledContaminantEntries: Set<string>;
+  librarySettings: LibrarySettings;
+  isFiltered: boolean;
+  maxMsiLevel: MsiLevel | null;
+  identificationSource: 'gemini' | 'api';
+  apiUrl: string;
+  msmsData: string;
+  precursorMz: string;
+  explanationMetabolites: string;
+  operationLog: OperationLogEntry[];
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  savedAt: string;
+  description: string;
+}
+
+export interface Project extends ProjectSummary {
+  state: ProjectState;
+}
+
+const DB_NAME = 'metabolomics-projects';
+const DB_VERSION = 1;
+// Summaries live in their own store so the start-up list does not have to read every project's tables.
+const SUMMARY_STORE = 'summaries';
+const STATE_STORE = 'states';
+
+const PROJECT_FILE_FORMAT = 'metabolomics-project';
+const PROJECT_FILE_VERSION = 1;
+
+export const createProjectId = (): string => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const defaultProjectName = (): string => `分析项目 ${new Date().toLocaleString('zh-CN', { hour12: false })}`;
+
+// Only sessions that hold some data are worth saving; parameters alone are not a project.
+export const hasProjectData = (state: ProjectState): boolean =>
+  !!(state.netTable || state.batches.length > 0 || state.dereplicationData || state.featureFilterData || state.preprocessData
+    || state.statsData || state.filterToolData || state.contaminantList);
+
+export const describeProject = (state: ProjectState): string => {
+  const parts: string[] = [];
+  const main = state.mergedData ?? state.netTable;
+  if (main) parts.push(`主流程第 ${Math.min(state.currentStep + 1, state.pipeline.length)}/${state.pipeline.length} 步, ${main.rows.length} 个特征`);
+  const tools: [TableData | null, string][] = [
+    [state.dereplicationData, '去重'],
+    [state.featureFilterData, '特征过滤'],
+    [state.preprocessData, '预处理'],
+    [state.statsData, '统计分析'],
+    [state.filterToolData, '污染物过滤'],
+  ];
+  const used = tools.filter(([data]) => data).map(([, label]) => label);
+  if (used.length > 0) parts.push(`已使用: ${used.join('、')}`);
+  return parts.join('; ') || '尚无数据';
+};
+
+const openDatabase = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  if (typeof indexedDB === 'undefined') {
+    reject(new Error('当前浏览器不支持 IndexedDB，无法保存项目。'));
+    return;
+  }
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    if (!db.objectStoreNames.contains(SUMMARY_STORE)) db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+    if (!db.objectStoreNames.contains(STATE_STORE)) db.createObjectStore(STATE_STORE);
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error ?? new Error('无法打开项目数据库。'));
+});
+
+const runTransaction = async <T>(
+  mode: IDBTransactionMode,
+  work: (summaries: IDBObjectStore, states: IDBObjectStore) => IDBRequest<T> | void,
+): Promise<T | undefined> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = db.transaction([SUMMARY_STORE, STATE_STORE], mode);
+      const request = work(transaction.objectStore(SUMMARY_STORE), transaction.objectStore(STATE_STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error ?? new Error('项目数据库操作失败。'));
+      transaction.onabort = () => reject(transaction.error ?? new Error('项目数据库操作被中止，可能是存储空间不足。'));
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await runTransaction<ProjectSummary[]>('readonly', store => store.getAll());
+  return (summaries ?? []).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+};
+
+export const loadProject = async (id: string): Promise<Project> => {
+  let summary: ProjectSummary | undefined;
+  const state = await runTransaction<ProjectState>('readonly', (summaries, states) => {
+    const summaryRequest = summaries.get(id);
+    summaryRequest.onsuccess = () => { summary = summaryRequest.result; };
+    return states.get(id);
+  });
+  if (!summary || !state) throw new Error('未找到该项目，它可能已被删除。');
+  return { ...summary, state };
+};
+
+export const saveProject = async (project: Project): Promise<ProjectSummary> => {
+  const { state, ...summary } = project;
+  await runTransaction('readwrite', (summaries, states) => {
+    summaries.put(summary);
+    states.put(state, summary.id);
+  });
+  return summary;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runTransaction('readwrite', (summaries, states) => {
+    summaries.delete(id);
+    states.delete(id);
+  });
+};
+
+// Sets survive IndexedDB's structured clone but not JSON, so they are tagged on the way out and rebuilt on the way in.
+const SET_TAG = '$set';
+
+export const exportProjectFile = (project: Project) => {
+  const state = Object.fromEntries(Object.entries(project.state).map(([key, value]) => [key, value instanceof Set ? { [SET_TAG]: [...value] } : value]));
+  exportJsonFile({ format: PROJECT_FILE_FORMAT, version: PROJECT_FILE_VERSION, name: project.name, savedAt: project.savedAt, state }, project.name.replace(/[\\/:*?"<>|\s]+/g, '_'));
+};
+
+// Shape checks for every field a project file may carry. Files from older versions or edited by hand would otherwise
+// reach the React state as is and break rendering instead of failing the import.
+type FieldCheck = (value: any) => boolean;
+
+const isObject = (value: any): boolean => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isString: FieldCheck = value => typeof value === 'string';
+const isNumber: FieldCheck = value => typeof value === 'number' && !isNaN(value);
+const isBoolean: FieldCheck = value => typeof value === 'boolean';
+const isStringArray: FieldCheck = value => Array.isArray(value) && value.every(isString);
+const isTable: FieldCheck = value => isObject(value) && isStringArray(value.headers) && Array.isArray(value.rows) && value.rows.every(isObject);
+const isTableArray: FieldCheck = value => Array.isArray(value) && value.every(isTable);
+const isStringSet: FieldCheck = value => value instanceof Set && [...value].every(isString);
+const nullable = (check: FieldCheck): FieldCheck => value => value === null || check(value);
+const oneOf = (options: readonly unknown[]): FieldCheck => value => options.includes(value);
+const keysOf = (labels: Record<string | number, string>) => oneOf(Object.keys(labels));
+const recordOf = (check: FieldCheck): FieldCheck => value => isObject(value) && Object.values(value).every(check);
+const arrayOf = (check: FieldCheck): FieldCheck => value => Array.isArray(value) && value.every(check);
+// Settings objects must have every field of their defaults with the same type.
+const shapeOf = (template: object): FieldCheck => value => isObject(value) && Object.entries(template).every(([key, example]) =>
+  Array.isArray(example) ? Array.isArray(value[key]) : typeof value[key] === typeof example);
+
+const FIELD_CHECKS: { [K in keyof ProjectState]: FieldCheck } = {
+  pipeline: Array.isArray,
+  inputFiles: arrayOf(value => isObject(value) && isString(value.name) && isNumber(value.size)),
+  currentStep: value => Number.isInteger(value) && value >= 0,
+  netTable: nullable(isTable),
+  mergedData: nullable(isTable),
+  dataHistory: isTableArray,
+  allUnmatched: recordOf(Array.isArray),
+  massTolerance: value => isObject(value) && isNumber(value.value) && oneOf(['ppm', 'mDa'])(value.unit),
+  rtWindow: isNumber,
+  ambiguousMatches: recordOf(isStringArray),
+  candidateTopN: isNumber,
+  featureCandidates: recordOf(value => isObject(value) && isString(value.featureColumn) && recordOf(Array.isArray)(value.hits)),
+  annotationRules: shapeOf(DEFAULT_ANNOTATION_RULES),
+  isMultiBatch: isBoolean,
+  batches: arrayOf(value => isObject(value) && isString(value.name) && isTable(value.data) && isStringArray(value.intensityCols) && isStringArray(value.qcCols)),
+  batchAlignMode: oneOf(['id', 'mzRt']),
+  batchCorrection: keysOf(BATCH_CORRECTION_LABELS),
+  columnBatches: nullable(recordOf(isString)),
+  sampleMetadata: nullable(arrayOf(value => isObject(value) && isString(value.column) && isString(value.type))),
+  dereplicationData: nullable(isTable),
+  dataBeforeDereplication: nullable(isTable),
+  isDereplicated: isBoolean,
+  ionPolarity: keysOf(ION_POLARITY_LABELS),
+  useIonGroups: isBoolean,
+  featureFilterData: nullable(isTable),
+  featureFilterHistory: isTableArray,
+  minBlankFold: isNumber,
+  qualityFilterSettings: shapeOf(DEFAULT_QUALITY_FILTER),
+  fragmentSettings: shapeOf(DEFAULT_FRAGMENT_SETTINGS),
+  excludeFragments: isBoolean,
+  preprocessData: nullable(isTable),
+  preprocessHistory: arrayOf(value => isObject(value) && isTable(value.data) && isString(value.label)),
+  imputationSettings: shapeOf(DEFAULT_IMPUTATION),
+  normalizationMethod: keysOf(NORMALIZATION_METHOD_LABELS),
+  internalStandardText: isString,
+  runListOrder: nullable(recordOf(isNumber)),
+  driftSpan: isNumber,
+  statsData: nullable(isTable),
+  statsGroupA: isString,
+  statsGroupB: isString,
+  statsTest: keysOf(DIFFERENTIAL_TEST_LABELS),
+  statsLogTransform: isBoolean,
+  statsMaxFdr: isNumber,
+  statsMinLog2Fc: isNumber,
+  statsResults: nullable(value => isObject(value) && Array.isArray(value.results) && isString(value.groupA) && isString(value.groupB)),
+  multivariateSource: isString,
+  multivariateIncludeQc: isBoolean,
+  multivariateLogTransform: isBoolean,
+  multivariateScaling: keysOf(SCALING_LABELS),
+  plsdaComponents: isNumber,
+  plsdaPermutations: isNumber,
+  heatmapSelection: oneOf(['pValue', 'vip', 'manual']),
+  heatmapTopN: isNumber,
+  heatmapIdsText: isString,
+  heatmapDistance: keysOf(DISTANCE_LABELS),
+  heatmapLinkage: keysOf(LINKAGE_LABELS),
+  heatmapClusterRows: isBoolean,
+  heatmapClusterCols: isBoolean,
+  heatmapZScore: isBoolean,
+  filterToolData: nullable(isTable),
+  dataBeforeFilter: nullable(isTable),
+  contaminantList: nullable(isStringSet),
+  contaminantText: isString,
+  contaminantMatchSettings: shapeOf(DEFAULT_CONTAMINANT_MATCH),
+  synonymGroups: arrayOf(isStringArray),
+  disabledContaminantEntries: isStringSet,
+  librarySettings: shapeOf(DEFAULT_LIBRARY_SETTINGS),
+  isFiltered: isBoolean,
+  maxMsiLevel: nullable(value => typeof value === 'number' && Object.keys(MSI_LEVEL_LABELS).map(Number).includes(value)),
+  identificationSource: oneOf(['gemini', 'api']),
+  apiUrl: isString,
+  msmsData: isString,
+  precursorMz: isString,
+  explanationMetabolites: isString,
+  operationLog: arrayOf(value => isObject(value) && isString(value.timestamp) && isString(value.action)),
+};
+
+export const parseProjectFile = (text: string): { name: string; state: Partial<ProjectState> } => {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('项目文件不是有效的 JSON。');
+  }
+  if (!parsed || parsed.format !== PROJECT_FILE_FORMAT || typeof parsed.state !== 'object' || parsed.state === null) {
+    throw new Error('这不是本工具导出的项目文件。');
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > PROJECT_FILE_VERSION) {
+    throw new Error(`项目文件版本 (${parsed.version}) 比当前工具更新，请升级后再导入。`);
+  }
+  // Unknown keys are dropped; known ones must have the expected shape.
+  const entries = Object.entries(parsed.state)
+    .filter(([key]) => key in FIELD_CHECKS)
+    .map(([key, value]: [string, any]) => [
+      key,
+      value && typeof value === 'object' && Array.isArray(value[SET_TAG]) ? new Set<string>(value[SET_TAG]) : value,
+    ] as [keyof ProjectState, unknown]);
+  const invalid = entries.filter(([key, value]) => key !== 'pipeline' && value !== undefined && !FIELD_CHECKS[key](value)).map(([key]) => key);
+  if (invalid.length > 0) throw new Error(`项目文件中以下字段的格式不正确，无法导入: ${invalid.join(', ')}`);
+  const state = Object.fromEntries(entries) as Partial<ProjectState>;
+  state.pipeline = validatePipeline(parsed.state.pipeline);
+  return { name: typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : defaultProjectName(), state };
+};
@@ -0,0 +1,119 @@
+import { SampleInfo, SampleType, TableData } from '../types';
+import { normalizeHeader } from './columnMapping';
+import { toNumber } from './massMatcher';
+
+const METADATA_COLUMNS: Record<keyof SampleInfo, string[]> = {
+  column: ['column', 'columnname', 'sample', 'samplename', 'sampleid', 'filename', 'name'],
+  type: ['type', 'sampletype', 'class', 'category'],
+  group: ['group', 'condition', 'treatment'],
+  batch: ['batch', 'batchid'],
+  injectionOrder: ['injectionorder', 'order', 'runorder', 'injection', 'sequence'],
+};
+
+export interface SampleColumns {
+  sampleCols: string[];
+  qcCols: string[];
+  blankCols: string[];
+  groups: Record<string, string[]>;
+  source: 'metadata' | 'prefix';
+}
+
+export const normalizeSampleType = (value: unknown): SampleType => {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (/qc|pool|质控/.test(text)) return 'qc';
+  if (/blank|空白|solvent|溶剂/.test(text)) return 'blank';
+  if (!text || /sample|样本|study|bio/.test(text)) return 'sample';
+  return 'other';
+};
+
+const findHeader = (headers: string[], aliases: string[]): string | undefined =>
+  headers.find(h => aliases.includes(normalizeHeader(h)));
+
+export const parseSampleMetadata = (data: TableData): SampleInfo[] => {
+  const columnHeader = findHeader(data.headers, METADATA_COLUMNS.column);
+  const typeHeader = findHeader(data.headers, METADATA_COLUMNS.type);
+  if (!columnHeader) throw new Error("样本信息表必须包含样本列名列 (例如 'Sample' 或 'Column')。");
+  if (!typeHeader) throw new Error("样本信息表必须包含样本类型列 (例如 'Type'，取值为 Sample / QC / Blank)。");
+  const groupHeader = findHeader(data.headers, METADATA_COLUMNS.group);
+  const batchHeader = findHeader(data.headers, METADATA_COLUMNS.batch);
+  const orderHeader = findHeader(data.headers, METADATA_COLUMNS.injectionOrder);
+
+  const samples = data.rows
+    .filter(row => row[columnHeader] != null && String(row[columnHeader]).trim() !== '')
+    .map(row => ({
+      column: String(row[columnHeader]).trim(),
+      type: normalizeSampleType(row[typeHeader]),
+      group: groupHeader && row[groupHeader] != null ? String(row[groupHeader]).trim() : '',
+      batch: batchHeader && row[batchHeader] != null ? String(row[batchHeader]).trim() : '',
+      injectionOrder: orderHeader ? toNumber(row[orderHeader]) : null,
+    }));
+
+  if (samples.length === 0) throw new Error('样本信息表中没有有效的样本行。');
+  // The same column name may appear once per batch, since multi-batch runs often reuse names like QC-1.
+  const keys = samples.map(s => `${s.column} (${s.batch || '无批次'})`);
+  const duplicates = [...new Set(keys.filter((key, i) => keys.indexOf(key) !== i))];
+  if (duplicates.length > 0) throw new Error(`样本信息表中存在重复的列名: ${duplicates.join(', ')}`);
+  return samples;
+};
+
+// A run list only needs the sample column and its injection order; types come from the metadata sheet or prefixes.
+export const parseRunList = (data: TableData): Record<string, number> => {
+  const columnHeader = findHeader(data.headers, METADATA_COLUMNS.column);
+  const orderHeader = findHeader(data.headers, METADATA_COLUMNS.injectionOrder);
+  if (!columnHeader) throw new Error("进样序列表必须包含样本列名列 (例如 'Sample' 或 'FileName')。");
+  if (!orderHeader) throw new Error("进样序列表必须包含进样顺序列 (例如 'InjectionOrder' 或 'Order')。");
+
+  const order: Record<string, number> = {};
+  data.rows.forEach(row => {
+    const column = row[columnHeader] != null ? String(row[columnHeader]).trim() : '';
+    const value = toNumber(row[orderHeader]);
+    if (column && value !== null) order[column] = value;
+  });
+  if (Object.keys(order).length === 0) throw new Error('进样序列表中没有有效的进样顺序。');
+  return order;
+};
+
+export const getInjectionOrder = (metadata: SampleInfo[] | null): Record<string, number> => {
+  const order: Record<string, number> = {};
+  metadata?.forEach(info => {
+    if (info.injectionOrder !== null) order[info.column] = info.injectionOrder;
+  });
+  return order;
+};
+
+const groupBy = (cols: string[], keyOf: (col: string) => string): Record<string, string[]> => {
+  const groups: Record<string, string[]> = {};
+  cols.forEach(col => {
+    const key = keyOf(col);
+    (groups[key] ??= []).push(col);
+  });
+  return groups;
+};
+
+// Falls back to the original CON_/HBO_/QC- header prefixes when no metadata sheet is loaded
+// or none of its columns appear in the table.
+export const classifySampleColumns = (headers: string[], metadata: SampleInfo[] | null): SampleColumns => {
+  // Before batches are merged a name can be listed once per batch; the first row decides its type and group.
+  const present = metadata?.filter((info, i) => headers.includes(info.column) && metadata.findIndex(other => other.column === info.column) === i) ?? [];
+  if (present.length > 0) {
+    const sampleInfos = present.filter(info => info.type === 'sample');
+    const groupOf = new Map(sampleInfos.map(info => [info.column, info.group || '未分组']));
+    return {
+      sampleCols: sampleInfos.map(info => info.column),
+      qcCols: present.filter(info => info.type === 'qc').map(info => info.column),
+      blankCols: present.filter(info => info.type === 'blank').map(info => info.column),
+      groups: groupBy(sampleInfos.map(info => info.column), col => groupOf.get(col)!),
+      source: 'metadata',
+    };
+  }
+
+  const sampleCols = headers.filter(h => h.toUpperCase().startsWith('CON_') || h.toUpperCase().startsWith('HBO_'));
+  return {
+    sampleCols,
+    qcCols: headers.filter(h => h.toUpperCase().startsWith('QC-')),
+    blankCols: headers.filter(h => /blank/i.test(h)),
+    groups: groupBy(sampleCols, col => col.split('_')[0].toUpperCase()),
+    source: 'prefix',
+  };
+};
+
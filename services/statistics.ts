@@ -0,0 +1,199 @@
+import { TableData, TableRow } from '../types';
+import { toNumber } from './massMatcher';
+
+export type DifferentialTest = 'welch' | 'mannWhitney';
+
+export const DIFFERENTIAL_TEST_LABELS: Record<DifferentialTest, string> = {
+  welch: 'Welch t 检验',
+  mannWhitney: 'Mann–Whitney U 检验',
+};
+
+export interface DifferentialOptions {
+  test: DifferentialTest;
+  logTransform: boolean;
+}
+
+export interface DifferentialResult {
+  rowIndex: number;
+  meanA: number | null;
+  meanB: number | null;
+  foldChange: number | null;
+  log2FoldChange: number | null;
+  pValue: number | null;
+  fdr: number | null;
+}
+
+// Lanczos approximation of ln Γ(x).
+const logGamma = (x: number): number => {
+  const c = [76.18009172947146, -86.50532032941677, 24.01409824083091, -1.231739572450155, 0.1208650973866179e-2, -0.5395239384953e-5];
+  let y = x;
+  const tmp = x + 5.5 - (x + 0.5) * Math.log(x + 5.5);
+  let ser = 1.000000000190015;
+  c.forEach(coef => ser += coef / ++y);
+  return -tmp + Math.log(2.5066282746310005 * ser / x);
+};
+
+// Continued fraction for the regularized incomplete beta function (Numerical Recipes betacf).
+const betaContinuedFraction = (a: number, b: number, x: number): number => {
+  const maxIterations = 200;
+  const eps = 3e-14;
+  const tiny = 1e-300;
+  let c = 1;
+  let d = 1 - (a + b) * x / (a + 1);
+  if (Math.abs(d) < tiny) d = tiny;
+  d = 1 / d;
+  let h = d;
+  for (let m = 1; m <= maxIterations; m++) {
+    const m2 = 2 * m;
+    let aa = m * (b - m) * x / ((a + m2 - 1) * (a + m2));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    h *= d * c;
+    aa = -(a + m) * (a + b + m) * x / ((a + m2) * (a + m2 + 1));
+    d = 1 + aa * d;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = 1 + aa / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < eps) break;
+  }
+  return h;
+};
+
+export const regularizedIncompleteBeta = (x: number, a: number, b: number): number => {
+  if (x <= 0) return 0;
+  if (x >= 1) return 1;
+  const front = Math.exp(logGamma(a + b) - logGamma(a) - logGamma(b) + a * Math.log(x) + b * Math.log(1 - x));
+  return x < (a + 1) / (a + b + 2)
+    ? front * betaContinuedFraction(a, b, x) / a
+    : 1 - front * betaContinuedFraction(b, a, 1 - x) / b;
+};
+
+// Complementary error function with fractional error below 1.2e-7 (Numerical Recipes erfcc).
+const erfc = (x: number): number => {
+  const z = Math.abs(x);
+  const t = 1 / (1 + 0.5 * z);
+  const r = t * Math.exp(-z * z - 1.26551223 + t * (1.00002368 + t * (0.37409196 + t * (0.09678418 + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277)))))))));
+  return x >= 0 ? r : 2 - r;
+};
+
+const mean = (values: number[]): number => values.reduce((a, b) => a + b, 0) / values.length;
+
+const variance = (values: number[]): number => {
+  const m = mean(values);
+  return values.reduce((sum, v) => sum + Math.pow(v - m, 2), 0) / (values.length - 1);
+};
+
+export const welchTTest = (a: number[], b: number[]): number | null => {
+  if (a.length < 2 || b.length < 2) return null;
+  const seA = variance(a) / a.length;
+  const seB = variance(b) / b.length;
+  const se = seA + seB;
+  if (se === 0) return mean(a) === mean(b) ? 1 : null;
+  const t = (mean(a) - mean(b)) / Math.sqrt(se);
+  const df = se * se / (seA * seA / (a.length - 1) + seB * seB / (b.length - 1));
+  return regularizedIncompleteBeta(df / (df + t * t), df / 2, 0.5);
+};
+
+// Two-sided, normal approximation with tie and continuity correction.
+export const mannWhitneyU = (a: number[], b: number[]): number | null => {
+  if (a.length < 2 || b.length < 2) return null;
+  const combined = [...a.map(value => ({ value, fromA: true })), ...b.map(value => ({ value, fromA: false }))]
+    .sort((x, y) => x.value - y.value);
+  const n = combined.length;
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let i = 0; i < n;) {
+    let j = i;
+    while (j + 1 < n && combined[j + 1].value === combined[i].value) j++;
+    const rank = (i + j) / 2 + 1;
+    const ties = j - i + 1;
+    tieTerm += ties * ties * ties - ties;
+    for (let k = i; k <= j; k++) if (combined[k].fromA) rankSumA += rank;
+    i = j + 1;
+  }
+  const u = rankSumA - a.length * (a.length + 1) / 2;
+  const mu = a.length * b.length / 2;
+  const sigma = Math.sqrt(a.length * b.length / 12 * ((n + 1) - tieTerm / (n * (n - 1))));
+  if (sigma === 0) return 1;
+  const z = Math.max(0, Math.abs(u - mu) - 0.5) / sigma;
+  return Math.min(1, erfc(z / Math.SQRT2));
+};
+
+export const benjaminiHochberg = (pValues: (number | null)[]): (number | null)[] => {
+  const ranked = pValues
+    .map((p, index) => ({ p, index }))
+    .filter((item): item is { p: number; index: number } => item.p !== null)
+    .sort((x, y) => x.p - y.p);
+  const m = ranked.length;
+  const adjusted: (number | null)[] = pValues.map(() => null);
+  let running = 1;
+  for (let i = m - 1; i >= 0; i--) {
+    running = Math.min(running, ranked[i].p * m / (i + 1));
+    adjusted[ranked[i].index] = running;
+  }
+  return adjusted;
+};
+
+const groupValues = (row: TableRow, cols: string[], logTransform: boolean): number[] =>
+  cols
+    .map(col => toNumber(row[col]))
+    .filter((v): v is number => v !== null && (!logTransform || v > 0))
+    .map(v => logTransform ? Math.log2(v) : v);
+
+// Fold change is group B over group A on the untransformed means; the test runs on log2 values when requested.
+export const runDifferentialAnalysis = (data: TableData, colsA: string[], colsB: string[], options: DifferentialOptions): DifferentialResult[] => {
+  const results = data.rows.map((row, rowIndex) => {
+    const rawA = groupValues(row, colsA, false);
+    const rawB = groupValues(row, colsB, false);
+    const meanA = rawA.length > 0 ? mean(rawA) : null;
+    const meanB = rawB.length > 0 ? mean(rawB) : null;
+    const foldChange = meanA !== null && meanB !== null && meanA > 0 && meanB > 0 ? meanB / meanA : null;
+    const testA = groupValues(row, colsA, options.logTransform);
+    const testB = groupValues(row, colsB, options.logTransform);
+    const pValue = options.test === 'welch' ? welchTTest(testA, testB) : mannWhitneyU(testA, testB);
+    return { rowIndex, meanA, meanB, foldChange, log2FoldChange: foldChange !== null ? Math.log2(foldChange) : null, pValue, fdr: null as number | null };
+  });
+  const fdr = benjaminiHochberg(results.map(r => r.pValue));
+  results.forEach((r, i) => r.fdr = fdr[i]);
+  return results;
+};
+
+export const isSignificant = (result: DifferentialResult, maxFdr: number, minAbsLog2Fc: number): boolean =>
+  result.fdr !== null && result.fdr <= maxFdr && result.log2FoldChange !== null && Math.abs(result.log2FoldChange) >= minAbsLog2Fc;
+
+const round = (value: number | null, digits = 4): number | null => value === null ? null : Number(value.toPrecision(digits));
+
+// ID, m/z, RT, the final annotation and any class columns, in that order, as present in the table.
+export const getAnnotationColumns = (headers: string[]): string[] =>
+  ['ID', 'MZ', 'RT', 'Final_Annotation', ...headers.filter(h => /class/i.test(h))]
+    .filter((h, i, all) => headers.includes(h) && all.indexOf(h) === i);
+
+export const buildDifferentialTable = (
+  data: TableData,
+  results: DifferentialResult[],
+  labels: { groupA: string; groupB: string },
+  thresholds: { maxFdr: number; minAbsLog2Fc: number },
+): TableData => {
+  const infoColumns = getAnnotationColumns(data.headers);
+  const headers = [...infoColumns, `Mean_${labels.groupA}`, `Mean_${labels.groupB}`, 'Fold_Change', 'Log2_FC', 'P_Value', 'FDR', 'Significant'];
+  const rows = results.map(result => {
+    const source = data.rows[result.rowIndex];
+    const row: TableRow = {};
+    infoColumns.forEach(col => row[col] = source[col] ?? null);
+    row[`Mean_${labels.groupA}`] = round(result.meanA, 6);
+    row[`Mean_${labels.groupB}`] = round(result.meanB, 6);
+    row.Fold_Change = round(result.foldChange);
+    row.Log2_FC = round(result.log2FoldChange);
+    row.P_Value = round(result.pValue);
+    row.FDR = round(result.fdr);
+    row.Significant = isSignificant(result, thresholds.maxFdr, thresholds.minAbsLog2Fc) ? (result.log2FoldChange! > 0 ? 'Up' : 'Down') : '';
+    return row;
+  });
+  return { headers, rows };
+};
@@ -10,11 +10,18 @@ export interface ProcessingStep {
   name: string;
   description: string;
   // FIX: Added 'mzmine' to the fileType union type to allow it as a valid value.
-  fileType: 'mzmine' | 'netTable' | 'fbmn' | 'sirius' | 'supplementary' | 'annotation';
+  fileType: 'mzmine' | 'netTable' | 'fbmn' | 'sirius' | 'supplementary' | 'external' | 'custom' | 'annotation';
   requiredColumns: string[];
+  matchMode?: 'id' | 'mz' | 'mzRt';
   matchColumn: string;
   matchColumnBase?: string;
+  rtColumn?: string;
+  rtColumnBase?: string;
   appendColumns: string[];
+  rankColumn?: string;
+  candidateNameColumn?: string;
+  candidatePrefix?: string;
+  optional?: boolean;
 }
 
 export interface IdentificationResult {
@@ -23,4 +30,56 @@ export interface IdentificationResult {
   reasoning: string;
   molecularFormula?: string;
   smiles?: string;
-}
\ No newline at end of file
+}
+export interface MassTolerance {
+  value: number;
+  unit: 'ppm' | 'mDa';
+}
+
+// Maps a column name the pipeline expects to the header that holds it in an uploaded file.
+export type ColumnMapping = Record<string, string>;
+
+export interface AnnotationRules {
+  minMqScore: number;
+  libraryQualities: string[];
+  minSharedPeaks: number;
+  maxAbsPpmError: number;
+  minSiriusConfidence: number;
+  preferWhenBothStrong: 'fbmn' | 'sirius';
+  fallback: 'fbmn' | 'sirius';
+}
+
+// One library hit for a feature, kept so a curator can promote it over the top-ranked one.
+export interface CandidateHit {
+  source: string;
+  rank: number;
+  name: string;
+  score: number | null;
+  values: TableRow;
+}
+
+export interface CandidateSet {
+  featureColumn: string;
+  hits: Record<string, CandidateHit[]>;
+}
+
+export type SampleType = 'sample' | 'qc' | 'blank' | 'other';
+
+export interface SampleInfo {
+  column: string;
+  type: SampleType;
+  group: string;
+  batch: string;
+  injectionOrder: number | null;
+}
+
+// An uploaded file, kept so the processing report can list what the results were built from.
+export interface InputFileRecord {
+  tool: string;
+  purpose: string;
+  name: string;
+  size: number;
+  rows: number;
+  columns: number;
+  loadedAt: string;
+}